@@ -1,10 +1,22 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { 
-  generateArchitecturalSummary, reviewFileWithContext, synthesizeFinalReport, 
+  generateArchitecturalSummary, synthesizeFinalReport, 
   findRecommendedRepos, RecommendedRepo, generateVisualDocumentation, 
-  VisualDocumentationData, startOrContinueChat, ChatMessage
+  VisualDocumentationData, createChatSession, ChatSession, ChatMessage, ChatToolCall, DiagramKey, FinalReport, triageSecurityHits
 } from './services/geminiService';
-import { startRepositoryAnalysis, RepoAnalysisData } from './services/githubService';
+import { findMermaidError } from './services/mermaidValidation';
+import { RepoIndex, buildRepoIndex } from './services/repoIndex';
+import { RepoTools, createRepoTools } from './services/repoTools';
+import { runReviewPipeline, DEFAULT_REVIEW_CONCURRENCY } from './services/reviewPipeline';
+import { AnalysisCheckpoint, clearCheckpoint, loadCheckpoint, saveCheckpoint } from './services/checkpoint';
+import { isAbortError } from './services/requestLayer';
+import {
+  AnalysisRecord, createRecordId, deleteAnalysis, listAnalyses, saveAnalysis, updateAnalysis
+} from './services/history';
+import {
+  fetchRepoRefs, fetchRepoFileTree, RepoAnalysisData, RepoRef, RepoTreeEntry
+} from './services/githubService';
+import { FileSelectionConfig } from './services/fileSelection';
 import Header from './components/Header';
 import ReviewOutput from './components/ReviewOutput';
 import ErrorMessage from './components/ErrorMessage';
@@ -15,13 +27,65 @@ import Recommendations from './components/Recommendations';
 import SearchIcon from './components/icons/SearchIcon';
 import VisualDocumentation from './components/VisualDocumentation';
 import DiagramIcon from './components/icons/DiagramIcon';
+import FindingsTable from './components/FindingsTable';
+import PullRequestReview from './components/PullRequestReview';
+import ReportHeader from './components/ReportHeader';
+import SelectionSettings from './components/SelectionSettings';
+import FileRanking from './components/FileRanking';
+import PromptBudget from './components/PromptBudget';
+import ResumeBanner from './components/ResumeBanner';
+import HistoryPanel from './components/HistoryPanel';
+import ReportComparison from './components/ReportComparison';
+import ExportMenu from './components/ExportMenu';
+import CodeInput from './components/CodeInput';
+import { LocalSource, loadLocalFileTree } from './services/localSource';
+import { SourceLocation, createSnapshotReader, isGitHubSource, loadIndexableFiles, startAnalysis } from './services/sources';
+import PublishToGitHub from './components/PublishToGitHub';
+import ModelSettings from './components/ModelSettings';
+import ReviewProfileSelect from './components/ReviewProfileSelect';
+import SecurityScanPanel from './components/SecurityScanPanel';
+import CodeMetricsPanel from './components/CodeMetricsPanel';
+import SourceViewer from './components/SourceViewer';
+import { RepoConfig } from './services/repoConfig';
+import { getReviewProfile, listReviewProfiles } from './services/reviewProfiles';
+import { SecurityScanResult, runSecurityScan } from './services/securityScan';
+import { DEFAULT_LLM_SETTINGS, LlmSettings, configureLlm } from './services/llmProvider';
+import { clearCache, configureCache } from './services/responseCache';
 
 const App: React.FC = () => {
+  const [inputMode, setInputMode] = useState<'github' | 'local'>('github');
+  const [localSource, setLocalSource] = useState<LocalSource | null>(null);
   const [githubUrl, setGithubUrl] = useState<string>('');
-  const [review, setReview] = useState<string>('');
+  const [githubToken, setGithubToken] = useState<string>('');
+  const [gitRef, setGitRef] = useState<string>('');
+  const [availableRefs, setAvailableRefs] = useState<RepoRef[]>([]);
+  const [isLoadingRefs, setIsLoadingRefs] = useState(false);
+
+  // State for file selection
+  const [selectionOverrides, setSelectionOverrides] = useState<Partial<FileSelectionConfig>>({});
+  const [repoTree, setRepoTree] = useState<RepoTreeEntry[] | null>(null);
+  const [repoConfig, setRepoConfig] = useState<RepoConfig | null>(null);
+  const [reviewProfileId, setReviewProfileId] = useState<string>('');
+  const [runSecurityScanEnabled, setRunSecurityScanEnabled] = useState(false);
+  const [isLoadingTree, setIsLoadingTree] = useState(false);
+  const [reviewConcurrency, setReviewConcurrency] = useState<number>(DEFAULT_REVIEW_CONCURRENCY);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(DEFAULT_LLM_SETTINGS);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [cacheMessage, setCacheMessage] = useState<string | null>(null);
+  const [report, setReport] = useState<FinalReport | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [analysisStatus, setAnalysisStatus] = useState<AnalysisStatus | null>(null);
   const [error, setError] = useState<string | null>(null);
+
+  // State for cancelling and resuming an analysis
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [savedCheckpoint, setSavedCheckpoint] = useState<AnalysisCheckpoint | null>(null);
+
+  // State for the saved analysis history
+  const [historyRecords, setHistoryRecords] = useState<AnalysisRecord[]>([]);
+  const [currentRecordId, setCurrentRecordId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{ older: AnalysisRecord; newer: AnalysisRecord } | null>(null);
   
   // State for repository context to pass to Deep Wiki
   const [repoDataForWiki, setRepoDataForWiki] = useState<RepoAnalysisData | null>(null);
@@ -38,10 +102,23 @@ const App: React.FC = () => {
   const [docError, setDocError] = useState<string | null>(null);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [isChatting, setIsChatting] = useState(false);
+  // The answer so far while it streams in; it joins the history once complete or stopped
+  const [streamingReply, setStreamingReply] = useState('');
+  const [streamingToolCalls, setStreamingToolCalls] = useState<ChatToolCall[]>([]);
+  const chatAbortControllerRef = useRef<AbortController | null>(null);
+  // Built on the first question and kept for the analysis; the session lasts until the diagrams change
+  const repoIndexRef = useRef<{ repoData: RepoAnalysisData; index: RepoIndex } | null>(null);
+  const chatSessionRef = useRef<{ docs: VisualDocumentationData; session: ChatSession; tools: RepoTools } | null>(null);
+  const [indexSummary, setIndexSummary] = useState<string | null>(null);
+
+  // File shown in the source viewer, for a finding or a chat citation
+  const [sourceView, setSourceView] = useState<{ location: SourceLocation; content: string | null } | null>(null);
 
 
+  const review = report?.summary ?? '';
+
   const resetState = () => {
-    setReview('');
+    setReport(null);
     setError(null);
     setRecommendations(null);
     setRecommendationError(null);
@@ -49,54 +126,306 @@ const App: React.FC = () => {
     setDocError(null);
     setRepoDataForWiki(null);
     setArchitecturalSummaryForWiki('');
+    chatAbortControllerRef.current?.abort();
+    setIndexSummary(null);
+    setSourceView(null);
     setChatHistory([]);
+    setCurrentRecordId(null);
+    setComparison(null);
   };
 
-  const handleRepoAnalysis = useCallback(async () => {
-    if (!githubUrl.trim()) {
-      setError('Please enter a GitHub repository URL.');
+  const refreshHistory = useCallback(async () => {
+    try {
+      setHistoryRecords(await listAnalyses());
+    } catch (err) {
+      console.warn('Could not load the analysis history:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCheckpoint().then(checkpoint => {
+      if (checkpoint?.repoData) setSavedCheckpoint(checkpoint);
+    });
+    refreshHistory();
+  }, [refreshHistory]);
+
+  useEffect(() => {
+    configureLlm(llmSettings);
+  }, [llmSettings]);
+
+  useEffect(() => {
+    configureCache({ bypass: bypassCache });
+  }, [bypassCache]);
+
+  const handleClearCache = useCallback(async () => {
+    try {
+      await clearCache();
+      setCacheMessage('Cache cleared.');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setCacheMessage(`Could not clear the cache: ${errorMessage}`);
+    }
+  }, []);
+
+  // Docs and chat are produced after the report was saved; keep the saved record in step
+  useEffect(() => {
+    if (!currentRecordId) return;
+    updateAnalysis(currentRecordId, { visualDocs, chatHistory })
+      .catch(err => console.warn('Could not update the saved analysis:', err));
+  }, [currentRecordId, visualDocs, chatHistory]);
+
+  const handleUrlChange = (url: string) => {
+    setGithubUrl(url);
+    // Refs and hand-picked files belong to the previous repository
+    setAvailableRefs([]);
+    setGitRef('');
+    setRepoTree(null);
+    setRepoConfig(null);
+    setSelectionOverrides(({ manualSelection, ...rest }) => rest);
+  };
+
+  const handleLocalSourceChange = (source: LocalSource | null) => {
+    setLocalSource(source);
+    // Hand-picked files belong to the previous folder or archive
+    setRepoTree(null);
+    setRepoConfig(null);
+    setSelectionOverrides(({ manualSelection, ...rest }) => rest);
+  };
+
+  const handleInputModeChange = (mode: 'github' | 'local') => {
+    setInputMode(mode);
+    setRepoTree(null);
+    setRepoConfig(null);
+    setSelectionOverrides(({ manualSelection, ...rest }) => rest);
+  };
+
+  const handleBrowseFiles = useCallback(async () => {
+    if (inputMode === 'local' && !localSource) {
+      setError('Please choose a folder or archive first.');
       return;
     }
+    setIsLoadingTree(true);
+    setError(null);
+    try {
+      const snapshot = localSource && inputMode === 'local'
+        ? await loadLocalFileTree(localSource, { selection: selectionOverrides })
+        : await fetchRepoFileTree(githubUrl, { token: githubToken, ref: gitRef, selection: selectionOverrides });
+      setRepoTree(snapshot.fileTree);
+      setRepoConfig(snapshot.repoConfig);
+      if (!selectionOverrides.manualSelection?.length) {
+        // Start from what the automatic selection would pick
+        setSelectionOverrides({ ...selectionOverrides, manualSelection: snapshot.defaultSelection });
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to load the repository file tree: ${errorMessage}`);
+    } finally {
+      setIsLoadingTree(false);
+    }
+  }, [inputMode, localSource, githubUrl, githubToken, gitRef, selectionOverrides]);
+
+  const handleLoadRefs = useCallback(async () => {
+    setIsLoadingRefs(true);
+    setError(null);
+    try {
+      const refs = await fetchRepoRefs(githubUrl, { token: githubToken });
+      setAvailableRefs(refs);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to load branches and tags: ${errorMessage}`);
+    } finally {
+      setIsLoadingRefs(false);
+    }
+  }, [githubUrl, githubToken]);
+
+  // A local source is only needed until its files are read; after that the checkpoint has everything
+  const runAnalysis = useCallback(async (checkpoint: AnalysisCheckpoint, source?: LocalSource) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
     setIsProcessing(true);
+    setIsCancelling(false);
+    setSavedCheckpoint(null);
     resetState();
 
+    let current = checkpoint;
+    const updateCheckpoint = (update: Partial<AnalysisCheckpoint>) => {
+      current = { ...current, ...update, updatedAt: new Date().toISOString() };
+      saveCheckpoint(current);
+    };
+
     try {
       const updateCallback = (status: AnalysisStatus) => setAnalysisStatus(status);
-      const repoData = await startRepositoryAnalysis(githubUrl, updateCallback);
-      
-      if (repoData.codeFiles.length === 0) {
-        throw new Error("Could not find any reviewable source code files in this repository.");
+      let repoData = current.repoData;
+      if (!repoData) {
+        repoData = await startAnalysis(source ?? { kind: 'github', url: current.githubUrl }, updateCallback, {
+          token: githubToken,
+          ref: current.ref,
+          selection: current.selection,
+          profile: current.profile,
+          signal,
+        });
+        if (repoData.codeFiles.length === 0) {
+          throw new Error("Could not find any reviewable source code files in this repository.");
+        }
+        updateCheckpoint({ repoData });
       }
       setRepoDataForWiki(repoData); // Save for Wiki
 
-      updateCallback({ stage: 'SUMMARIZING', message: 'Generating architectural summary...', progress: { current: 0, total: 0 } });
-      const archSummary = await generateArchitecturalSummary(repoData.structuralFiles);
+      let archSummary = current.architecturalSummary;
+      if (archSummary === undefined) {
+        const summarizing: AnalysisStatus = { stage: 'SUMMARIZING', message: 'Generating architectural summary...', progress: { current: 0, total: 0 } };
+        updateCallback(summarizing);
+        archSummary = await generateArchitecturalSummary(repoData.structuralFiles, getReviewProfile(repoData), {
+          signal,
+          onText: preview => updateCallback({ ...summarizing, preview }),
+        });
+        updateCheckpoint({ architecturalSummary: archSummary });
+      }
       setArchitecturalSummaryForWiki(archSummary); // Save for Wiki
 
-      const individualReviews: string[] = [];
-      for (let i = 0; i < repoData.codeFiles.length; i++) {
-        const file = repoData.codeFiles[i];
-        updateCallback({
-          stage: 'REVIEWING',
-          message: `Reviewing ${file.path}...`,
-          progress: { current: i + 1, total: repoData.codeFiles.length },
-        });
-        const fileReview = await reviewFileWithContext(file, archSummary);
-        individualReviews.push(`--- Review for ${file.path} ---\n${fileReview}`);
+      const { pullRequest } = repoData;
+      const total = repoData.codeFiles.length;
+      const fileReviews = await runReviewPipeline(repoData, archSummary, {
+        concurrency: current.concurrency,
+        signal,
+        completedReviews: current.fileReviews,
+        onFileReviewed: (review) => updateCheckpoint({ fileReviews: [...current.fileReviews, review] }),
+        onProgress: (files) => {
+          const finished = files.filter(f => f.state === 'done' || f.state === 'failed').length;
+          const active = files.filter(f => f.state === 'in-progress').length;
+          updateCallback({
+            stage: 'REVIEWING',
+            message: pullRequest
+              ? `Reviewed changes in ${finished} of ${total} files (${active} in progress)...`
+              : `Reviewed ${finished} of ${total} files (${active} in progress)...`,
+            progress: { current: finished, total },
+            files,
+          });
+        },
+      });
+
+      if (fileReviews.every(r => r.status === 'failed')) {
+        throw new Error(`Every file review failed. First error: ${fileReviews[0].error}`);
+      }
+
+      let securityScan: SecurityScanResult | undefined;
+      if (current.securityScan) {
+        const scannedFiles = [...repoData.structuralFiles, ...repoData.codeFiles];
+        updateCallback({ stage: 'SCANNING', message: `Checking ${scannedFiles.length} files for secrets, risky APIs and vulnerable dependencies...`, progress: { current: 0, total: 0 } });
+        securityScan = runSecurityScan(scannedFiles);
+        updateCallback({ stage: 'SCANNING', message: `Triaging ${securityScan.hits.length} security scan hits...`, progress: { current: 0, total: 0 } });
+        securityScan = await triageSecurityHits(securityScan, { signal });
       }
 
-      updateCallback({ stage: 'SYNTHESIZING', message: 'Compiling final report...', progress: { current: 0, total: 0 } });
-      const finalReport = await synthesizeFinalReport(individualReviews.join('\n\n'));
-      setReview(finalReport);
+      const synthesizing: AnalysisStatus = { stage: 'SYNTHESIZING', message: 'Compiling final report...', progress: { current: 0, total: 0 } };
+      updateCallback(synthesizing);
+      const finalReport = await synthesizeFinalReport(fileReviews, getReviewProfile(repoData), pullRequest, securityScan, {
+        signal,
+        onText: preview => updateCallback({ ...synthesizing, preview }),
+      });
+      setReport(finalReport);
+      clearCheckpoint();
+
+      const record: AnalysisRecord = {
+        id: createRecordId(),
+        savedAt: finalReport.generatedAt,
+        githubUrl: current.githubUrl,
+        repoData,
+        architecturalSummary: archSummary,
+        report: finalReport,
+        visualDocs: null,
+        chatHistory: [],
+      };
+      setCurrentRecordId(record.id);
+      saveAnalysis(record)
+        .then(refreshHistory)
+        .catch(err => console.warn('Could not save the analysis to the history:', err));
 
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Analysis Failed: ${errorMessage}`);
+      // Keep whatever was completed so the run can be resumed instead of restarted
+      if (current.repoData) {
+        setSavedCheckpoint(current);
+      } else {
+        clearCheckpoint();
+      }
+      if (!isAbortError(err)) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Analysis Failed: ${errorMessage}`);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsProcessing(false);
+      setIsCancelling(false);
       setAnalysisStatus(null);
     }
-  }, [githubUrl]);
+  }, [githubToken, refreshHistory]);
+
+  const handleRepoAnalysis = useCallback(async () => {
+    const isLocal = inputMode === 'local';
+    if (isLocal ? !localSource : !githubUrl.trim()) {
+      setError(isLocal ? 'Please choose a folder or archive to analyze.' : 'Please enter a GitHub repository or pull request URL.');
+      return;
+    }
+    // Starting over replaces any interrupted run
+    clearCheckpoint();
+    const now = new Date().toISOString();
+    await runAnalysis({
+      githubUrl: isLocal ? '' : githubUrl,
+      ref: isLocal ? '' : gitRef,
+      selection: selectionOverrides,
+      profile: reviewProfileId || undefined,
+      securityScan: runSecurityScanEnabled,
+      concurrency: reviewConcurrency,
+      startedAt: now,
+      updatedAt: now,
+      fileReviews: [],
+    }, isLocal ? localSource! : undefined);
+  }, [inputMode, localSource, githubUrl, gitRef, selectionOverrides, reviewProfileId, runSecurityScanEnabled, reviewConcurrency, runAnalysis]);
+
+  const handleResumeAnalysis = useCallback(async () => {
+    if (!savedCheckpoint) return;
+    // Show the settings of the run being resumed
+    setGithubUrl(savedCheckpoint.githubUrl);
+    setGitRef(savedCheckpoint.ref);
+    setSelectionOverrides(savedCheckpoint.selection);
+    setReviewConcurrency(savedCheckpoint.concurrency);
+    setReviewProfileId(savedCheckpoint.profile ?? '');
+    setRunSecurityScanEnabled(savedCheckpoint.securityScan ?? false);
+    await runAnalysis(savedCheckpoint);
+  }, [savedCheckpoint, runAnalysis]);
+
+  const handleDiscardCheckpoint = () => {
+    clearCheckpoint();
+    setSavedCheckpoint(null);
+  };
+
+  const handleOpenRecord = (record: AnalysisRecord) => {
+    resetState();
+    setReport(record.report);
+    setRepoDataForWiki(record.repoData);
+    setArchitecturalSummaryForWiki(record.architecturalSummary);
+    setVisualDocs(record.visualDocs);
+    setChatHistory(record.chatHistory);
+    setCurrentRecordId(record.id);
+  };
+
+  const handleDeleteRecord = async (record: AnalysisRecord) => {
+    try {
+      await deleteAnalysis(record.id);
+    } catch (err) {
+      console.warn('Could not delete the saved analysis:', err);
+    }
+    // The report stays on screen, but must no longer write to the deleted record
+    if (record.id === currentRecordId) setCurrentRecordId(null);
+    if (comparison && (comparison.older.id === record.id || comparison.newer.id === record.id)) setComparison(null);
+    await refreshHistory();
+  };
+
+  const handleCancelAnalysis = () => {
+    setIsCancelling(true);
+    abortControllerRef.current?.abort();
+  };
 
   const handleFindRecommendations = useCallback(async () => {
     if (!review) return;
@@ -120,7 +449,7 @@ const App: React.FC = () => {
     setDocError(null);
     setVisualDocs(null);
     try {
-        const docs = await generateVisualDocumentation(repoDataForWiki, architecturalSummaryForWiki);
+        const docs = await generateVisualDocumentation(repoDataForWiki, architecturalSummaryForWiki, { validateDiagram: findMermaidError });
         setVisualDocs(docs);
     } catch(err) {
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -130,41 +459,203 @@ const App: React.FC = () => {
     }
   }, [repoDataForWiki, architecturalSummaryForWiki]);
   
+  const loadRepoIndex = useCallback(async (repoData: RepoAnalysisData, signal: AbortSignal): Promise<RepoIndex> => {
+    if (repoIndexRef.current?.repoData === repoData) return repoIndexRef.current.index;
+    setIndexSummary('Indexing the repository...');
+    let index: RepoIndex;
+    try {
+      const { files, skippedFiles } = await loadIndexableFiles(repoData, localSource, { token: githubToken, signal });
+      index = buildRepoIndex(files, skippedFiles);
+      setIndexSummary(`Searching ${index.files.length} files${index.skippedFiles > 0 ? ` (${index.skippedFiles} more were not indexed)` : ''}.`);
+    } catch (err) {
+      if (isAbortError(err)) {
+        setIndexSummary(null);
+        throw err;
+      }
+      // Answering from the analyzed files beats not answering at all
+      index = buildRepoIndex([...repoData.structuralFiles, ...repoData.codeFiles]);
+      const reason = err instanceof Error ? err.message : 'unknown error';
+      setIndexSummary(`Could not index the whole repository (${reason}); searching the ${index.files.length} analyzed files.`);
+    }
+    repoIndexRef.current = { repoData, index };
+    return index;
+  }, [localSource, githubToken]);
+
   const handleChatSubmit = useCallback(async (message: string) => {
     if (!visualDocs || !repoDataForWiki || !architecturalSummaryForWiki) return;
     
     const newUserMessage: ChatMessage = { role: 'user', parts: [{ text: message }] };
     setChatHistory(prev => [...prev, newUserMessage]);
     setIsChatting(true);
+    setStreamingReply('');
+    setStreamingToolCalls([]);
+    const controller = new AbortController();
+    chatAbortControllerRef.current = controller;
+    let partial = '';
+    let partialToolCalls: ChatToolCall[] = [];
 
     try {
-      const response = await startOrContinueChat(
-        [...chatHistory, newUserMessage],
-        repoDataForWiki,
-        architecturalSummaryForWiki,
-        visualDocs
-      );
-      const modelMessage: ChatMessage = { role: 'model', parts: [{ text: response }] };
+      if (chatSessionRef.current?.docs !== visualDocs) {
+        const index = await loadRepoIndex(repoDataForWiki, controller.signal);
+        const tools = createRepoTools(createSnapshotReader(repoDataForWiki, localSource, index.files, githubToken), index);
+        chatSessionRef.current = {
+          docs: visualDocs,
+          session: createChatSession(index, architecturalSummaryForWiki, visualDocs, chatHistory, tools),
+          tools,
+        };
+      }
+      const response = await chatSessionRef.current.session.send(message, {
+        signal: controller.signal,
+        onText: text => {
+          partial = text;
+          setStreamingReply(text);
+        },
+        onToolCalls: calls => {
+          partialToolCalls = calls;
+          setStreamingToolCalls(calls);
+        },
+      });
+      const modelMessage: ChatMessage = { role: 'model', parts: [{ text: response.text }], toolCalls: response.toolCalls };
       setChatHistory(prev => [...prev, modelMessage]);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      const errorResponse: ChatMessage = { role: 'model', parts: [{ text: `Sorry, an error occurred: ${errorMessage}`}]};
-      setChatHistory(prev => [...prev, errorResponse]);
+      // A stopped answer keeps what arrived, so the conversation still alternates between user and model
+      const text = isAbortError(err)
+        ? `${partial}${partial ? '\n\n' : ''}_Stopped._`
+        : `Sorry, an error occurred: ${err instanceof Error ? err.message : 'An unknown error occurred.'}`;
+      const modelMessage: ChatMessage = { role: 'model', parts: [{ text }], toolCalls: partialToolCalls };
+      setChatHistory(prev => [...prev, modelMessage]);
     } finally {
+      if (chatAbortControllerRef.current === controller) chatAbortControllerRef.current = null;
+      setStreamingReply('');
+      setStreamingToolCalls([]);
       setIsChatting(false);
     }
-  }, [visualDocs, repoDataForWiki, architecturalSummaryForWiki, chatHistory]);
+  }, [visualDocs, repoDataForWiki, architecturalSummaryForWiki, chatHistory, loadRepoIndex, localSource, githubToken]);
+
+  // A hand-fixed diagram replaces the generated one; the repair note no longer applies to it
+  const handleDiagramChange = useCallback((key: DiagramKey, code: string) => {
+    setVisualDocs(prev => prev && { ...prev, [key]: code, diagramRepairs: { ...prev.diagramRepairs, [key]: undefined } });
+  }, []);
 
+  const handleStopChat = useCallback(() => chatAbortControllerRef.current?.abort(), []);
+
+  // Analyzed files first; files only the DeepWiki index or its tools loaded can still be shown once they exist
+  const handleOpenSource = useCallback((location: SourceLocation) => {
+    if (!repoDataForWiki) return;
+    const file = [...repoDataForWiki.structuralFiles, ...repoDataForWiki.codeFiles].find(f => f.path === location.path)
+      ?? (repoIndexRef.current?.repoData === repoDataForWiki ? repoIndexRef.current.index.files.find(f => f.path === location.path) : undefined);
+    const tools = chatSessionRef.current?.docs === visualDocs ? chatSessionRef.current?.tools : undefined;
+    setSourceView({ location, content: file?.content ?? tools?.readFiles.get(location.path) ?? null });
+  }, [repoDataForWiki, visualDocs]);
+
+  const handleCloseSource = useCallback(() => setSourceView(null), []);
+
+  const analysisSettings = (
+    <>
+      <ReviewProfileSelect
+        profiles={listReviewProfiles(repoConfig)}
+        profileId={reviewProfileId}
+        setProfileId={setReviewProfileId}
+        repoDefaultId={repoConfig?.defaultProfile}
+        disabled={isProcessing}
+      />
+      <label className="mt-2 flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={runSecurityScanEnabled}
+          onChange={(e) => setRunSecurityScanEnabled(e.target.checked)}
+          disabled={isProcessing}
+        />
+        Security scan: check for hard-coded secrets, risky APIs and known vulnerable dependencies
+      </label>
+      <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={bypassCache}
+            onChange={(e) => setBypassCache(e.target.checked)}
+            disabled={isProcessing}
+          />
+          Bypass cache: fetch every file and repeat every model request
+        </label>
+        <button
+          type="button"
+          onClick={handleClearCache}
+          disabled={isProcessing}
+          className="text-xs text-brand-secondary hover:underline disabled:opacity-50"
+        >
+          Clear cache
+        </button>
+        {cacheMessage && <span className="text-xs text-gray-500 dark:text-gray-400">{cacheMessage}</span>}
+      </div>
+      <SelectionSettings
+        overrides={selectionOverrides}
+        setOverrides={setSelectionOverrides}
+        repoTree={repoTree}
+        repoConfigPath={repoConfig?.path ?? null}
+        isLoadingTree={isLoadingTree}
+        onBrowseFiles={handleBrowseFiles}
+        concurrency={reviewConcurrency}
+        setConcurrency={setReviewConcurrency}
+        disabled={isProcessing}
+      />
+      <ModelSettings settings={llmSettings} setSettings={setLlmSettings} disabled={isProcessing} />
+    </>
+  );
 
   return (
     <div className="min-h-screen flex flex-col font-sans bg-base-200 dark:bg-dark-base-100 text-base-content dark:text-dark-content">
       <Header />
       <main className="flex-grow container mx-auto p-4 md:p-6 flex flex-col gap-6">
-        <GitHubInput
-          url={githubUrl}
-          setUrl={setGithubUrl}
-          onAnalyze={handleRepoAnalysis}
-          isAnalyzing={isProcessing}
+        <div className="flex gap-2" role="tablist">
+          {([['github', 'GitHub'], ['local', 'Local folder or archive']] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              role="tab"
+              aria-selected={inputMode === mode}
+              onClick={() => handleInputModeChange(mode)}
+              disabled={isProcessing}
+              className={`px-4 py-1.5 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 ${inputMode === mode ? 'bg-brand-secondary text-white' : 'bg-base-100 dark:bg-dark-base-200 hover:bg-brand-light dark:hover:bg-dark-base-300'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {inputMode === 'github' ? (
+          <GitHubInput
+            url={githubUrl}
+            setUrl={handleUrlChange}
+            token={githubToken}
+            setToken={setGithubToken}
+            gitRef={gitRef}
+            setGitRef={setGitRef}
+            refs={availableRefs}
+            isLoadingRefs={isLoadingRefs}
+            onLoadRefs={handleLoadRefs}
+            onAnalyze={handleRepoAnalysis}
+            isAnalyzing={isProcessing}
+          >
+            {analysisSettings}
+          </GitHubInput>
+        ) : (
+          <CodeInput
+            source={localSource}
+            setSource={handleLocalSourceChange}
+            onAnalyze={handleRepoAnalysis}
+            isAnalyzing={isProcessing}
+          >
+            {analysisSettings}
+          </CodeInput>
+        )}
+
+        <HistoryPanel
+          records={historyRecords}
+          currentRecordId={currentRecordId}
+          onOpen={handleOpenRecord}
+          onDelete={handleDeleteRecord}
+          onCompare={(older, newer) => setComparison({ older, newer })}
+          disabled={isProcessing}
         />
 
         <div className="bg-base-100 dark:bg-dark-base-200 rounded-lg shadow-lg overflow-hidden flex flex-col flex-grow" style={{minHeight: '60vh'}}>
@@ -172,11 +663,93 @@ const App: React.FC = () => {
             <h2 className="text-xl font-bold text-base-content dark:text-dark-content">Analysis Report</h2>
           </div>
           <div className="p-6 flex-grow overflow-y-auto">
-            {isProcessing && analysisStatus && <AnalysisProgress status={analysisStatus} />}
+            {!isProcessing && savedCheckpoint && (
+              <ResumeBanner
+                checkpoint={savedCheckpoint}
+                onResume={handleResumeAnalysis}
+                onDiscard={handleDiscardCheckpoint}
+                disabled={isProcessing}
+              />
+            )}
+            {isProcessing && analysisStatus && (
+              <AnalysisProgress status={analysisStatus} onCancel={handleCancelAnalysis} isCancelling={isCancelling} />
+            )}
             {error && <ErrorMessage message={error} />}
-            {!isProcessing && !error && review && (
+            {!isProcessing && comparison && (
+              <ReportComparison older={comparison.older} newer={comparison.newer} onClose={() => setComparison(null)} />
+            )}
+            {!isProcessing && !error && !comparison && report && (
               <>
-                <ReviewOutput review={review} />
+                {repoDataForWiki && (
+                  <>
+                    <ReportHeader
+                      source={repoDataForWiki.source}
+                      generatedAt={report.generatedAt}
+                      pullRequest={repoDataForWiki.pullRequest}
+                      profileName={report.profile?.name}
+                    />
+                    <ExportMenu data={{ report, repoData: repoDataForWiki, visualDocs, recommendations }} />
+                  </>
+                )}
+                {report.fileReviews.some(r => r.status === 'failed') && (
+                  <div className="mb-6 bg-yellow-100 dark:bg-yellow-900/30 border-l-4 border-yellow-500 text-yellow-800 dark:text-yellow-200 p-4 rounded-md" role="status">
+                    <p className="font-bold">Some files could not be reviewed and are not covered by this report:</p>
+                    <ul className="mt-1 text-sm">
+                      {report.fileReviews.filter(r => r.status === 'failed').map(r => (
+                        <li key={r.path}><span className="font-mono">{r.path}</span>: {r.error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <ReviewOutput review={report.summary} />
+
+                {repoDataForWiki?.pullRequest && (
+                  <div className="mt-8">
+                    <PullRequestReview
+                      pullRequest={repoDataForWiki.pullRequest}
+                      fileReviews={report.fileReviews}
+                      onOpenSource={handleOpenSource}
+                    />
+                  </div>
+                )}
+
+                <div className="mt-8">
+                  <FindingsTable findings={report.findings} onOpenSource={handleOpenSource} />
+                </div>
+
+                {report.securityScan && (
+                  <div className="mt-4">
+                    <SecurityScanPanel scan={report.securityScan} />
+                  </div>
+                )}
+
+                {report.fileReviews.some(r => r.metrics) && (
+                  <div className="mt-4">
+                    <CodeMetricsPanel metrics={report.fileReviews.flatMap(r => r.metrics ? [r.metrics] : [])} />
+                  </div>
+                )}
+
+                {repoDataForWiki?.fileScores && (
+                  <div className="mt-8">
+                    <FileRanking scores={repoDataForWiki.fileScores} />
+                  </div>
+                )}
+
+                <div className="mt-4">
+                  <PromptBudget
+                    decisions={report.fileReviews.map(r => r.budget)}
+                    cachedPaths={report.fileReviews.filter(r => r.fromCache).map(r => r.path)}
+                  />
+                </div>
+
+                {repoDataForWiki && isGitHubSource(repoDataForWiki.source) && (
+                  <div className="mt-4">
+                    <PublishToGitHub
+                      data={{ report, repoData: repoDataForWiki, visualDocs, recommendations }}
+                      token={githubToken}
+                    />
+                  </div>
+                )}
                 
                 {/* Post-analysis actions */}
                 <div className="mt-8 pt-6 border-t border-base-300 dark:border-dark-base-300 space-y-8">
@@ -220,7 +793,13 @@ const App: React.FC = () => {
                             docs={visualDocs}
                             messages={chatHistory}
                             isChatting={isChatting}
+                            streamingReply={streamingReply}
+                            streamingToolCalls={streamingToolCalls}
+                            indexSummary={indexSummary}
+                            onOpenSource={handleOpenSource}
                             onChatSubmit={handleChatSubmit}
+                            onStopChat={handleStopChat}
+                            onDiagramChange={handleDiagramChange}
                         />
                     )}
                    </div>
@@ -264,16 +843,24 @@ const App: React.FC = () => {
                 </div>
               </>
             )}
-            {!isProcessing && !error && !review && (
+            {!isProcessing && !error && !comparison && !report && (
               <div className="flex flex-col items-center justify-center h-full text-center text-gray-500 dark:text-gray-400">
                 <SparklesIcon className="w-16 h-16 mb-4 text-gray-400 dark:text-gray-500" />
                 <p className="text-lg font-semibold">Your full repository analysis will appear here.</p>
-                <p className="mt-1 text-sm">Enter a public GitHub repository URL to get started.</p>
+                <p className="mt-1 text-sm">Enter a GitHub repository or pull request URL to get started.</p>
               </div>
             )}
           </div>
         </div>
       </main>
+      {sourceView && repoDataForWiki && (
+        <SourceViewer
+          location={sourceView.location}
+          content={sourceView.content}
+          source={repoDataForWiki.source}
+          onClose={handleCloseSource}
+        />
+      )}
       <footer className="text-center p-4 text-sm text-gray-500 dark:text-gray-400">
         Powered by Google Gemini
       </footer>
@@ -0,0 +1,31 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { CacheEntry, CacheStore } from '../services/responseCache';
+
+export const defaultCacheDir = (): string =>
+  join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'gemini-review');
+
+/** Keeps each cache entry in its own JSON file, named by the hash of its key. */
+export const createDiskCacheStore = (dir: string): CacheStore => {
+  const pathFor = (key: string) => join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  return {
+    get: async (key) => {
+      const text = await readFile(pathFor(key), 'utf8').catch(() => null);
+      if (text === null) return undefined;
+      try {
+        return JSON.parse(text) as CacheEntry;
+      } catch {
+        // A write interrupted by Ctrl+C leaves a truncated file; treat it as a miss
+        return undefined;
+      }
+    },
+    set: async (key, entry) => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(pathFor(key), JSON.stringify(entry), 'utf8');
+    },
+    delete: (key) => rm(pathFor(key), { force: true }),
+    clear: () => rm(dir, { recursive: true, force: true }),
+  };
+};
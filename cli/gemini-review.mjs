@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx so it can import the app's service modules as they are.
+import { register } from 'tsx/esm/api';
+
+register();
+await import('./gemini-review.ts');
@@ -0,0 +1,288 @@
+
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import type { AnalysisStatus } from '../components/AnalysisProgress';
+import type { FindingSeverity, FinalReport } from '../services/geminiService';
+import type { RepoAnalysisData } from '../services/githubService';
+import type { FileSelectionConfig } from '../services/fileSelection';
+import type { ProviderId } from '../services/llmProvider';
+
+type OutputFormat = 'json' | 'md' | 'sarif';
+
+const SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+const FORMATS: OutputFormat[] = ['json', 'md', 'sarif'];
+const PROVIDERS: ProviderId[] = ['gemini', 'openai', 'mock'];
+
+// Exit codes: findings at or above the threshold, and usage or runtime errors
+const EXIT_FINDINGS = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: gemini-review analyze <github-url|path> [options]
+
+Reviews a GitHub repository, branch, tag, commit or pull request, or a local
+directory or .zip/.tar.gz/.tar archive, and writes the report.
+
+Options:
+  --format <json|md|sarif>   Output format (default: json)
+  --out <file>               Write the report to a file instead of stdout
+  --fail-on <severity|none>  Exit with code 1 if a finding is at least this severe
+                             (critical, high, medium, low, info; default: high)
+  --ref <ref>                Branch, tag or commit to analyze instead of the URL's ref (GitHub only)
+  --token <token>            GitHub access token (default: $GITHUB_TOKEN)
+  --include <globs>          Comma-separated globs of files to consider
+  --exclude <globs>          Comma-separated globs of files to skip
+  --max-files <n>            Maximum number of files to review
+  --concurrency <n>          Number of files reviewed in parallel
+  --profile <id>             Review profile: general, security, performance, accessibility
+                             or one defined in the repository's .codereview.json
+  --security                 Also scan for secrets, risky APIs and known vulnerable
+                             dependencies, triaged by the model
+  --provider <name>          Model provider: gemini, openai (any OpenAI-compatible
+                             server) or mock (offline fixtures; default: gemini)
+  --model <name>             Model to use for every step instead of the provider default
+  --no-cache                 Ignore cached GitHub files and model responses (fresh
+                             results are still cached for the next run)
+  --cache-dir <dir>          Cache directory (default: $XDG_CACHE_HOME/gemini-review
+                             or ~/.cache/gemini-review)
+  --cache-ttl <days>         How long model responses stay cached (default: 7)
+  -h, --help                 Show this help
+
+Environment:
+  GEMINI_API_KEY (or API_KEY)  Gemini API key, required for the gemini provider
+  OPENAI_BASE_URL              Server URL for the openai provider (default: Ollama's)
+  OPENAI_API_KEY               API key for the openai provider, optional
+  GITHUB_TOKEN                 GitHub access token, optional`;
+
+class UsageError extends Error {}
+
+const parseList = (value: string | undefined): string[] | undefined =>
+  value === undefined ? undefined : value.split(',').map(v => v.trim()).filter(Boolean);
+
+const parsePositiveInt = (name: string, value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) throw new UsageError(`--${name} must be a positive integer.`);
+  return parsed;
+};
+
+const parseCommandLine = (argv: string[]) => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', default: 'json' },
+        out: { type: 'string' },
+        'fail-on': { type: 'string', default: 'high' },
+        ref: { type: 'string' },
+        token: { type: 'string' },
+        include: { type: 'string' },
+        exclude: { type: 'string' },
+        'max-files': { type: 'string' },
+        concurrency: { type: 'string' },
+        profile: { type: 'string' },
+        security: { type: 'boolean', default: false },
+        provider: { type: 'string', default: 'gemini' },
+        model: { type: 'string' },
+        'no-cache': { type: 'boolean', default: false },
+        'cache-dir': { type: 'string' },
+        'cache-ttl': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    // Unknown or malformed options
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) return null;
+
+  const [command, target, ...rest] = positionals;
+  if (command !== 'analyze') throw new UsageError(command ? `Unknown command "${command}".` : 'Missing command.');
+  if (!target) throw new UsageError('Missing the repository URL or local path to analyze.');
+  if (rest.length > 0) throw new UsageError(`Unexpected arguments: ${rest.join(' ')}`);
+
+  const format = values.format as OutputFormat;
+  if (!FORMATS.includes(format)) throw new UsageError(`--format must be one of ${FORMATS.join(', ')}.`);
+
+  const failOn = values['fail-on'] as FindingSeverity | 'none';
+  if (failOn !== 'none' && !SEVERITIES.includes(failOn)) {
+    throw new UsageError(`--fail-on must be one of ${SEVERITIES.join(', ')} or none.`);
+  }
+
+  const provider = values.provider as ProviderId;
+  if (!PROVIDERS.includes(provider)) throw new UsageError(`--provider must be one of ${PROVIDERS.join(', ')}.`);
+
+  const selection: Partial<FileSelectionConfig> = {};
+  const include = parseList(values.include);
+  const exclude = parseList(values.exclude);
+  const maxFiles = parsePositiveInt('max-files', values['max-files']);
+  if (include) selection.include = include;
+  if (exclude) selection.exclude = exclude;
+  if (maxFiles) selection.maxFiles = maxFiles;
+
+  return {
+    target,
+    format,
+    out: values.out,
+    failOn,
+    ref: values.ref,
+    token: values.token ?? process.env.GITHUB_TOKEN,
+    selection,
+    concurrency: parsePositiveInt('concurrency', values.concurrency),
+    profile: values.profile,
+    security: values.security ?? false,
+    provider,
+    model: values.model,
+    noCache: values['no-cache'] ?? false,
+    cacheDir: values['cache-dir'],
+    cacheTtlDays: parsePositiveInt('cache-ttl', values['cache-ttl']),
+  };
+};
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+/** Prints progress to stderr, skipping updates that repeat the previous line. */
+const createProgressPrinter = () => {
+  let lastLine = '';
+  return (status: AnalysisStatus) => {
+    let line = `[${status.stage.toLowerCase()}] ${status.message}`;
+    if (status.rateLimit?.waitingUntil) {
+      line += ` (GitHub rate limit reached, waiting until ${new Date(status.rateLimit.waitingUntil).toLocaleTimeString()})`;
+    }
+    if (line !== lastLine) log(line);
+    lastLine = line;
+  };
+};
+
+const formatReport = async (format: OutputFormat, report: FinalReport, repoData: RepoAnalysisData): Promise<string> => {
+  const { exportMarkdown, exportSarif } = await import('../services/reportExport');
+  const data = { report, repoData, visualDocs: null, recommendations: null };
+  switch (format) {
+    case 'md':
+      return exportMarkdown(data);
+    case 'sarif':
+      return JSON.stringify(exportSarif(data), null, 2);
+    case 'json':
+      return JSON.stringify({ source: repoData.source, pullRequest: repoData.pullRequest, report }, null, 2);
+  }
+};
+
+const main = async (): Promise<number> => {
+  const args = parseCommandLine(process.argv.slice(2));
+  if (!args) {
+    log(USAGE);
+    return 0;
+  }
+
+  // The Gemini provider reads the key when it creates its client
+  process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+  if (args.provider === 'gemini' && !process.env.API_KEY) {
+    throw new UsageError('Set GEMINI_API_KEY (or API_KEY) to your Gemini API key, or choose another --provider.');
+  }
+
+  const { DEFAULT_LLM_SETTINGS, LLM_TASKS, configureLlm } = await import('../services/llmProvider');
+  configureLlm({
+    provider: args.provider,
+    models: args.model ? Object.fromEntries(LLM_TASKS.map(task => [task.key, args.model])) : {},
+    baseUrl: process.env.OPENAI_BASE_URL || DEFAULT_LLM_SETTINGS.baseUrl,
+    apiKey: process.env.OPENAI_API_KEY ?? '',
+  });
+
+  const { configureCache } = await import('../services/responseCache');
+  const { createDiskCacheStore, defaultCacheDir } = await import('./diskCache');
+  configureCache({
+    bypass: args.noCache,
+    ...(args.cacheTtlDays ? { ttl: { llm: args.cacheTtlDays * 24 * 60 * 60 * 1000 } } : {}),
+  }, createDiskCacheStore(args.cacheDir ?? defaultCacheDir()));
+
+  const { resolveTarget } = await import('./localTarget');
+  const { startAnalysis } = await import('../services/sources');
+  const { generateArchitecturalSummary, synthesizeFinalReport, triageSecurityHits } = await import('../services/geminiService');
+  const { runSecurityScan } = await import('../services/securityScan');
+  const { getReviewProfile } = await import('../services/reviewProfiles');
+  const { runReviewPipeline, DEFAULT_REVIEW_CONCURRENCY } = await import('../services/reviewPipeline');
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    log('Cancelling...');
+    controller.abort();
+  });
+  const { signal } = controller;
+  const printStatus = createProgressPrinter();
+
+  const target = await resolveTarget(args.target);
+  const repoData = await startAnalysis(target, printStatus, {
+    token: args.token,
+    ref: args.ref,
+    selection: args.selection,
+    profile: args.profile,
+    signal,
+  });
+  if (repoData.codeFiles.length === 0) {
+    throw new Error('Could not find any reviewable source code files in this repository.');
+  }
+
+  printStatus({ stage: 'SUMMARIZING', message: 'Generating architectural summary...', progress: { current: 0, total: 0 } });
+  const archSummary = await generateArchitecturalSummary(repoData.structuralFiles, getReviewProfile(repoData), { signal });
+
+  const total = repoData.codeFiles.length;
+  const fileReviews = await runReviewPipeline(repoData, archSummary, {
+    concurrency: args.concurrency ?? DEFAULT_REVIEW_CONCURRENCY,
+    signal,
+    onProgress: (files) => {
+      const finished = files.filter(f => f.state === 'done' || f.state === 'failed').length;
+      printStatus({ stage: 'REVIEWING', message: `Reviewed ${finished} of ${total} files...`, progress: { current: finished, total } });
+    },
+  });
+  const cached = fileReviews.filter(r => r.fromCache).length;
+  if (cached > 0) log(`${cached} of ${total} file reviews were reused from the cache.`);
+  fileReviews.filter(r => r.status === 'failed').forEach(r => log(`warning: ${r.path} was not reviewed: ${r.error}`));
+  if (fileReviews.every(r => r.status === 'failed')) {
+    throw new Error(`Every file review failed. First error: ${fileReviews[0].error}`);
+  }
+
+  let securityScan;
+  if (args.security) {
+    const scannedFiles = [...repoData.structuralFiles, ...repoData.codeFiles];
+    printStatus({ stage: 'SCANNING', message: `Checking ${scannedFiles.length} files for secrets, risky APIs and vulnerable dependencies...`, progress: { current: 0, total: 0 } });
+    securityScan = runSecurityScan(scannedFiles);
+    printStatus({ stage: 'SCANNING', message: `Triaging ${securityScan.hits.length} security scan hits...`, progress: { current: 0, total: 0 } });
+    securityScan = await triageSecurityHits(securityScan, { signal });
+    if (securityScan.triageError) log(`warning: security scan hits were not triaged: ${securityScan.triageError}`);
+  }
+
+  printStatus({ stage: 'SYNTHESIZING', message: 'Compiling final report...', progress: { current: 0, total: 0 } });
+  const report = await synthesizeFinalReport(fileReviews, getReviewProfile(repoData), repoData.pullRequest, securityScan, { signal });
+
+  const output = await formatReport(args.format, report, repoData);
+  if (args.out) {
+    await writeFile(args.out, output, 'utf8');
+    log(`Report written to ${args.out}`);
+  } else {
+    process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+  }
+
+  if (args.failOn === 'none') return 0;
+  const threshold = SEVERITIES.indexOf(args.failOn);
+  const blocking = report.findings.filter(f => SEVERITIES.indexOf(f.severity) <= threshold);
+  if (blocking.length > 0) {
+    log(`${blocking.length} finding(s) at or above "${args.failOn}" severity.`);
+    return EXIT_FINDINGS;
+  }
+  return 0;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    if (error instanceof UsageError) {
+      log(`error: ${error.message}\n\n${USAGE}`);
+    } else {
+      log(`error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    process.exitCode = EXIT_ERROR;
+  }
+);
@@ -0,0 +1,54 @@
+
+import { readFile, readdir, stat } from 'node:fs/promises';
+import { basename, join, relative, resolve, sep } from 'node:path';
+import type { AnalysisTarget } from '../services/sources';
+import type { SourceFile } from '../services/localSource';
+
+// Never worth walking: VCS metadata and installed dependencies
+const SKIPPED_DIRECTORIES = new Set(['.git', '.hg', '.svn', 'node_modules']);
+
+const isUrl = (target: string): boolean => /^(https?:\/\/|github\.com\/)/i.test(target);
+
+// "github.com/owner/repo" is accepted without a scheme, but `parseRepoUrl` needs one
+const withScheme = (url: string): string => /^https?:\/\//i.test(url) ? url : `https://${url}`;
+
+const walkDirectory = async (root: string, dir: string, files: SourceFile[]): Promise<void> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) await walkDirectory(root, fullPath, files);
+    } else if (entry.isFile()) {
+      const { size } = await stat(fullPath);
+      files.push({
+        path: relative(root, fullPath).split(sep).join('/'),
+        size,
+        read: () => readFile(fullPath, 'utf8'),
+      });
+    }
+  }
+};
+
+/**
+ * Resolves a command line target: GitHub URLs are analyzed remotely, anything else
+ * is read as a local directory or archive.
+ */
+export const resolveTarget = async (target: string): Promise<AnalysisTarget> => {
+  if (isUrl(target)) return { kind: 'github', url: withScheme(target) };
+
+  const path = resolve(target);
+  const info = await stat(path).catch(() => null);
+  if (!info) throw new Error(`"${target}" is neither a GitHub URL nor an existing file or directory.`);
+
+  if (info.isDirectory()) {
+    const files: SourceFile[] = [];
+    await walkDirectory(path, path, files);
+    return { kind: 'directory', name: basename(path), files };
+  }
+
+  const { isArchiveName } = await import('../services/archive');
+  if (!isArchiveName(path)) throw new Error(`"${target}" is not a directory or a .zip, .tar.gz, .tgz or .tar archive.`);
+  const { fromArchive } = await import('../services/localSource');
+  const buffer = await readFile(path);
+  return fromArchive(basename(path), buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+};
@@ -1,18 +1,37 @@
 
 import React from 'react';
 import SparklesIcon from './icons/SparklesIcon';
+import ReviewOutput from './ReviewOutput';
+import { RateLimitInfo } from '../services/githubService';
+
+export type FileReviewState = 'queued' | 'in-progress' | 'done' | 'failed';
+
+export interface FileProgress {
+  path: string;
+  state: FileReviewState;
+  error?: string;
+  // The review so far, while it streams in
+  preview?: string;
+}
 
 export interface AnalysisStatus {
-  stage: 'INITIALIZING' | 'FETCHING' | 'SUMMARIZING' | 'REVIEWING' | 'SYNTHESIZING';
+  stage: 'INITIALIZING' | 'FETCHING' | 'SUMMARIZING' | 'REVIEWING' | 'SCANNING' | 'SYNTHESIZING';
   message: string;
   progress: {
     current: number;
     total: number;
   };
+  rateLimit?: RateLimitInfo;
+  // Per-file status while reviewing
+  files?: FileProgress[];
+  // The summary or report so far, while it streams in
+  preview?: string;
 }
 
 interface AnalysisProgressProps {
   status: AnalysisStatus;
+  onCancel: () => void;
+  isCancelling: boolean;
 }
 
 const STAGE_CONFIG = {
@@ -20,10 +39,59 @@ const STAGE_CONFIG = {
     FETCHING: { title: "Fetching Repository...", totalSteps: 4, currentStep: 1 },
     SUMMARIZING: { title: "Creating Architectural Summary...", totalSteps: 4, currentStep: 2 },
     REVIEWING: { title: "Reviewing Code Files...", totalSteps: 4, currentStep: 3 },
+    SCANNING: { title: "Running Security Scan...", totalSteps: 4, currentStep: 3 },
     SYNTHESIZING: { title: "Compiling Final Report...", totalSteps: 4, currentStep: 4 },
 }
 
-const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ status }) => {
+const FILE_STATE_STYLES: Record<FileReviewState, { icon: string; className: string; label: string }> = {
+  queued: { icon: '○', className: 'text-gray-400 dark:text-gray-500', label: 'Queued' },
+  'in-progress': { icon: '◐', className: 'text-brand-secondary animate-pulse', label: 'Reviewing' },
+  done: { icon: '●', className: 'text-green-600 dark:text-green-400', label: 'Done' },
+  failed: { icon: '✕', className: 'text-red-600 dark:text-red-400', label: 'Failed' },
+};
+
+const StreamingPreview: React.FC<{ text: string; className?: string }> = ({ text, className = '' }) => (
+  <div className={`overflow-y-auto text-left text-sm bg-base-200 dark:bg-dark-base-300 rounded-md p-3 flex flex-col-reverse ${className}`}>
+    <div><ReviewOutput review={text} streaming /></div>
+  </div>
+);
+
+const FileProgressList: React.FC<{ files: FileProgress[] }> = ({ files }) => (
+  <ul className="mt-4 max-h-96 overflow-y-auto text-left text-sm border border-base-300 dark:border-dark-base-300 rounded-md divide-y divide-base-300 dark:divide-dark-base-300">
+    {files.map(file => {
+      const style = FILE_STATE_STYLES[file.state];
+      return (
+        <li key={file.path} className="px-3 py-1.5" title={file.error}>
+          <div className="flex items-center gap-2">
+            <span className={style.className} aria-hidden="true">{style.icon}</span>
+            <span className="font-mono text-xs flex-grow break-all">{file.path}</span>
+            <span className={`text-xs ${style.className}`}>{style.label}</span>
+          </div>
+          {file.state === 'in-progress' && file.preview && <StreamingPreview text={file.preview} className="mt-1.5 max-h-32" />}
+        </li>
+      );
+    })}
+  </ul>
+);
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const RateLimitStatus: React.FC<{ rateLimit: RateLimitInfo }> = ({ rateLimit }) => {
+  if (rateLimit.waitingUntil) {
+    return (
+      <div className="mt-4 p-3 rounded-md bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 text-sm" role="status">
+        GitHub API rate limit reached. Analysis will resume automatically at {formatTime(rateLimit.waitingUntil)}.
+      </div>
+    );
+  }
+  return (
+    <p className="mt-4 text-xs text-gray-400 dark:text-gray-500">
+      GitHub API: {rateLimit.remaining} of {rateLimit.limit} requests remaining (resets at {formatTime(rateLimit.resetAt)})
+    </p>
+  );
+};
+
+const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ status, onCancel, isCancelling }) => {
   const config = STAGE_CONFIG[status.stage];
   const isReviewing = status.stage === 'REVIEWING' && status.progress.total > 0;
   const reviewProgress = isReviewing ? (status.progress.current / status.progress.total) * 100 : 0;
@@ -46,10 +114,24 @@ const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ status }) => {
                     ></div>
                 </div>
             )}
+
+            {status.files && status.files.length > 0 && <FileProgressList files={status.files} />}
+
+            {status.preview && <StreamingPreview text={status.preview} className="mt-4 max-h-72" />}
+
+            {status.rateLimit && <RateLimitStatus rateLimit={status.rateLimit} />}
         </div>
 
-        <p className="mt-6 text-xs text-gray-400 dark:text-gray-500">
-            This may take a few moments. Please don't close the tab.
+        <button
+            onClick={onCancel}
+            disabled={isCancelling}
+            className="mt-6 px-4 py-1.5 border border-red-500 text-red-600 dark:text-red-400 font-semibold rounded-lg text-sm hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+            {isCancelling ? 'Cancelling...' : 'Cancel analysis'}
+        </button>
+
+        <p className="mt-4 text-xs text-gray-400 dark:text-gray-500">
+            This may take a few moments. Progress is saved as each step completes, so an interrupted analysis can be resumed.
         </p>
     </div>
   );
@@ -0,0 +1,113 @@
+
+import React, { useState } from 'react';
+import { ARCHIVE_EXTENSIONS } from '../services/archive';
+import { LocalSource, fromArchive, fromBrowserDirectory } from '../services/localSource';
+import { RepoIcon } from './icons/RepoIcon';
+
+interface CodeInputProps {
+  source: LocalSource | null;
+  setSource: (source: LocalSource | null) => void;
+  onAnalyze: () => void;
+  isAnalyzing: boolean;
+  children?: React.ReactNode;
+}
+
+const pickerClassName = "flex-1 flex flex-col items-center justify-center gap-1 p-4 border-2 border-dashed border-base-300 dark:border-dark-base-300 rounded-lg cursor-pointer hover:border-brand-secondary hover:bg-brand-light dark:hover:bg-dark-base-300 transition-colors text-sm";
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const CodeInput: React.FC<CodeInputProps> = ({ source, setSource, onAnalyze, isAnalyzing, children }) => {
+  const [isReadingArchive, setIsReadingArchive] = useState(false);
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const handleDirectory = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setInputError(null);
+    if (e.target.files && e.target.files.length > 0) {
+      setSource(fromBrowserDirectory(e.target.files));
+    }
+  };
+
+  const handleArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setInputError(null);
+    setIsReadingArchive(true);
+    try {
+      setSource(await fromArchive(file.name, await file.arrayBuffer()));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setInputError(`Could not read ${file.name}: ${errorMessage}`);
+      setSource(null);
+    } finally {
+      setIsReadingArchive(false);
+      // Allow picking the same file again after fixing it
+      e.target.value = '';
+    }
+  };
+
+  const totalSize = source?.files.reduce((sum, file) => sum + file.size, 0) ?? 0;
+
+  return (
+    <div className="bg-base-100 dark:bg-dark-base-200 rounded-lg shadow-lg p-4">
+      <h2 className="text-xl font-bold text-base-content dark:text-dark-content mb-3">
+        Analyze a Local Folder or Archive
+      </h2>
+      <p className="mb-3 text-sm text-gray-500 dark:text-gray-400">
+        For code that is not on GitHub. Files are read in this browser; only the selected files are sent to the model for review.
+      </p>
+      <fieldset disabled={isAnalyzing || isReadingArchive} className="flex flex-col sm:flex-row gap-3">
+        <label className={pickerClassName}>
+          <span className="font-semibold text-brand-secondary">Choose a folder</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">e.g. a local checkout</span>
+          <input
+            type="file"
+            ref={el => el?.setAttribute('webkitdirectory', '')}
+            onChange={handleDirectory}
+            className="sr-only"
+          />
+        </label>
+        <label className={pickerClassName}>
+          <span className="font-semibold text-brand-secondary">{isReadingArchive ? 'Reading archive...' : 'Upload an archive'}</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">{ARCHIVE_EXTENSIONS.join(', ')}</span>
+          <input
+            type="file"
+            accept={ARCHIVE_EXTENSIONS.join(',')}
+            onChange={handleArchive}
+            className="sr-only"
+          />
+        </label>
+      </fieldset>
+
+      {inputError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{inputError}</p>}
+
+      <div className="mt-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm">
+          {source
+            ? <><span className="font-mono font-semibold">{source.name}</span> · {source.files.length} files · {formatSize(totalSize)}</>
+            : <span className="text-gray-500 dark:text-gray-400">No folder or archive selected.</span>}
+        </p>
+        <button
+          onClick={onAnalyze}
+          disabled={isAnalyzing || !source}
+          className="flex items-center justify-center gap-2 px-6 py-2 bg-brand-secondary hover:bg-blue-600 text-white font-bold rounded-lg shadow-md transition-all duration-300 ease-in-out disabled:bg-gray-400 disabled:cursor-not-allowed disabled:shadow-none"
+        >
+          {isAnalyzing ? (
+            <>
+              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              <span>Analyzing...</span>
+            </>
+          ) : (
+            <>
+              <RepoIcon className="w-5 h-5" />
+              <span>Analyze Code</span>
+            </>
+          )}
+        </button>
+      </div>
+      {children}
+    </div>
+  );
+};
+
+export default CodeInput;
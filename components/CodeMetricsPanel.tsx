@@ -0,0 +1,133 @@
+
+import React, { useState } from 'react';
+import {
+  FileMetrics, FunctionMetrics, METRIC_THRESHOLDS, duplicatedLineCount, exceedsThresholds, functionLength
+} from '../services/staticAnalysis';
+
+interface CodeMetricsPanelProps {
+  metrics: FileMetrics[];
+}
+
+const flagged = (over: boolean): string => over ? 'text-red-600 dark:text-red-400 font-semibold' : '';
+
+const maxBy = (functions: FunctionMetrics[], value: (fn: FunctionMetrics) => number): FunctionMetrics | undefined =>
+  functions.reduce<FunctionMetrics | undefined>((best, fn) => !best || value(fn) > value(best) ? fn : best, undefined);
+
+const FileDetails: React.FC<{ metrics: FileMetrics }> = ({ metrics }) => {
+  const functions = [...metrics.functions].sort((a, b) => b.complexity - a.complexity || functionLength(b) - functionLength(a));
+  return (
+    <div className="p-3 space-y-3 bg-base-200 dark:bg-dark-base-300 text-xs">
+      {functions.length > 0 ? (
+        <table className="w-full text-left">
+          <thead>
+            <tr>
+              <th className="px-2 py-1 font-semibold">Function</th>
+              <th className="px-2 py-1 font-semibold">Lines</th>
+              <th className="px-2 py-1 font-semibold">Length</th>
+              <th className="px-2 py-1 font-semibold">Complexity</th>
+              <th className="px-2 py-1 font-semibold">Nesting</th>
+            </tr>
+          </thead>
+          <tbody>
+            {functions.map((fn, index) => (
+              <tr key={index} className={exceedsThresholds(fn) ? '' : 'text-gray-500 dark:text-gray-400'}>
+                <td className="px-2 py-0.5 font-mono break-all">{fn.name}</td>
+                <td className="px-2 py-0.5 whitespace-nowrap">{fn.startLine}-{fn.endLine}</td>
+                <td className={`px-2 py-0.5 ${flagged(functionLength(fn) > METRIC_THRESHOLDS.functionLength)}`}>{functionLength(fn)}</td>
+                <td className={`px-2 py-0.5 ${flagged(fn.complexity > METRIC_THRESHOLDS.complexity)}`}>{fn.complexity}</td>
+                <td className={`px-2 py-0.5 ${flagged(fn.maxNesting > METRIC_THRESHOLDS.nesting)}`}>{fn.maxNesting}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-gray-500 dark:text-gray-400">Functions are not measured for {metrics.language} files.</p>
+      )}
+      {metrics.duplicates.length > 0 && (
+        <div>
+          <p className="font-semibold mb-1">Duplicated code</p>
+          <ul className="list-disc list-inside font-mono">
+            {metrics.duplicates.map((block, index) => (
+              <li key={index}>
+                lines {block.startLine}-{block.endLine} = {block.otherPath === metrics.path ? 'this file' : block.otherPath} lines {block.otherStartLine}-{block.otherEndLine}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CodeMetricsPanel: React.FC<CodeMetricsPanelProps> = ({ metrics }) => {
+  const [expandedPath, setExpandedPath] = useState<string | null>(null);
+  const flaggedFunctions = metrics.reduce((sum, m) => sum + m.functions.filter(exceedsThresholds).length, 0);
+
+  return (
+    <details className="rounded-lg border border-base-300 dark:border-dark-base-300">
+      <summary className="cursor-pointer p-3 font-semibold select-none">
+        Static analysis ({metrics.length} files, {flaggedFunctions} function{flaggedFunctions === 1 ? '' : 's'} over the thresholds)
+      </summary>
+      <div className="px-3 pb-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+          Measured locally before the review and given to the model as facts. Functions are flagged above a cyclomatic complexity
+          of {METRIC_THRESHOLDS.complexity}, {METRIC_THRESHOLDS.functionLength} lines or a nesting depth of {METRIC_THRESHOLDS.nesting}.
+          Click a file for its functions and duplicated blocks.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-base-200 dark:bg-dark-base-300">
+              <tr>
+                <th className="px-3 py-2 font-semibold">File</th>
+                <th className="px-3 py-2 font-semibold">Lines (code)</th>
+                <th className="px-3 py-2 font-semibold">Complexity</th>
+                <th className="px-3 py-2 font-semibold">Functions</th>
+                <th className="px-3 py-2 font-semibold">Most complex</th>
+                <th className="px-3 py-2 font-semibold">Longest</th>
+                <th className="px-3 py-2 font-semibold">Nesting</th>
+                <th className="px-3 py-2 font-semibold">TODO / FIXME</th>
+                <th className="px-3 py-2 font-semibold">Duplicated</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map(m => {
+                const mostComplex = maxBy(m.functions, fn => fn.complexity);
+                const longest = maxBy(m.functions, functionLength);
+                const duplicated = duplicatedLineCount(m);
+                return (
+                  <React.Fragment key={m.path}>
+                    <tr
+                      onClick={() => setExpandedPath(expandedPath === m.path ? null : m.path)}
+                      className="border-t border-base-300 dark:border-dark-base-300 cursor-pointer hover:bg-base-200 dark:hover:bg-dark-base-300"
+                    >
+                      <td className="px-3 py-1.5 font-mono text-xs break-all">{m.path}</td>
+                      <td className="px-3 py-1.5 whitespace-nowrap">{m.lines} ({m.codeLines})</td>
+                      <td className="px-3 py-1.5">{m.complexity}</td>
+                      <td className="px-3 py-1.5">{m.functions.length}</td>
+                      <td className={`px-3 py-1.5 text-xs ${flagged(!!mostComplex && mostComplex.complexity > METRIC_THRESHOLDS.complexity)}`}>
+                        {mostComplex ? `${mostComplex.name} (${mostComplex.complexity})` : '—'}
+                      </td>
+                      <td className={`px-3 py-1.5 text-xs ${flagged(!!longest && functionLength(longest) > METRIC_THRESHOLDS.functionLength)}`}>
+                        {longest ? `${longest.name} (${functionLength(longest)} lines)` : '—'}
+                      </td>
+                      <td className={`px-3 py-1.5 ${flagged(m.maxNesting > METRIC_THRESHOLDS.nesting)}`}>{m.maxNesting}</td>
+                      <td className="px-3 py-1.5">{m.todoCount} / {m.fixmeCount}</td>
+                      <td className="px-3 py-1.5 whitespace-nowrap">{duplicated > 0 ? `${duplicated} lines` : '—'}</td>
+                    </tr>
+                    {expandedPath === m.path && (
+                      <tr>
+                        <td colSpan={9}><FileDetails metrics={m} /></td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default CodeMetricsPanel;
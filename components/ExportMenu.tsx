@@ -0,0 +1,108 @@
+
+import React, { useState } from 'react';
+import mermaid from 'mermaid';
+import { DiagramKey } from '../services/geminiService';
+import {
+  DIAGRAM_SECTIONS, ReportExportData, exportFileName, exportHtml, exportMarkdown, exportSarif, hasDiagram
+} from '../services/reportExport';
+
+interface ExportMenuProps {
+  data: ReportExportData;
+}
+
+type ExportFormat = 'markdown' | 'html' | 'pdf' | 'sarif';
+
+const FORMATS: { key: ExportFormat; label: string; title: string }[] = [
+  { key: 'markdown', label: 'Markdown', title: 'Download the full report as a Markdown file' },
+  { key: 'html', label: 'HTML', title: 'Download a self-contained HTML page' },
+  { key: 'pdf', label: 'PDF', title: "Open a printable version; choose \"Save as PDF\" in the print dialog" },
+  { key: 'sarif', label: 'SARIF', title: 'Download the findings as SARIF 2.1.0 for GitHub code scanning or IDE tools' },
+];
+
+const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Diagrams that fail to render are exported as their Mermaid source instead
+const renderDiagrams = async (data: ReportExportData): Promise<Partial<Record<DiagramKey, string>>> => {
+  const svgs: Partial<Record<DiagramKey, string>> = {};
+  for (const { key } of DIAGRAM_SECTIONS) {
+    const code = data.visualDocs?.[key];
+    if (!hasDiagram(code)) continue;
+    try {
+      svgs[key] = (await mermaid.render(`export-${key}-${Date.now()}`, code)).svg;
+    } catch (e) {
+      console.error(`Mermaid render error for ${key}:`, e);
+    }
+  }
+  return svgs;
+};
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ data }) => {
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    setExportError(null);
+    try {
+      switch (format) {
+        case 'markdown':
+          downloadFile(exportFileName(data, 'md'), exportMarkdown(data), 'text/markdown');
+          break;
+        case 'html':
+          downloadFile(exportFileName(data, 'html'), exportHtml(data, await renderDiagrams(data)), 'text/html');
+          break;
+        case 'pdf': {
+          const printWindow = window.open('', '_blank');
+          if (!printWindow) throw new Error('The print window was blocked. Allow pop-ups for this site and try again.');
+          printWindow.document.write(exportHtml(data, await renderDiagrams(data)));
+          printWindow.document.close();
+          printWindow.focus();
+          printWindow.print();
+          break;
+        }
+        case 'sarif':
+          downloadFile(exportFileName(data, 'sarif'), JSON.stringify(exportSarif(data), null, 2), 'application/sarif+json');
+          break;
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setExportError(`Export failed: ${errorMessage}`);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold">Export:</span>
+        {FORMATS.map(format => (
+          <button
+            key={format.key}
+            onClick={() => handleExport(format.key)}
+            disabled={busyFormat !== null}
+            title={format.title}
+            className="px-3 py-1 border border-brand-secondary text-brand-secondary font-semibold rounded-lg hover:bg-brand-light dark:hover:bg-dark-base-300 transition-colors disabled:opacity-50"
+          >
+            {busyFormat === format.key ? 'Exporting...' : format.label}
+          </button>
+        ))}
+        {(!data.visualDocs || !data.recommendations) && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            Diagrams and recommendations are included once generated below.
+          </span>
+        )}
+      </div>
+      {exportError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{exportError}</p>}
+    </div>
+  );
+};
+
+export default ExportMenu;
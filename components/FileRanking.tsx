@@ -0,0 +1,63 @@
+
+import React from 'react';
+import { FileScore } from '../services/fileRanking';
+
+interface FileRankingProps {
+  scores: FileScore[];
+}
+
+const describeReasons = (score: FileScore): string => {
+  const reasons: string[] = [];
+  if (score.fanIn > 0) reasons.push(`imported by ${score.fanIn} file${score.fanIn === 1 ? '' : 's'}`);
+  if (score.churn > 0) reasons.push(`changed in ${score.churn} recent commit${score.churn === 1 ? '' : 's'}`);
+  if (score.isEntryPoint) reasons.push('entry point');
+  return reasons.length > 0 ? reasons.join(', ') : 'size only';
+};
+
+const FileRanking: React.FC<FileRankingProps> = ({ scores }) => {
+  const selectedCount = scores.filter(s => s.selected).length;
+
+  return (
+    <details className="rounded-lg border border-base-300 dark:border-dark-base-300">
+      <summary className="cursor-pointer p-3 font-semibold select-none">
+        Why these files were reviewed ({selectedCount} selected of the top {scores.length} ranked)
+      </summary>
+      <div className="px-3 pb-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+          Files are ranked by how many other files import them, how often they changed in recent commits, their size and whether they are entry points. The highest-ranked files that fit the file and size budget are reviewed.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-base-200 dark:bg-dark-base-300">
+              <tr>
+                <th className="px-3 py-2 font-semibold">File</th>
+                <th className="px-3 py-2 font-semibold">Score</th>
+                <th className="px-3 py-2 font-semibold">Fan-in</th>
+                <th className="px-3 py-2 font-semibold">Commits</th>
+                <th className="px-3 py-2 font-semibold">Size</th>
+                <th className="px-3 py-2 font-semibold">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scores.map(score => (
+                <tr key={score.path} className={`border-t border-base-300 dark:border-dark-base-300 ${score.selected ? '' : 'text-gray-400 dark:text-gray-500'}`}>
+                  <td className="px-3 py-1.5 font-mono text-xs break-all">
+                    {score.selected && <span className="mr-1 text-green-600" title="Reviewed">✓</span>}
+                    {score.path}
+                  </td>
+                  <td className="px-3 py-1.5 font-mono text-xs">{score.score.toFixed(2)}</td>
+                  <td className="px-3 py-1.5">{score.fanIn}</td>
+                  <td className="px-3 py-1.5">{score.churn}</td>
+                  <td className="px-3 py-1.5 whitespace-nowrap">{(score.size / 1024).toFixed(1)} KB</td>
+                  <td className="px-3 py-1.5 text-xs">{describeReasons(score)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default FileRanking;
@@ -0,0 +1,130 @@
+
+import React, { useMemo, useState } from 'react';
+import { RepoTreeEntry } from '../services/githubService';
+
+interface FileTreePickerProps {
+  files: RepoTreeEntry[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  children: TreeNode[];
+  file?: RepoTreeEntry;
+}
+
+const buildTree = (files: RepoTreeEntry[]): TreeNode => {
+  const root: TreeNode = { name: '', path: '', children: [] };
+  for (const file of files) {
+    const parts = file.path.split('/');
+    let node = root;
+    parts.forEach((part, i) => {
+      const path = parts.slice(0, i + 1).join('/');
+      let child = node.children.find(c => c.name === part);
+      if (!child) {
+        child = { name: part, path, children: [] };
+        node.children.push(child);
+      }
+      if (i === parts.length - 1) child.file = file;
+      node = child;
+    });
+  }
+  const sortNode = (node: TreeNode) => {
+    // Directories first, then files, each alphabetically
+    node.children.sort((a, b) => Number(!!a.file) - Number(!!b.file) || a.name.localeCompare(b.name));
+    node.children.forEach(sortNode);
+  };
+  sortNode(root);
+  return root;
+};
+
+const collectFilePaths = (node: TreeNode): string[] =>
+  node.file ? [node.path] : node.children.flatMap(collectFilePaths);
+
+const formatSize = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const FileTreePicker: React.FC<FileTreePickerProps> = ({ files, selected, onChange }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState('');
+  const tree = useMemo(() => buildTree(files), [files]);
+  const selectedSet = useMemo(() => new Set(selected), [selected]);
+  const selectedBytes = useMemo(
+    () => files.filter(f => selectedSet.has(f.path)).reduce((sum, f) => sum + f.size, 0),
+    [files, selectedSet]
+  );
+
+  const toggleExpanded = (path: string) => {
+    const next = new Set(expanded);
+    if (next.has(path)) next.delete(path); else next.add(path);
+    setExpanded(next);
+  };
+
+  const togglePaths = (paths: string[], checked: boolean) => {
+    const next = new Set(selectedSet);
+    paths.forEach(p => checked ? next.add(p) : next.delete(p));
+    onChange(files.map(f => f.path).filter(p => next.has(p)));
+  };
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    if (node.file) {
+      return (
+        <label key={node.path} className="flex items-center gap-2 py-0.5 cursor-pointer hover:bg-base-200 dark:hover:bg-dark-base-300 rounded" style={{ paddingLeft: depth * 16 }}>
+          <input type="checkbox" checked={selectedSet.has(node.path)} onChange={(e) => togglePaths([node.path], e.target.checked)} />
+          <span className="font-mono text-xs flex-grow">{node.name}</span>
+          <span className="text-xs text-gray-400 pr-2">{formatSize(node.file.size)}</span>
+        </label>
+      );
+    }
+    const filePaths = collectFilePaths(node);
+    const selectedCount = filePaths.filter(p => selectedSet.has(p)).length;
+    const isOpen = expanded.has(node.path);
+    return (
+      <div key={node.path}>
+        <div className="flex items-center gap-2 py-0.5" style={{ paddingLeft: depth * 16 }}>
+          <input
+            type="checkbox"
+            checked={selectedCount === filePaths.length}
+            ref={el => { if (el) el.indeterminate = selectedCount > 0 && selectedCount < filePaths.length; }}
+            onChange={(e) => togglePaths(filePaths, e.target.checked)}
+            aria-label={`Select all files in ${node.path}`}
+          />
+          <button onClick={() => toggleExpanded(node.path)} className="font-mono text-xs font-semibold text-left flex-grow hover:text-brand-secondary">
+            {isOpen ? '▾' : '▸'} {node.name}/
+            {selectedCount > 0 && <span className="ml-2 font-sans font-normal text-brand-secondary">({selectedCount} selected)</span>}
+          </button>
+        </div>
+        {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const query = filter.trim().toLowerCase();
+  const filteredFiles = query ? files.filter(f => f.path.toLowerCase().includes(query)).slice(0, 200) : [];
+
+  return (
+    <div className="border border-base-300 dark:border-dark-base-300 rounded-lg">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 p-2 border-b border-base-300 dark:border-dark-base-300">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter files..."
+          className="flex-grow px-3 py-1.5 border border-base-300 dark:border-dark-base-300 rounded-lg bg-base-200 dark:bg-dark-base-100 text-sm outline-none focus:ring-2 focus:ring-brand-secondary"
+        />
+        <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+          {selected.length} files selected ({formatSize(selectedBytes)})
+        </span>
+        <button onClick={() => onChange([])} className="text-xs text-brand-secondary hover:underline">Clear</button>
+      </div>
+      <div className="max-h-80 overflow-y-auto p-2">
+        {query
+          ? filteredFiles.map(f => renderNode({ name: f.path, path: f.path, children: [], file: f }, 0))
+          : tree.children.map(child => renderNode(child, 0))}
+      </div>
+    </div>
+  );
+};
+
+export default FileTreePicker;
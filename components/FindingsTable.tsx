@@ -0,0 +1,183 @@
+
+import React, { useMemo, useState } from 'react';
+import {
+  ReviewFinding, FindingSeverity, FindingCategory, FINDING_SEVERITIES, FINDING_CATEGORIES
+} from '../services/geminiService';
+import { SourceLocation } from '../services/sources';
+import ReviewOutput from './ReviewOutput';
+
+interface FindingsTableProps {
+  findings: ReviewFinding[];
+  onOpenSource?: (location: SourceLocation) => void;
+}
+
+type SortKey = 'severity' | 'filePath' | 'startLine' | 'category';
+
+export const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  critical: 'bg-red-600 text-white',
+  high: 'bg-orange-500 text-white',
+  medium: 'bg-yellow-400 text-gray-900',
+  low: 'bg-blue-200 text-blue-900 dark:bg-blue-900 dark:text-blue-100',
+  info: 'bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-100',
+};
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'severity', label: 'Severity' },
+  { key: 'category', label: 'Category' },
+  { key: 'filePath', label: 'File' },
+  { key: 'startLine', label: 'Lines' },
+];
+
+const compareFindings = (a: ReviewFinding, b: ReviewFinding, key: SortKey): number => {
+  switch (key) {
+    case 'severity':
+      return FINDING_SEVERITIES.indexOf(a.severity) - FINDING_SEVERITIES.indexOf(b.severity);
+    case 'category':
+      return a.category.localeCompare(b.category);
+    case 'filePath':
+      return a.filePath.localeCompare(b.filePath) || a.startLine - b.startLine;
+    case 'startLine':
+      return a.startLine - b.startLine;
+  }
+};
+
+// Stable across filtering and sorting, unlike the row index
+const findingKey = (finding: ReviewFinding): string => `${finding.filePath}:${finding.startLine}:${finding.title}`;
+
+const FindingsTable: React.FC<FindingsTableProps> = ({ findings, onOpenSource }) => {
+  const [severityFilter, setSeverityFilter] = useState<FindingSeverity | 'all'>('all');
+  const [categoryFilter, setCategoryFilter] = useState<FindingCategory | 'all'>('all');
+  const [searchText, setSearchText] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('severity');
+  const [sortAscending, setSortAscending] = useState(true);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const visibleFindings = useMemo(() => {
+    const query = searchText.trim().toLowerCase();
+    const filtered = findings.filter(f =>
+      (severityFilter === 'all' || f.severity === severityFilter) &&
+      (categoryFilter === 'all' || f.category === categoryFilter) &&
+      (!query || f.title.toLowerCase().includes(query) || f.filePath.toLowerCase().includes(query))
+    );
+    const direction = sortAscending ? 1 : -1;
+    return filtered.sort((a, b) => compareFindings(a, b, sortKey) * direction);
+  }, [findings, severityFilter, categoryFilter, searchText, sortKey, sortAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  const selectClassName = "px-3 py-1.5 border border-base-300 dark:border-dark-base-300 rounded-lg bg-base-200 dark:bg-dark-base-100 text-sm focus:ring-2 focus:ring-brand-secondary outline-none";
+
+  return (
+    <div>
+      <h3 className="text-xl font-bold text-base-content dark:text-dark-content mb-4 pb-2 border-b-2 border-brand-secondary">
+        Findings ({visibleFindings.length} of {findings.length})
+      </h3>
+
+      <div className="flex flex-col sm:flex-row gap-2 mb-4">
+        <select
+          value={severityFilter}
+          onChange={(e) => setSeverityFilter(e.target.value as FindingSeverity | 'all')}
+          className={selectClassName}
+          aria-label="Filter by severity"
+        >
+          <option value="all">All severities</option>
+          {FINDING_SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select
+          value={categoryFilter}
+          onChange={(e) => setCategoryFilter(e.target.value as FindingCategory | 'all')}
+          className={selectClassName}
+          aria-label="Filter by category"
+        >
+          <option value="all">All categories</option>
+          {FINDING_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <input
+          type="text"
+          value={searchText}
+          onChange={(e) => setSearchText(e.target.value)}
+          placeholder="Search title or file..."
+          className={`${selectClassName} flex-grow`}
+          aria-label="Search findings"
+        />
+      </div>
+
+      {visibleFindings.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-4">No findings match the current filters.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-base-300 dark:border-dark-base-300">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-base-200 dark:bg-dark-base-300">
+              <tr>
+                {COLUMNS.map(col => (
+                  <th key={col.key} className="px-3 py-2 font-semibold">
+                    <button onClick={() => handleSort(col.key)} className="flex items-center gap-1 hover:text-brand-secondary">
+                      {col.label}
+                      {sortKey === col.key && <span aria-hidden="true">{sortAscending ? '▲' : '▼'}</span>}
+                    </button>
+                  </th>
+                ))}
+                <th className="px-3 py-2 font-semibold">Title</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleFindings.map((finding, index) => (
+                <React.Fragment key={`${finding.filePath}-${finding.startLine}-${index}`}>
+                  <tr
+                    onClick={() => setExpandedKey(expandedKey === findingKey(finding) ? null : findingKey(finding))}
+                    className="border-t border-base-300 dark:border-dark-base-300 cursor-pointer hover:bg-base-200 dark:hover:bg-dark-base-300"
+                  >
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${SEVERITY_STYLES[finding.severity]}`}>
+                        {finding.severity}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {finding.category}
+                      {finding.cwe && <span className="block text-xs font-mono text-gray-500 dark:text-gray-400">{finding.cwe}</span>}
+                    </td>
+                    <td className="px-3 py-2 font-mono text-xs break-all">{finding.filePath}</td>
+                    <td className="px-3 py-2 font-mono text-xs whitespace-nowrap">
+                      {finding.startLine === finding.endLine ? finding.startLine : `${finding.startLine}-${finding.endLine}`}
+                    </td>
+                    <td className="px-3 py-2 font-semibold">{finding.title}</td>
+                  </tr>
+                  {expandedKey === findingKey(finding) && (
+                    <tr className="bg-base-200/50 dark:bg-dark-base-300/50">
+                      <td colSpan={5} className="px-4 py-3">
+                        {onOpenSource && (
+                          <button
+                            onClick={() => onOpenSource({ path: finding.filePath, startLine: finding.startLine, endLine: finding.endLine })}
+                            className="mb-1 text-xs font-semibold text-brand-secondary hover:underline"
+                          >
+                            View source
+                          </button>
+                        )}
+                        <ReviewOutput review={finding.explanation} />
+                        {finding.suggestedFix && (
+                          <>
+                            <h4 className="font-semibold mt-3 text-brand-secondary">Suggested Fix</h4>
+                            <ReviewOutput review={finding.suggestedFix} />
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindingsTable;
@@ -1,18 +1,42 @@
 import React from 'react';
 import { RepoIcon } from './icons/RepoIcon';
+import { parseRepoUrl, RepoRef } from '../services/githubService';
 
 interface GitHubInputProps {
   url: string;
   setUrl: (url: string) => void;
+  token: string;
+  setToken: (token: string) => void;
+  gitRef: string;
+  setGitRef: (ref: string) => void;
+  refs: RepoRef[];
+  isLoadingRefs: boolean;
+  onLoadRefs: () => void;
   onAnalyze: () => void;
   isAnalyzing: boolean;
+  children?: React.ReactNode;
 }
 
-const GitHubInput: React.FC<GitHubInputProps> = ({ url, setUrl, onAnalyze, isAnalyzing }) => {
+const tryParseRepoUrl = (url: string) => {
+  try {
+    return parseRepoUrl(url);
+  } catch {
+    return null;
+  }
+};
+
+const GitHubInput: React.FC<GitHubInputProps> = ({
+  url, setUrl, token, setToken, gitRef, setGitRef, refs, isLoadingRefs, onLoadRefs, onAnalyze, isAnalyzing, children
+}) => {
+  const parsedUrl = tryParseRepoUrl(url);
+  const isPullRequest = parsedUrl?.pullNumber !== undefined;
+  const branches = refs.filter(r => r.type === 'branch');
+  const tags = refs.filter(r => r.type === 'tag');
+
   return (
     <div className="bg-base-100 dark:bg-dark-base-200 rounded-lg shadow-lg p-4">
        <h2 className="text-xl font-bold text-base-content dark:text-dark-content mb-3">
-        Analyze a GitHub Repository
+        Analyze a GitHub Repository or Pull Request
       </h2>
       <div className="flex flex-col sm:flex-row gap-2">
         <div className="relative flex-grow">
@@ -21,7 +45,7 @@ const GitHubInput: React.FC<GitHubInputProps> = ({ url, setUrl, onAnalyze, isAna
             type="url"
             value={url}
             onChange={(e) => setUrl(e.target.value)}
-            placeholder="Enter a public GitHub repository URL (e.g., https://github.com/owner/repo)"
+            placeholder="Enter a GitHub repository or pull request URL (e.g., https://github.com/owner/repo/pull/123)"
             disabled={isAnalyzing}
             className="w-full pl-10 pr-4 py-2 border border-base-300 dark:border-dark-base-300 rounded-lg bg-base-200 dark:bg-dark-base-100 focus:ring-2 focus:ring-brand-secondary focus:border-brand-secondary outline-none transition-colors"
             aria-label="GitHub Repository URL"
@@ -41,11 +65,52 @@ const GitHubInput: React.FC<GitHubInputProps> = ({ url, setUrl, onAnalyze, isAna
           ) : (
             <>
               <RepoIcon className="w-5 h-5" />
-              <span>Analyze Repository</span>
+              <span>{isPullRequest ? 'Review Pull Request' : 'Analyze Repository'}</span>
             </>
           )}
         </button>
       </div>
+      <div className="mt-2">
+        <input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="GitHub access token (optional; required for private repositories and higher rate limits)"
+          disabled={isAnalyzing}
+          autoComplete="off"
+          className="w-full px-4 py-2 border border-base-300 dark:border-dark-base-300 rounded-lg bg-base-200 dark:bg-dark-base-100 text-sm focus:ring-2 focus:ring-brand-secondary focus:border-brand-secondary outline-none transition-colors"
+          aria-label="GitHub access token"
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          A personal access token or GitHub App installation token with read access to the repository contents. It is only kept in this browser tab.
+        </p>
+      </div>
+      {!isPullRequest && (
+        <div className="mt-2 flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            list="github-ref-options"
+            value={gitRef}
+            onChange={(e) => setGitRef(e.target.value)}
+            placeholder={parsedUrl?.ref ? `Ref from URL: ${parsedUrl.ref}` : 'Branch, tag or commit SHA (defaults to the default branch)'}
+            disabled={isAnalyzing}
+            className="flex-grow px-4 py-2 border border-base-300 dark:border-dark-base-300 rounded-lg bg-base-200 dark:bg-dark-base-100 text-sm font-mono focus:ring-2 focus:ring-brand-secondary focus:border-brand-secondary outline-none transition-colors"
+            aria-label="Branch, tag or commit"
+          />
+          <datalist id="github-ref-options">
+            {branches.map(r => <option key={`branch-${r.name}`} value={r.name}>{`branch · ${r.sha.substring(0, 7)}`}</option>)}
+            {tags.map(r => <option key={`tag-${r.name}`} value={r.name}>{`tag · ${r.sha.substring(0, 7)}`}</option>)}
+          </datalist>
+          <button
+            onClick={onLoadRefs}
+            disabled={isAnalyzing || isLoadingRefs || !parsedUrl}
+            className="px-4 py-2 border border-brand-secondary text-brand-secondary font-semibold rounded-lg text-sm hover:bg-brand-light dark:hover:bg-dark-base-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLoadingRefs ? 'Loading...' : refs.length > 0 ? `${branches.length} branches, ${tags.length} tags` : 'Load branches & tags'}
+          </button>
+        </div>
+      )}
+      {children}
     </div>
   );
 };
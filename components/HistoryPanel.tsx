@@ -0,0 +1,90 @@
+
+import React, { useState } from 'react';
+import { AnalysisRecord, isSameRepository } from '../services/history';
+import { describeRevision, describeSourceName } from '../services/sources';
+
+interface HistoryPanelProps {
+  records: AnalysisRecord[];
+  currentRecordId: string | null;
+  onOpen: (record: AnalysisRecord) => void;
+  onDelete: (record: AnalysisRecord) => void;
+  onCompare: (older: AnalysisRecord, newer: AnalysisRecord) => void;
+  disabled: boolean;
+}
+
+const describeRecord = (record: AnalysisRecord): string => {
+  const { source, pullRequest } = record.repoData;
+  return pullRequest ? `PR #${pullRequest.number} @ ${source.commitSha.substring(0, 7)}` : describeRevision(source);
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ records, currentRecordId, onOpen, onDelete, onCompare, disabled }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const selected = records.filter(r => selectedIds.includes(r.id));
+  const canCompare = selected.length === 2 && isSameRepository(selected[0], selected[1]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id)
+      ? prev.filter(existing => existing !== id)
+      // Keep at most two selected; picking a third replaces the oldest pick
+      : [...prev, id].slice(-2));
+  };
+
+  const handleCompare = () => {
+    const [a, b] = [...selected].sort((x, y) => x.savedAt.localeCompare(y.savedAt));
+    onCompare(a, b);
+  };
+
+  if (records.length === 0) return null;
+
+  return (
+    <details className="bg-base-100 dark:bg-dark-base-200 rounded-lg shadow-lg">
+      <summary className="cursor-pointer p-4 font-semibold select-none">
+        Analysis history ({records.length})
+      </summary>
+      <div className="px-4 pb-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Saved in this browser. Select two runs of the same repository to compare their findings.
+          </p>
+          <button
+            onClick={handleCompare}
+            disabled={!canCompare || disabled}
+            title={selected.length === 2 && !canCompare ? 'Only runs of the same repository can be compared' : undefined}
+            className="px-4 py-1.5 bg-brand-secondary hover:bg-brand-primary text-white font-semibold rounded-lg text-sm transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Compare selected
+          </button>
+        </div>
+        <ul className="divide-y divide-base-300 dark:divide-dark-base-300 text-sm">
+          {records.map(record => (
+            <li key={record.id} className={`flex flex-wrap items-center gap-3 py-2 ${record.id === currentRecordId ? 'font-semibold' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(record.id)}
+                onChange={() => toggleSelected(record.id)}
+                aria-label={`Select ${describeSourceName(record.repoData.source)} run for comparison`}
+              />
+              <span className="font-mono text-xs">{describeSourceName(record.repoData.source)}</span>
+              <span className="font-mono text-xs text-gray-500 dark:text-gray-400">{describeRecord(record)}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">{new Date(record.savedAt).toLocaleString()}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {record.report.findings.length} findings in {record.repoData.codeFiles.length} files
+              </span>
+              <span className="ml-auto flex gap-3">
+                <button onClick={() => onOpen(record)} disabled={disabled} className="text-xs text-brand-secondary hover:underline disabled:opacity-50">
+                  Open
+                </button>
+                <button onClick={() => onDelete(record)} disabled={disabled} className="text-xs text-red-600 dark:text-red-400 hover:underline disabled:opacity-50">
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </details>
+  );
+};
+
+export default HistoryPanel;
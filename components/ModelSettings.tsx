@@ -0,0 +1,98 @@
+
+import React from 'react';
+import {
+  LLM_TASKS, LlmSettings, LlmTask, PROVIDER_OPTIONS, ProviderId, defaultModelFor
+} from '../services/llmProvider';
+
+interface ModelSettingsProps {
+  settings: LlmSettings;
+  setSettings: (settings: LlmSettings) => void;
+  disabled: boolean;
+}
+
+const inputClassName = "w-full px-3 py-1.5 border border-base-300 dark:border-dark-base-300 rounded-lg bg-base-200 dark:bg-dark-base-100 text-sm font-mono outline-none focus:ring-2 focus:ring-brand-secondary";
+
+const ModelSettings: React.FC<ModelSettingsProps> = ({ settings, setSettings, disabled }) => {
+  const defaultModel = defaultModelFor(settings.provider);
+
+  const setModel = (task: LlmTask, model: string) => {
+    const models = { ...settings.models };
+    if (model.trim()) {
+      models[task] = model;
+    } else {
+      delete models[task];
+    }
+    setSettings({ ...settings, models });
+  };
+
+  return (
+    <details className="mt-3">
+      <summary className="cursor-pointer text-sm font-semibold text-brand-secondary select-none">
+        Model provider
+        <span className="ml-2 font-normal text-gray-500">
+          ({PROVIDER_OPTIONS.find(option => option.id === settings.provider)!.label})
+        </span>
+      </summary>
+      <fieldset disabled={disabled} className="mt-3 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <label className="text-xs font-semibold">
+            Provider
+            <select
+              value={settings.provider}
+              // Model names rarely carry over between providers
+              onChange={(e) => setSettings({ ...settings, provider: e.target.value as ProviderId, models: {} })}
+              className={`${inputClassName} mt-1 font-normal`}
+            >
+              {PROVIDER_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+          </label>
+          {settings.provider === 'openai' && (
+            <>
+              <label className="text-xs font-semibold">
+                Server URL
+                <input
+                  type="url"
+                  value={settings.baseUrl}
+                  onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+                  className={`${inputClassName} mt-1 font-normal`}
+                />
+              </label>
+              <label className="text-xs font-semibold">
+                API key (optional)
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={(e) => setSettings({ ...settings, apiKey: e.target.value })}
+                  autoComplete="off"
+                  className={`${inputClassName} mt-1 font-normal`}
+                />
+              </label>
+            </>
+          )}
+        </div>
+        {settings.provider === 'mock' ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The mock provider answers from built-in fixtures without any network access. Findings are generated from TODO/FIXME markers.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {LLM_TASKS.map(task => (
+              <label key={task.key} className="text-xs font-semibold">
+                {task.label} model
+                <input
+                  type="text"
+                  value={settings.models[task.key] ?? ''}
+                  onChange={(e) => setModel(task.key, e.target.value)}
+                  placeholder={defaultModel}
+                  className={`${inputClassName} mt-1 font-normal`}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </fieldset>
+    </details>
+  );
+};
+
+export default ModelSettings;
@@ -0,0 +1,60 @@
+
+import React from 'react';
+import { BudgetAction, BudgetDecision, PROMPT_BUDGETS } from '../services/tokenBudget';
+
+interface PromptBudgetProps {
+  decisions: BudgetDecision[];
+  // Files whose review was answered from the response cache instead of the model
+  cachedPaths?: string[];
+}
+
+const describeDecision = (decision: BudgetDecision): string => {
+  switch (decision.action) {
+    case 'full':
+      return 'Reviewed in a single prompt';
+    case 'chunked':
+      return `Split into ${decision.detail} chunks reviewed separately`;
+    case 'truncated':
+      return `Truncated to ~${decision.detail?.toLocaleString()} tokens`;
+    case 'omitted':
+      return 'Left out: prompt budget exhausted';
+  }
+};
+
+const ACTION_STYLES: Record<BudgetAction, string> = {
+  full: 'text-gray-500 dark:text-gray-400',
+  chunked: 'text-blue-600 dark:text-blue-400',
+  truncated: 'text-orange-600 dark:text-orange-400',
+  omitted: 'text-red-600 dark:text-red-400',
+};
+
+const PromptBudget: React.FC<PromptBudgetProps> = ({ decisions, cachedPaths = [] }) => {
+  const totalTokens = decisions.reduce((sum, d) => sum + d.estimatedTokens, 0);
+  const adjusted = decisions.filter(d => d.action !== 'full').length;
+
+  return (
+    <details className="rounded-lg border border-base-300 dark:border-dark-base-300">
+      <summary className="cursor-pointer p-3 font-semibold select-none">
+        Prompt budget (~{totalTokens.toLocaleString()} tokens of code{adjusted > 0 ? `, ${adjusted} file(s) chunked or truncated` : ''}{cachedPaths.length > 0 ? `, ${cachedPaths.length} review(s) from cache` : ''})
+      </summary>
+      <div className="px-3 pb-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+          Token counts are estimates. Files above ~{PROMPT_BUDGETS.fileReview.toLocaleString()} tokens are split at function and class boundaries and each part is reviewed on its own.
+        </p>
+        <ul className="text-sm space-y-1">
+          {decisions.map(decision => (
+            <li key={decision.path} className="flex flex-wrap justify-between gap-2">
+              <span className="font-mono text-xs break-all">{decision.path}</span>
+              <span className={`text-xs ${ACTION_STYLES[decision.action]}`}>
+                ~{decision.estimatedTokens.toLocaleString()} tokens · {describeDecision(decision)}
+                {cachedPaths.includes(decision.path) && ' · from cache'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </details>
+  );
+};
+
+export default PromptBudget;
@@ -0,0 +1,129 @@
+
+import React, { useMemo, useState } from 'react';
+import { ReportExportData } from '../services/reportExport';
+import { IssueMode, buildPullRequestReview, buildRepositoryIssues } from '../services/githubPublish';
+import { createIssue, postPullRequestReview } from '../services/githubService';
+import GitHubIcon from './icons/GitHubIcon';
+
+interface PublishToGitHubProps {
+  data: ReportExportData;
+  token: string;
+}
+
+const previewClassName = "p-3 bg-base-200 dark:bg-dark-base-300 rounded-md text-xs font-mono whitespace-pre-wrap break-words max-h-64 overflow-y-auto";
+
+const PublishToGitHub: React.FC<PublishToGitHubProps> = ({ data, token }) => {
+  const [issueMode, setIssueMode] = useState<IssueMode>('single');
+  const [isPosting, setIsPosting] = useState(false);
+  const [postedUrls, setPostedUrls] = useState<string[]>([]);
+  const [publishError, setPublishError] = useState<string | null>(null);
+
+  const { owner, repo } = data.repoData.source;
+  const pullRequest = data.repoData.pullRequest;
+  const reviewDraft = useMemo(() => pullRequest ? buildPullRequestReview(data) : null, [data, pullRequest]);
+  const issueDrafts = useMemo(() => pullRequest ? [] : buildRepositoryIssues(data, issueMode), [data, pullRequest, issueMode]);
+  const hasToken = token.trim() !== '';
+  const nothingToPost = !reviewDraft && issueDrafts.length === 0;
+
+  const handlePublish = async () => {
+    setIsPosting(true);
+    setPublishError(null);
+    setPostedUrls([]);
+    try {
+      if (pullRequest && reviewDraft) {
+        setPostedUrls([await postPullRequestReview(owner, repo, pullRequest.number, reviewDraft, { token })]);
+      } else {
+        // Posted one at a time so a failure part-way still reports the issues already created
+        for (const draft of issueDrafts) {
+          const url = await createIssue(owner, repo, draft, { token });
+          setPostedUrls(prev => [...prev, url]);
+        }
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setPublishError(errorMessage);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <details className="rounded-lg border border-base-300 dark:border-dark-base-300">
+      <summary className="cursor-pointer p-3 font-semibold select-none flex items-center gap-2">
+        <GitHubIcon className="w-4 h-4" />
+        {pullRequest ? `Post as a review on pull request #${pullRequest.number}` : 'Post as GitHub issues'}
+      </summary>
+      <div className="px-3 pb-3 space-y-3 text-sm">
+        {!pullRequest && (
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={issueMode === 'single'} onChange={() => setIssueMode('single')} />
+              One issue with the full report
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={issueMode === 'perFinding'} onChange={() => setIssueMode('perFinding')} />
+              One issue per critical or high severity finding
+            </label>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">Preview of exactly what will be posted to {owner}/{repo}:</p>
+
+        {reviewDraft && (
+          <div className="space-y-2">
+            <p className="font-semibold">Review comment</p>
+            <pre className={previewClassName}>{reviewDraft.body}</pre>
+            <p className="font-semibold">{reviewDraft.comments.length} inline comment(s)</p>
+            {reviewDraft.comments.map((comment, index) => (
+              <div key={index}>
+                <p className="font-mono text-xs text-brand-secondary">
+                  {comment.path}:{comment.startLine !== undefined ? `${comment.startLine}-` : ''}{comment.line}
+                </p>
+                <pre className={previewClassName}>{comment.body}</pre>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!pullRequest && issueDrafts.length === 0 && (
+          <p className="text-gray-500 dark:text-gray-400">There are no critical or high severity findings to open issues for.</p>
+        )}
+        {issueDrafts.map((draft, index) => (
+          <div key={index}>
+            <p className="font-semibold">{draft.title}</p>
+            <pre className={previewClassName}>{draft.body}</pre>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={handlePublish}
+            disabled={!hasToken || isPosting || nothingToPost}
+            className="flex items-center gap-2 px-4 py-1.5 bg-gray-800 hover:bg-gray-900 text-white font-semibold rounded-lg transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <GitHubIcon className="w-4 h-4" />
+            {isPosting ? 'Posting...' : pullRequest ? 'Post review' : `Create ${issueDrafts.length} issue(s)`}
+          </button>
+          {!hasToken && (
+            <span className="text-xs text-orange-600 dark:text-orange-400">
+              Enter an access token with write access to the repository above to post.
+            </span>
+          )}
+        </div>
+
+        {postedUrls.length > 0 && (
+          <ul className="text-green-700 dark:text-green-400">
+            {postedUrls.map(url => (
+              <li key={url}>
+                Posted: <a href={url} target="_blank" rel="noopener noreferrer" className="underline break-all">{url}</a>
+              </li>
+            ))}
+          </ul>
+        )}
+        {publishError && <p className="text-red-600 dark:text-red-400">{publishError}</p>}
+      </div>
+    </details>
+  );
+};
+
+export default PublishToGitHub;
@@ -0,0 +1,96 @@
+
+import React from 'react';
+import { PullRequestInfo } from '../services/githubService';
+import { FileReview, ReviewFinding } from '../services/geminiService';
+import { DiffHunk } from '../services/diffParser';
+import { SourceLocation } from '../services/sources';
+import ReviewOutput from './ReviewOutput';
+
+interface PullRequestReviewProps {
+  pullRequest: PullRequestInfo;
+  fileReviews: FileReview[];
+  onOpenSource?: (location: SourceLocation) => void;
+}
+
+const LINE_STYLES = {
+  added: 'bg-green-100 dark:bg-green-900/30',
+  removed: 'bg-red-100 dark:bg-red-900/30',
+  context: '',
+};
+
+type OpenSource = PullRequestReviewProps['onOpenSource'];
+
+const HunkComment: React.FC<{ finding: ReviewFinding; onOpenSource: OpenSource }> = ({ finding, onOpenSource }) => (
+  <div className="border-l-4 border-brand-secondary bg-base-100 dark:bg-dark-base-200 p-3 my-2 rounded-r-md shadow-sm">
+    <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-1">
+      {finding.severity} · {finding.category} · line {finding.startLine === finding.endLine ? finding.startLine : `${finding.startLine}-${finding.endLine}`}
+      {onOpenSource && (
+        <button
+          onClick={() => onOpenSource({ path: finding.filePath, startLine: finding.startLine, endLine: finding.endLine })}
+          className="ml-2 font-sans font-semibold text-brand-secondary hover:underline"
+        >
+          View source
+        </button>
+      )}
+    </p>
+    <p className="font-semibold">{finding.title}</p>
+    <ReviewOutput review={finding.explanation} />
+    {finding.suggestedFix && <ReviewOutput review={finding.suggestedFix} />}
+  </div>
+);
+
+const Hunk: React.FC<{ hunk: DiffHunk; comments: ReviewFinding[]; onOpenSource: OpenSource }> = ({ hunk, comments, onOpenSource }) => (
+  <div className="mb-4">
+    <pre className="bg-base-200 dark:bg-dark-base-300 rounded-md overflow-x-auto text-xs font-mono shadow-inner">
+      <div className="px-3 py-1 text-blue-700 dark:text-blue-300 bg-blue-50 dark:bg-blue-900/20">{hunk.header}</div>
+      {hunk.lines.map((line, i) => (
+        <div key={i} className={`px-3 ${LINE_STYLES[line.type]}`}>
+          <span className="inline-block w-10 text-right pr-2 text-gray-400 select-none">{line.newLine ?? ''}</span>
+          {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}{line.content}
+        </div>
+      ))}
+    </pre>
+    {comments.map((finding, i) => <HunkComment key={i} finding={finding} onOpenSource={onOpenSource} />)}
+  </div>
+);
+
+const PullRequestReview: React.FC<PullRequestReviewProps> = ({ pullRequest, fileReviews, onOpenSource }) => {
+  return (
+    <div>
+      <h3 className="text-xl font-bold text-base-content dark:text-dark-content mb-1 pb-2 border-b-2 border-brand-secondary">
+        Changes in{' '}
+        <a href={pullRequest.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+          #{pullRequest.number} {pullRequest.title}
+        </a>
+      </h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 font-mono">
+        {pullRequest.headRef} → {pullRequest.baseRef} ({pullRequest.headSha.substring(0, 7)})
+      </p>
+
+      {pullRequest.files.map(changedFile => {
+        const fileReview = fileReviews.find(r => r.path === changedFile.path);
+        return (
+          <details key={changedFile.path} open={!!fileReview && fileReview.findings.length > 0} className="mb-6">
+            <summary className="cursor-pointer font-mono text-sm font-semibold py-2">
+              {changedFile.path}
+              <span className="ml-2 text-green-600">+{changedFile.additions}</span>
+              <span className="ml-1 text-red-600">-{changedFile.deletions}</span>
+              {fileReview && <span className="ml-2 text-gray-500">({fileReview.findings.length} comments)</span>}
+            </summary>
+            {fileReview && <ReviewOutput review={fileReview.summary} />}
+            {changedFile.hunks.map((hunk, i) => (
+              <Hunk
+                key={i}
+                hunk={hunk}
+                comments={fileReview?.findings.filter(f => f.hunkHeader === hunk.header) ?? []}
+                onOpenSource={onOpenSource}
+              />
+            ))}
+          </details>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PullRequestReview;
@@ -0,0 +1,115 @@
+
+import React, { useMemo } from 'react';
+import { ReviewFinding } from '../services/geminiService';
+import { AnalysisRecord } from '../services/history';
+import { compareReports } from '../services/reportComparison';
+import { describeRevision, describeSourceName } from '../services/sources';
+import { SEVERITY_STYLES } from './FindingsTable';
+
+interface ReportComparisonProps {
+  older: AnalysisRecord;
+  newer: AnalysisRecord;
+  onClose: () => void;
+}
+
+type ChangeKind = 'new' | 'fixed' | 'unchanged' | 'not reviewed';
+
+interface ComparisonRow {
+  kind: ChangeKind;
+  before?: ReviewFinding;
+  after?: ReviewFinding;
+}
+
+const CHANGE_STYLES: Record<ChangeKind, string> = {
+  new: 'text-red-600 dark:text-red-400',
+  fixed: 'text-green-600 dark:text-green-400',
+  unchanged: 'text-gray-500 dark:text-gray-400',
+  'not reviewed': 'text-yellow-700 dark:text-yellow-400',
+};
+
+const FindingCell: React.FC<{ finding?: ReviewFinding }> = ({ finding }) => {
+  if (!finding) return <td className="p-2 align-top text-gray-400 dark:text-gray-500">—</td>;
+  return (
+    <td className="p-2 align-top">
+      <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${SEVERITY_STYLES[finding.severity]}`}>
+        {finding.severity}
+      </span>
+      <span className="ml-2">{finding.title}</span>
+      <div className="mt-1 font-mono text-xs text-gray-500 dark:text-gray-400 break-all">
+        {finding.filePath}:{finding.startLine}{finding.endLine !== finding.startLine ? `-${finding.endLine}` : ''} · {finding.category}
+      </div>
+    </td>
+  );
+};
+
+const RunHeader: React.FC<{ record: AnalysisRecord; label: string }> = ({ record, label }) => (
+  <th className="p-2 text-left font-semibold">
+    {label}
+    <div className="font-normal text-xs text-gray-500 dark:text-gray-400">
+      <span className="font-mono">{describeRevision(record.repoData.source)}</span>
+      {' · '}{new Date(record.savedAt).toLocaleString()}
+    </div>
+  </th>
+);
+
+const ReportComparison: React.FC<ReportComparisonProps> = ({ older, newer, onClose }) => {
+  const comparison = useMemo(() => compareReports(older.report, newer.report), [older, newer]);
+
+  const rows: ComparisonRow[] = [
+    ...comparison.added.map(after => ({ kind: 'new' as const, after })),
+    ...comparison.fixed.map(before => ({ kind: 'fixed' as const, before })),
+    ...comparison.unchanged.map(pair => ({ kind: 'unchanged' as const, ...pair })),
+    ...comparison.notReviewed.map(before => ({ kind: 'not reviewed' as const, before })),
+  ];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-bold">
+          Comparing {describeSourceName(newer.repoData.source)}
+        </h3>
+        <button onClick={onClose} className="text-sm text-brand-secondary hover:underline">
+          Close comparison
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4 text-sm">
+        <span className={CHANGE_STYLES.new}>{comparison.added.length} new</span>
+        <span className={CHANGE_STYLES.fixed}>{comparison.fixed.length} fixed</span>
+        <span className={CHANGE_STYLES.unchanged}>{comparison.unchanged.length} unchanged</span>
+        {comparison.notReviewed.length > 0 && (
+          <span className={CHANGE_STYLES['not reviewed']}>
+            {comparison.notReviewed.length} in files the newer run did not review
+          </span>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Neither run reported any findings.</p>
+      ) : (
+        <div className="overflow-x-auto border border-base-300 dark:border-dark-base-300 rounded-lg">
+          <table className="w-full text-sm table-fixed">
+            <thead className="bg-base-200 dark:bg-dark-base-300">
+              <tr>
+                <th className="p-2 text-left font-semibold w-28">Change</th>
+                <RunHeader record={older} label="Older run" />
+                <RunHeader record={newer} label="Newer run" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-base-300 dark:divide-dark-base-300">
+              {rows.map((row, index) => (
+                <tr key={index}>
+                  <td className={`p-2 align-top font-semibold capitalize ${CHANGE_STYLES[row.kind]}`}>{row.kind}</td>
+                  <FindingCell finding={row.before} />
+                  <FindingCell finding={row.after} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportComparison;
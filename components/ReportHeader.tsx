@@ -0,0 +1,58 @@
+
+import React from 'react';
+import { AnalysisSource, PullRequestInfo } from '../services/githubService';
+import { describeSourceName, sourceWebUrl } from '../services/sources';
+import GitHubIcon from './icons/GitHubIcon';
+
+interface ReportHeaderProps {
+  source: AnalysisSource;
+  generatedAt: string;
+  pullRequest?: PullRequestInfo;
+  profileName?: string;
+}
+
+const ReportHeader: React.FC<ReportHeaderProps> = ({ source, generatedAt, pullRequest, profileName }) => {
+  const repoUrl = sourceWebUrl(source);
+
+  if (!repoUrl) {
+    return (
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-6 p-3 rounded-md bg-base-200 dark:bg-dark-base-300 text-sm">
+        <span className="font-semibold">{describeSourceName(source)}</span>
+        <span>{source.ref}</span>
+        <span title="Fingerprint of the reviewed file contents">
+          Snapshot: <span className="font-mono">{source.commitSha.substring(0, 7)}</span>
+        </span>
+        {profileName && <span>Profile: <span className="font-semibold">{profileName}</span></span>}
+        <span className="text-gray-500 dark:text-gray-400">
+          Generated {new Date(generatedAt).toLocaleString()}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-6 p-3 rounded-md bg-base-200 dark:bg-dark-base-300 text-sm">
+      <a href={repoUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 font-semibold hover:underline">
+        <GitHubIcon className="w-4 h-4" />
+        {describeSourceName(source)}
+      </a>
+      {pullRequest && (
+        <a href={pullRequest.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+          Pull request #{pullRequest.number}
+        </a>
+      )}
+      <span>
+        Ref: <span className="font-mono">{source.ref}</span>
+      </span>
+      <a href={`${repoUrl}/tree/${source.commitSha}`} target="_blank" rel="noopener noreferrer" className="hover:underline">
+        Commit: <span className="font-mono">{source.commitSha.substring(0, 7)}</span>
+      </a>
+      {profileName && <span>Profile: <span className="font-semibold">{profileName}</span></span>}
+      <span className="text-gray-500 dark:text-gray-400">
+        Generated {new Date(generatedAt).toLocaleString()}
+      </span>
+    </div>
+  );
+};
+
+export default ReportHeader;
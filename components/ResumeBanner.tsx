@@ -0,0 +1,52 @@
+
+import React from 'react';
+import { AnalysisCheckpoint } from '../services/checkpoint';
+import { describeSourceName } from '../services/sources';
+
+interface ResumeBannerProps {
+  checkpoint: AnalysisCheckpoint;
+  onResume: () => void;
+  onDiscard: () => void;
+  disabled: boolean;
+}
+
+const describeProgress = (checkpoint: AnalysisCheckpoint): string => {
+  if (!checkpoint.repoData) return 'Nothing was fetched yet.';
+  const total = checkpoint.repoData.codeFiles.length;
+  if (!checkpoint.architecturalSummary) return `${total} files were fetched; the architectural summary was not generated yet.`;
+  return `${checkpoint.fileReviews.length} of ${total} files were reviewed.`;
+};
+
+const ResumeBanner: React.FC<ResumeBannerProps> = ({ checkpoint, onResume, onDiscard, disabled }) => {
+  const source = checkpoint.repoData?.source;
+  const target = source ? describeSourceName(source) : checkpoint.githubUrl;
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-blue-50 dark:bg-blue-900/20 border-l-4 border-brand-secondary p-4 rounded-md" role="status">
+      <div className="text-sm">
+        <p className="font-bold">An interrupted analysis of <span className="font-mono">{target}</span> can be resumed.</p>
+        <p className="text-gray-600 dark:text-gray-400">
+          {describeProgress(checkpoint)} Last saved {new Date(checkpoint.updatedAt).toLocaleString()}.
+        </p>
+      </div>
+      <div className="flex gap-2 shrink-0">
+        <button
+          onClick={onResume}
+          disabled={disabled}
+          className="px-4 py-1.5 bg-brand-secondary hover:bg-brand-primary text-white font-semibold rounded-lg text-sm transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          Resume
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={disabled}
+          className="px-4 py-1.5 border border-base-300 dark:border-dark-base-300 font-semibold rounded-lg text-sm hover:bg-base-200 dark:hover:bg-dark-base-300 transition-colors disabled:opacity-50"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeBanner;
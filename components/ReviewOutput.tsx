@@ -1,13 +1,58 @@
 
 import React from 'react';
+import { SourceLocation, findCitations } from '../services/sources';
 
 interface ReviewOutputProps {
   review: string;
+  // The text is still arriving: show a cursor after it
+  streaming?: boolean;
+  // When set, `path:line` citations become buttons that open the cited lines
+  onCitationClick?: (location: SourceLocation) => void;
 }
 
-const ReviewOutput: React.FC<ReviewOutputProps> = ({ review }) => {
-  // Split the review by code blocks, keeping the delimiters
-  const parts = review.split(/(\`\`\`[\s\S]*?\`\`\`)/g);
+// Only absolute http(s) links are rendered, so model output cannot produce script URLs
+const LINK_PATTERN = /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g;
+
+const renderInline = (text: string, onCitationClick?: (location: SourceLocation) => void): React.ReactNode[] => {
+  const links = Array.from(text.matchAll(LINK_PATTERN), match => ({
+    index: match.index!,
+    length: match[0].length,
+    node: (
+      <a key={match.index} href={match[2]} target="_blank" rel="noopener noreferrer" className="text-brand-secondary hover:underline">
+        {match[1]}
+      </a>
+    ),
+  }));
+  const citations = onCitationClick ? findCitations(text).map(citation => ({
+    index: citation.index,
+    length: citation.text.length,
+    node: (
+      <button
+        key={citation.index}
+        onClick={() => onCitationClick(citation.location)}
+        className="px-1 rounded font-mono text-xs text-brand-secondary bg-base-200 dark:bg-dark-base-100 hover:underline"
+        title="Show the cited lines"
+      >
+        {citation.text.slice(1, -1)}
+      </button>
+    ),
+  })) : [];
+
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  for (const item of [...links, ...citations].sort((a, b) => a.index - b.index)) {
+    // A citation used as the label of a link is part of the link
+    if (item.index < last) continue;
+    nodes.push(text.substring(last, item.index), item.node);
+    last = item.index + item.length;
+  }
+  nodes.push(text.substring(last));
+  return nodes;
+};
+
+const ReviewOutput: React.FC<ReviewOutputProps> = ({ review, streaming = false, onCitationClick }) => {
+  // Split the review by code blocks, keeping the delimiters. While streaming, the last block may not be closed yet.
+  const parts = review.split(/(\`\`\`[\s\S]*?(?:\`\`\`|$))/g);
 
   const renderMarkdownLine = (line: string, key: string | number) => {
     if (line.startsWith('# ')) {
@@ -21,16 +66,16 @@ const ReviewOutput: React.FC<ReviewOutputProps> = ({ review }) => {
     }
     if (line.trim().startsWith('* ')) {
       // Use a list element for bullet points
-      return <li key={key} className="ml-5 list-disc my-1">{line.trim().substring(2)}</li>;
+      return <li key={key} className="ml-5 list-disc my-1">{renderInline(line.trim().substring(2), onCitationClick)}</li>;
     }
      if (line.trim().startsWith('- ')) {
       // Also support hyphens for lists
-      return <li key={key} className="ml-5 list-disc my-1">{line.trim().substring(2)}</li>;
+      return <li key={key} className="ml-5 list-disc my-1">{renderInline(line.trim().substring(2), onCitationClick)}</li>;
     }
     if (line.trim() === '---') {
       return <hr key={key} className="my-6 border-base-300 dark:border-dark-base-300" />;
     }
-    return <p key={key} className="my-2 leading-relaxed">{line}</p>;
+    return <p key={key} className="my-2 leading-relaxed">{renderInline(line, onCitationClick)}</p>;
   };
 
   return (
@@ -54,6 +99,7 @@ const ReviewOutput: React.FC<ReviewOutputProps> = ({ review }) => {
           </div>
         );
       })}
+      {streaming && <span className="inline-block w-2 h-4 align-middle bg-brand-secondary animate-pulse" aria-hidden="true" />}
     </div>
   );
 };
@@ -0,0 +1,42 @@
+
+import React from 'react';
+import { DEFAULT_PROFILE_ID, ReviewProfile } from '../services/reviewProfiles';
+
+interface ReviewProfileSelectProps {
+  profiles: ReviewProfile[];
+  // Empty for the repository's default profile
+  profileId: string;
+  setProfileId: (profileId: string) => void;
+  // From the repository's config file, once it has been loaded
+  repoDefaultId?: string;
+  disabled: boolean;
+}
+
+const ReviewProfileSelect: React.FC<ReviewProfileSelectProps> = ({ profiles, profileId, setProfileId, repoDefaultId, disabled }) => {
+  const effectiveId = profileId || repoDefaultId || DEFAULT_PROFILE_ID;
+  const selected = profiles.find(profile => profile.id === effectiveId);
+  const defaultName = profiles.find(profile => profile.id === (repoDefaultId || DEFAULT_PROFILE_ID))?.name ?? repoDefaultId;
+
+  return (
+    <div className="mt-3 flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+      <label htmlFor="review-profile" className="font-semibold">Review profile</label>
+      <select
+        id="review-profile"
+        value={profileId}
+        onChange={(e) => setProfileId(e.target.value)}
+        disabled={disabled}
+        className="px-3 py-1.5 border border-base-300 dark:border-dark-base-300 rounded-lg bg-base-200 dark:bg-dark-base-100 outline-none focus:ring-2 focus:ring-brand-secondary"
+      >
+        <option value="">Default ({defaultName}{repoDefaultId ? ', from the repository' : ''})</option>
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}{profile.configPath ? ' (repository)' : ''}
+          </option>
+        ))}
+      </select>
+      {selected && <span className="text-xs text-gray-500 dark:text-gray-400">{selected.description}</span>}
+    </div>
+  );
+};
+
+export default ReviewProfileSelect;
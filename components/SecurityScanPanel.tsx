@@ -0,0 +1,120 @@
+
+import React, { useState } from 'react';
+import { SecurityHit, SecurityScanResult } from '../services/securityScan';
+import { SEVERITY_STYLES } from './FindingsTable';
+import ReviewOutput from './ReviewOutput';
+
+interface SecurityScanPanelProps {
+  scan: SecurityScanResult;
+}
+
+const VERDICT_STYLES: Record<string, string> = {
+  confirmed: 'text-red-600 dark:text-red-400',
+  'false-positive': 'text-gray-500 dark:text-gray-400 line-through',
+  'not triaged': 'text-yellow-700 dark:text-yellow-400',
+};
+
+const KIND_LABELS: Record<SecurityHit['kind'], string> = {
+  secret: 'Secret',
+  'risky-api': 'Risky API',
+  dependency: 'Dependency',
+};
+
+const cweUrl = (cwe: string): string | null => {
+  const match = cwe.match(/^CWE-(\d+)$/);
+  return match ? `https://cwe.mitre.org/data/definitions/${match[1]}.html` : null;
+};
+
+const HitDetails: React.FC<{ hit: SecurityHit }> = ({ hit }) => (
+  <div className="p-3 space-y-2 bg-base-200 dark:bg-dark-base-300 text-sm">
+    {hit.triage && <ReviewOutput review={hit.triage.explanation} />}
+    {hit.advisory && (
+      <p>
+        <a href={`https://nvd.nist.gov/vuln/detail/${hit.advisory.id}`} target="_blank" rel="noopener noreferrer" className="text-brand-secondary hover:underline">
+          {hit.advisory.id}
+        </a>
+        {hit.advisory.fixed ? ` · fixed in ${hit.advisory.fixed}` : ' · no fixed version'}
+      </p>
+    )}
+    <pre className="p-2 overflow-x-auto text-xs font-mono bg-base-100 dark:bg-dark-base-100 rounded">{hit.context}</pre>
+  </div>
+);
+
+const SecurityScanPanel: React.FC<SecurityScanPanelProps> = ({ scan }) => {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+  const dismissed = scan.hits.filter(hit => hit.triage?.verdict === 'false-positive').length;
+
+  return (
+    <details className="rounded-lg border border-base-300 dark:border-dark-base-300" open={scan.hits.length > 0}>
+      <summary className="cursor-pointer p-3 font-semibold select-none">
+        Security scan ({scan.hits.length - dismissed} issue(s){dismissed > 0 ? `, ${dismissed} dismissed` : ''})
+      </summary>
+      <div className="px-3 pb-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+          Checked {scan.scannedFiles} files for hard-coded secrets and risky APIs, and {scan.dependencies.length} declared dependencies against the bundled advisory list.
+          Confirmed issues are also listed in the findings above.
+        </p>
+        {scan.triageError && (
+          <p className="mb-2 text-sm text-yellow-700 dark:text-yellow-400">
+            The hits could not be triaged ({scan.triageError}), so all of them are reported.
+          </p>
+        )}
+        {scan.hits.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No secrets, risky APIs or vulnerable dependencies were found.</p>
+        ) : (
+          <div className="overflow-x-auto border border-base-300 dark:border-dark-base-300 rounded-lg">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-base-200 dark:bg-dark-base-300">
+                <tr>
+                  <th className="px-3 py-2">Verdict</th>
+                  <th className="px-3 py-2">Severity</th>
+                  <th className="px-3 py-2">Type</th>
+                  <th className="px-3 py-2">Check</th>
+                  <th className="px-3 py-2">Location</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scan.hits.map((hit, index) => {
+                  const verdict = hit.triage?.verdict ?? 'not triaged';
+                  const url = cweUrl(hit.cwe);
+                  return (
+                    <React.Fragment key={index}>
+                      <tr
+                        onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+                        className="border-t border-base-300 dark:border-dark-base-300 cursor-pointer hover:bg-base-200 dark:hover:bg-dark-base-300"
+                      >
+                        <td className={`px-3 py-2 text-xs font-semibold ${VERDICT_STYLES[verdict]}`}>{verdict}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${SEVERITY_STYLES[hit.severity]}`}>
+                            {hit.severity}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-xs">{KIND_LABELS[hit.kind]}</td>
+                        <td className="px-3 py-2">
+                          {hit.title}
+                          {url ? (
+                            <a href={url} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()} className="ml-2 text-xs font-mono text-brand-secondary hover:underline">
+                              {hit.cwe}
+                            </a>
+                          ) : <span className="ml-2 text-xs font-mono">{hit.cwe}</span>}
+                        </td>
+                        <td className="px-3 py-2 font-mono text-xs break-all">{hit.filePath}:{hit.line}</td>
+                      </tr>
+                      {expandedIndex === index && (
+                        <tr>
+                          <td colSpan={5}><HitDetails hit={hit} /></td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default SecurityScanPanel;
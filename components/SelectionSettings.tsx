@@ -0,0 +1,131 @@
+
+import React from 'react';
+import { DEFAULT_SELECTION_CONFIG, FileSelectionConfig } from '../services/fileSelection';
+import { RepoTreeEntry } from '../services/githubService';
+import { MAX_REVIEW_CONCURRENCY } from '../services/reviewPipeline';
+import FileTreePicker from './FileTreePicker';
+
+interface SelectionSettingsProps {
+  overrides: Partial<FileSelectionConfig>;
+  setOverrides: (overrides: Partial<FileSelectionConfig>) => void;
+  repoTree: RepoTreeEntry[] | null;
+  repoConfigPath: string | null;
+  isLoadingTree: boolean;
+  onBrowseFiles: () => void;
+  concurrency: number;
+  setConcurrency: (concurrency: number) => void;
+  disabled: boolean;
+}
+
+type ListField = 'include' | 'exclude' | 'extraExtensions';
+type NumberField = 'maxFiles' | 'maxTotalBytes' | 'maxTotalTokens';
+
+const LIST_FIELDS: { key: ListField; label: string; placeholder: string }[] = [
+  { key: 'include', label: 'Include globs', placeholder: 'src/**/*.ts, lib/**' },
+  { key: 'exclude', label: 'Exclude globs', placeholder: '**/*.test.ts, **/generated/**' },
+  { key: 'extraExtensions', label: 'Extra extensions', placeholder: '.kt, .swift, .scala' },
+];
+
+const NUMBER_FIELDS: { key: NumberField; label: string }[] = [
+  { key: 'maxFiles', label: 'Max files' },
+  { key: 'maxTotalBytes', label: 'Max total bytes' },
+  { key: 'maxTotalTokens', label: 'Max total tokens' },
+];
+
+const inputClassName = "w-full px-3 py-1.5 border border-base-300 dark:border-dark-base-300 rounded-lg bg-base-200 dark:bg-dark-base-100 text-sm font-mono outline-none focus:ring-2 focus:ring-brand-secondary";
+
+const parseList = (value: string): string[] => value.split(',').map(v => v.trim()).filter(Boolean);
+
+const SelectionSettings: React.FC<SelectionSettingsProps> = ({
+  overrides, setOverrides, repoTree, repoConfigPath, isLoadingTree, onBrowseFiles, concurrency, setConcurrency, disabled
+}) => {
+  const updateField = <K extends keyof FileSelectionConfig>(key: K, value: FileSelectionConfig[K] | undefined) => {
+    const next = { ...overrides };
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    setOverrides(next);
+  };
+
+  const manualSelection = overrides.manualSelection ?? [];
+
+  return (
+    <details className="mt-3">
+      <summary className="cursor-pointer text-sm font-semibold text-brand-secondary select-none">
+        File selection and analysis settings
+        {manualSelection.length > 0 && <span className="ml-2 font-normal text-gray-500">({manualSelection.length} files hand-picked)</span>}
+      </summary>
+      <fieldset disabled={disabled} className="mt-3 space-y-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Leave a field empty to use the repository's <span className="font-mono">.codereview.json</span> (if present) or the built-in default.
+          {repoConfigPath && <> Settings from <span className="font-mono">{repoConfigPath}</span> were found in this repository.</>}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {LIST_FIELDS.map(field => (
+            <label key={field.key} className="text-xs font-semibold">
+              {field.label}
+              <input
+                type="text"
+                defaultValue={(overrides[field.key] ?? []).join(', ')}
+                onBlur={(e) => updateField(field.key, parseList(e.target.value))}
+                placeholder={field.placeholder}
+                className={`${inputClassName} mt-1 font-normal`}
+              />
+            </label>
+          ))}
+          {NUMBER_FIELDS.map(field => (
+            <label key={field.key} className="text-xs font-semibold">
+              {field.label}
+              <input
+                type="number"
+                min={1}
+                value={overrides[field.key] ?? ''}
+                onChange={(e) => updateField(field.key, e.target.value ? Number(e.target.value) : undefined)}
+                placeholder={String(DEFAULT_SELECTION_CONFIG[field.key])}
+                className={`${inputClassName} mt-1 font-normal`}
+              />
+            </label>
+          ))}
+          <label className="text-xs font-semibold">
+            Parallel file reviews
+            <input
+              type="number"
+              min={1}
+              max={MAX_REVIEW_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.min(MAX_REVIEW_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))}
+              className={`${inputClassName} mt-1 font-normal`}
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={onBrowseFiles}
+            disabled={isLoadingTree}
+            className="px-4 py-1.5 border border-brand-secondary text-brand-secondary font-semibold rounded-lg text-sm hover:bg-brand-light dark:hover:bg-dark-base-300 transition-colors disabled:opacity-50"
+          >
+            {isLoadingTree ? 'Loading files...' : repoTree ? 'Reload file tree' : 'Browse and hand-pick files'}
+          </button>
+          {manualSelection.length > 0 && (
+            <button type="button" onClick={() => updateField('manualSelection', undefined)} className="text-xs text-brand-secondary hover:underline">
+              Use automatic selection instead
+            </button>
+          )}
+        </div>
+        {repoTree && (
+          <FileTreePicker
+            files={repoTree}
+            selected={manualSelection}
+            onChange={(selected) => updateField('manualSelection', selected)}
+          />
+        )}
+      </fieldset>
+    </details>
+  );
+};
+
+export default SelectionSettings;
@@ -0,0 +1,96 @@
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { AnalysisSource } from '../services/githubService';
+import { SourceLocation, sourceFileUrl } from '../services/sources';
+import { HighlightKind, highlightSource } from '../services/syntaxHighlight';
+
+interface SourceViewerProps {
+  location: SourceLocation;
+  // Null when the file is neither among the analyzed files nor in the DeepWiki index
+  content: string | null;
+  source: AnalysisSource;
+  onClose: () => void;
+}
+
+const TOKEN_STYLES: Record<HighlightKind, string> = {
+  plain: '',
+  comment: 'text-gray-500 dark:text-gray-400 italic',
+  string: 'text-green-700 dark:text-green-400',
+  keyword: 'text-purple-700 dark:text-purple-400 font-semibold',
+  number: 'text-orange-700 dark:text-orange-400',
+};
+
+const formatRange = ({ startLine, endLine }: SourceLocation): string =>
+  startLine === endLine ? `line ${startLine}` : `lines ${startLine}-${endLine}`;
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ location, content, source, onClose }) => {
+  const lines = useMemo(() => content === null ? [] : highlightSource(location.path, content), [location.path, content]);
+  const firstLineRef = useRef<HTMLDivElement>(null);
+  const url = sourceFileUrl(source, location.path, location.startLine, location.endLine);
+
+  useEffect(() => {
+    firstLineRef.current?.scrollIntoView({ block: 'center' });
+  }, [location]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return (
+    <aside
+      className="fixed inset-y-0 right-0 z-50 w-full max-w-3xl flex flex-col bg-base-100 dark:bg-dark-base-200 border-l border-base-300 dark:border-dark-base-300 shadow-2xl"
+      aria-label="Source viewer"
+    >
+      <div className="flex items-center gap-3 p-3 border-b border-base-300 dark:border-dark-base-300">
+        <div className="flex-grow min-w-0">
+          <p className="font-mono text-sm font-semibold break-all">{location.path}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {formatRange(location)}
+            {url && (
+              <>
+                {' · '}
+                <a href={url} target="_blank" rel="noopener noreferrer" className="text-brand-secondary hover:underline">Open on GitHub</a>
+              </>
+            )}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 border border-base-300 dark:border-dark-base-300 rounded-lg text-sm hover:bg-base-200 dark:hover:bg-dark-base-300"
+        >
+          Close
+        </button>
+      </div>
+      {content === null ? (
+        <p className="p-4 text-sm text-gray-500 dark:text-gray-400">
+          This file was not loaded for the analysis, so it cannot be shown here.{url ? ' It is available on GitHub.' : ''}
+        </p>
+      ) : (
+        <pre className="flex-grow overflow-auto text-xs font-mono py-2">
+          {lines.map((tokens, i) => {
+            const lineNumber = i + 1;
+            const isCited = lineNumber >= location.startLine && lineNumber <= location.endLine;
+            return (
+              <div
+                key={i}
+                ref={lineNumber === location.startLine ? firstLineRef : undefined}
+                className={`px-3 whitespace-pre ${isCited ? 'bg-yellow-100 dark:bg-yellow-900/40' : ''}`}
+              >
+                <span className="inline-block w-12 text-right pr-3 text-gray-400 select-none">{lineNumber}</span>
+                {tokens.map((token, j) => token.kind === 'plain'
+                  ? token.text
+                  : <span key={j} className={TOKEN_STYLES[token.kind]}>{token.text}</span>)}
+              </div>
+            );
+          })}
+        </pre>
+      )}
+    </aside>
+  );
+};
+
+export default SourceViewer;
@@ -1,6 +1,9 @@
 import React, { useEffect, useRef, useState } from 'react';
 import mermaid from 'mermaid';
-import { VisualDocumentationData, ChatMessage } from '../services/geminiService';
+import { VisualDocumentationData, ChatMessage, ChatToolCall, DiagramKey } from '../services/geminiService';
+import { findMermaidError } from '../services/mermaidValidation';
+import { DIAGRAM_SECTIONS, hasDiagram } from '../services/reportExport';
+import { SourceLocation } from '../services/sources';
 import ReviewOutput from './ReviewOutput';
 import SparklesIcon from './icons/SparklesIcon';
 
@@ -8,43 +11,173 @@ interface VisualDocumentationProps {
   docs: VisualDocumentationData;
   messages: ChatMessage[];
   isChatting: boolean;
+  // The answer so far while it streams in
+  streamingReply: string;
+  // Tools called for the answer in progress
+  streamingToolCalls: ChatToolCall[];
+  // What the assistant searches, once the repository is indexed
+  indexSummary: string | null;
   onChatSubmit: (message: string) => void;
+  onStopChat: () => void;
+  // Opens the lines an answer cites
+  onOpenSource: (location: SourceLocation) => void;
+  // Saves a diagram the user edited
+  onDiagramChange: (key: DiagramKey, code: string) => void;
 }
 
-const Diagram: React.FC<{ title: string; mermaidCode: string; id: string }> = ({ title, mermaidCode, id }) => {
-  const ref = useRef<HTMLDivElement>(null);
+interface DiagramProps {
+  title: string;
+  id: string;
+  code: string;
+  // Automatic repair requests made when the model's diagram did not parse
+  repairs?: number;
+  onChange: (code: string) => void;
+}
+
+// Delay before the preview follows an edit, so it does not re-render on every keystroke
+const PREVIEW_DELAY_MS = 300;
+
+const Diagram: React.FC<DiagramProps> = ({ title, id, code, repairs, onChange }) => {
+  const [draft, setDraft] = useState(code);
+  const [isEditing, setIsEditing] = useState(false);
+  // The last draft that was parsed, and its error; the draft is valid when both match
+  const [checked, setChecked] = useState<{ draft: string; error: string | null } | null>(null);
+  const [svg, setSvg] = useState<string | null>(null);
+  const renderCount = useRef(0);
 
   useEffect(() => {
-    if (ref.current && mermaidCode) {
-      mermaid.render(id, mermaidCode)
-        .then(({ svg }) => {
-          if(ref.current) ref.current.innerHTML = svg;
-        })
-        .catch(e => console.error(`Mermaid render error for ${id}:`, e));
-    }
-  }, [mermaidCode, id]);
+    setDraft(code);
+    setIsEditing(false);
+    setChecked(null);
+    setSvg(null);
+  }, [code]);
+
+  useEffect(() => {
+    if (!hasDiagram(draft)) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      let error = await findMermaidError(draft);
+      if (!error) {
+        try {
+          // A fresh id per render, since mermaid keeps a temporary element under it while rendering
+          const result = await mermaid.render(`${id}-${++renderCount.current}`, draft);
+          if (!cancelled) setSvg(result.svg);
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e);
+        }
+      }
+      if (!cancelled) setChecked({ draft, error });
+    }, draft === code ? 0 : PREVIEW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft, code, id]);
 
-  if (!mermaidCode || mermaidCode.trim() === 'graph TD' || mermaidCode.trim() === '') {
+  if (!hasDiagram(code)) {
     return null; // Don't render empty or placeholder diagrams
   }
 
+  const error = checked?.draft === draft ? checked.error : null;
+  const isValid = checked?.draft === draft && checked.error === null;
+  // A diagram that does not parse opens in the editor
+  const showEditor = isEditing || (checked?.draft === code && checked.error !== null);
+
   return (
     <div className="bg-base-100 dark:bg-dark-base-200 p-4 rounded-lg shadow-md mb-6">
-      <h4 className="text-lg font-bold mb-4 text-base-content dark:text-dark-content">{title}</h4>
-      <div ref={ref} className="mermaid-diagram-container flex justify-center items-center overflow-auto">
-        <div id={id} className="mermaid">{mermaidCode}</div>
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h4 className="text-lg font-bold text-base-content dark:text-dark-content">{title}</h4>
+        {!showEditor && (
+          <button onClick={() => setIsEditing(true)} className="text-xs text-brand-secondary hover:underline">
+            Edit source
+          </button>
+        )}
       </div>
+      {repairs !== undefined && repairs > 0 && (
+        <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+          {showEditor && !isEditing
+            ? `The model's diagram still does not parse after ${repairs} repair attempt${repairs === 1 ? '' : 's'}. Fix the source below.`
+            : `The model's diagram did not parse and was repaired automatically (${repairs} attempt${repairs === 1 ? '' : 's'}).`}
+        </p>
+      )}
+      {showEditor && (
+        <div className="mb-4 space-y-2">
+          {error && (
+            <pre className="p-2 text-xs text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 rounded whitespace-pre-wrap break-words">{error}</pre>
+          )}
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            rows={10}
+            spellCheck={false}
+            aria-label={`${title} source`}
+            className="w-full p-2 font-mono text-xs bg-base-200 dark:bg-dark-base-300 border border-base-300 dark:border-dark-base-300 rounded-lg focus:ring-2 focus:ring-brand-secondary focus:outline-none"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange(draft)}
+              disabled={!isValid || draft === code}
+              className="px-4 py-1.5 bg-brand-secondary hover:bg-brand-primary text-white font-semibold rounded-lg text-sm transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Save diagram
+            </button>
+            <button
+              onClick={() => {
+                setDraft(code);
+                setIsEditing(false);
+              }}
+              className="px-4 py-1.5 border border-base-300 dark:border-dark-base-300 rounded-lg text-sm hover:bg-base-200 dark:hover:bg-dark-base-300"
+            >
+              {draft === code ? 'Close' : 'Discard changes'}
+            </button>
+          </div>
+        </div>
+      )}
+      {svg ? (
+        <div
+          className={`mermaid-diagram-container flex justify-center items-center overflow-auto ${error ? 'opacity-50' : ''}`}
+          title={error ? 'Last version that parsed' : undefined}
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      ) : showEditor && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">The preview appears once the diagram parses.</p>
+      )}
     </div>
   );
 };
 
-const VisualDocumentation: React.FC<VisualDocumentationProps> = ({ docs, messages, isChatting, onChatSubmit }) => {
+// e.g. read_file("src/app.ts", 1, 80)
+const formatToolCall = (call: ChatToolCall): string =>
+  `${call.name}(${Object.values(call.args).map(value => JSON.stringify(value)).join(', ')})`;
+
+const ToolCallList: React.FC<{ calls: ChatToolCall[] }> = ({ calls }) => {
+  if (calls.length === 0) return null;
+  return (
+    <ul className="mb-2 space-y-1 text-xs font-mono text-gray-500 dark:text-gray-400">
+      {calls.map((call, i) => (
+        <li key={i} className="break-all">
+          <span aria-hidden="true">&rsaquo; </span>
+          {formatToolCall(call)}
+          {call.summary === undefined
+            ? <span className="italic"> running...</span>
+            : <span className={call.failed ? 'text-red-600 dark:text-red-400' : ''}> &rarr; {call.summary}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const VisualDocumentation: React.FC<VisualDocumentationProps> = ({
+  docs, messages, isChatting, streamingReply, streamingToolCalls, indexSummary, onChatSubmit, onStopChat, onOpenSource,
+  onDiagramChange
+}) => {
   const [newMessage, setNewMessage] = useState('');
+  const trimmedFiles = (docs.contextBudget ?? []).filter(d => d.action === 'truncated' || d.action === 'omitted');
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingReply, streamingToolCalls]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -60,19 +193,35 @@ const VisualDocumentation: React.FC<VisualDocumentationProps> = ({ docs, message
         Visual Documentation & AI Assistant
       </h3>
       
+      {trimmedFiles.length > 0 && (
+        <p className="mb-4 text-sm text-orange-600 dark:text-orange-400">
+          To stay within the prompt budget, these files were truncated or left out of the diagram context:{' '}
+          <span className="font-mono">{trimmedFiles.map(d => `${d.path} (${d.action})`).join(', ')}</span>
+        </p>
+      )}
+
       {/* Diagrams */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
-        <Diagram title="Architecture Diagram" mermaidCode={docs.architectureDiagram} id="mermaid-arch" />
-        <Diagram title="Dependency Graph" mermaidCode={docs.dependencyGraph} id="mermaid-deps" />
-        <Diagram title="Primary Flowchart" mermaidCode={docs.flowchart} id="mermaid-flow" />
-        <Diagram title="Class Diagram" mermaidCode={docs.classDiagram} id="mermaid-class" />
+        {DIAGRAM_SECTIONS.map(({ key, title }) => (
+          <Diagram
+            key={key}
+            title={title}
+            id={`mermaid-${key}`}
+            code={docs[key]}
+            repairs={docs.diagramRepairs?.[key]}
+            onChange={code => onDiagramChange(key, code)}
+          />
+        ))}
       </div>
 
       {/* Chat Assistant */}
       <div className="bg-base-100 dark:bg-dark-base-200 rounded-lg shadow-lg">
         <div className="p-4 border-b border-base-300 dark:border-dark-base-300">
           <h4 className="text-lg font-bold text-base-content dark:text-dark-content">DeepWiki Assistant</h4>
-          <p className="text-sm text-gray-500 dark:text-gray-400">Ask questions about the repository based on the diagrams and analysis.</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Ask questions about the repository. Each question searches the repository's files, the assistant can read more of them as it answers, and answers cite the lines they rely on.
+          </p>
+          {indexSummary && <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">{indexSummary}</p>}
         </div>
         <div className="h-96 flex flex-col">
           <div className="flex-grow p-4 overflow-y-auto space-y-4">
@@ -86,13 +235,26 @@ const VisualDocumentation: React.FC<VisualDocumentationProps> = ({ docs, message
             {messages.map((msg, index) => (
               <div key={index} className={`flex items-end gap-2 ${msg.role === 'user' ? 'justify-end' : ''}`}>
                 <div className={`rounded-lg p-3 max-w-lg ${msg.role === 'user' ? 'bg-brand-secondary text-white' : 'bg-base-200 dark:bg-dark-base-300'}`}>
-                    <ReviewOutput review={msg.parts.map(p => p.text).join('')} />
+                    <ToolCallList calls={msg.toolCalls ?? []} />
+                    <ReviewOutput
+                      review={msg.parts.map(p => p.text).join('')}
+                      onCitationClick={msg.role === 'model' ? onOpenSource : undefined}
+                    />
                 </div>
               </div>
             ))}
-             {isChatting && (
+             {isChatting && streamingReply && (
+                <div className="flex items-end gap-2">
+                    <div className="rounded-lg p-3 max-w-lg bg-base-200 dark:bg-dark-base-300">
+                        <ToolCallList calls={streamingToolCalls} />
+                        <ReviewOutput review={streamingReply} streaming onCitationClick={onOpenSource} />
+                    </div>
+                </div>
+            )}
+             {isChatting && !streamingReply && (
                 <div className="flex items-end gap-2">
-                    <div className="rounded-lg p-3 bg-base-200 dark:bg-dark-base-300">
+                    <div className="rounded-lg p-3 max-w-lg bg-base-200 dark:bg-dark-base-300">
+                        <ToolCallList calls={streamingToolCalls} />
                         <div className="flex items-center gap-2">
                             <div className="w-2 h-2 bg-brand-secondary rounded-full animate-bounce"></div>
                             <div className="w-2 h-2 bg-brand-secondary rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
@@ -113,13 +275,23 @@ const VisualDocumentation: React.FC<VisualDocumentationProps> = ({ docs, message
                 disabled={isChatting}
                 className="flex-grow w-full px-4 py-2 border border-base-300 dark:border-dark-base-300 rounded-lg bg-base-200 dark:bg-dark-base-100 focus:ring-2 focus:ring-brand-secondary focus:border-brand-secondary outline-none transition-colors"
               />
-              <button
-                type="submit"
-                disabled={isChatting || !newMessage.trim()}
-                className="px-6 py-2 bg-brand-secondary hover:bg-blue-600 text-white font-bold rounded-lg shadow-md transition-all duration-300 ease-in-out disabled:bg-gray-400 disabled:cursor-not-allowed"
-              >
-                Send
-              </button>
+              {isChatting ? (
+                <button
+                  type="button"
+                  onClick={onStopChat}
+                  className="px-6 py-2 border border-red-500 text-red-600 dark:text-red-400 font-bold rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!newMessage.trim()}
+                  className="px-6 py-2 bg-brand-secondary hover:bg-blue-600 text-white font-bold rounded-lg shadow-md transition-all duration-300 ease-in-out disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  Send
+                </button>
+              )}
             </form>
           </div>
         </div>
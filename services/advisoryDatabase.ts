@@ -0,0 +1,47 @@
+
+import type { FindingSeverity } from "./geminiService";
+
+export type Ecosystem = 'npm' | 'PyPI' | 'Go' | 'crates.io';
+
+export interface Advisory {
+  id: string;
+  ecosystem: Ecosystem;
+  package: string;
+  // Affected versions: `introduced <= version < fixed`; no `fixed` means every later version
+  introduced?: string;
+  fixed?: string;
+  severity: FindingSeverity;
+  cwe: string;
+  summary: string;
+}
+
+/**
+ * A small bundled set of well-known advisories, so dependency checks work offline and
+ * deterministically. It is not a replacement for a full audit (`npm audit`, `pip-audit`,
+ * `govulncheck`, `cargo audit`); add entries here as needed.
+ */
+export const ADVISORIES: Advisory[] = [
+  // npm
+  { id: 'CVE-2020-8203', ecosystem: 'npm', package: 'lodash', fixed: '4.17.19', severity: 'high', cwe: 'CWE-1321', summary: 'Prototype pollution in zipObjectDeep.' },
+  { id: 'CVE-2021-23337', ecosystem: 'npm', package: 'lodash', fixed: '4.17.21', severity: 'high', cwe: 'CWE-94', summary: 'Command injection through the template function.' },
+  { id: 'CVE-2021-44906', ecosystem: 'npm', package: 'minimist', fixed: '1.2.6', severity: 'critical', cwe: 'CWE-1321', summary: 'Prototype pollution when parsing arguments.' },
+  { id: 'CVE-2020-28168', ecosystem: 'npm', package: 'axios', fixed: '0.21.1', severity: 'medium', cwe: 'CWE-918', summary: 'Server-side request forgery by following redirects to restricted hosts.' },
+  { id: 'CVE-2023-45857', ecosystem: 'npm', package: 'axios', introduced: '0.8.1', fixed: '1.6.0', severity: 'medium', cwe: 'CWE-352', summary: 'The XSRF-TOKEN cookie is sent to every host in request headers.' },
+  { id: 'CVE-2022-0235', ecosystem: 'npm', package: 'node-fetch', fixed: '2.6.7', severity: 'high', cwe: 'CWE-200', summary: 'Cookies and authorization headers are forwarded to third-party hosts on redirect.' },
+  { id: 'CVE-2022-0235', ecosystem: 'npm', package: 'node-fetch', introduced: '3.0.0', fixed: '3.1.1', severity: 'high', cwe: 'CWE-200', summary: 'Cookies and authorization headers are forwarded to third-party hosts on redirect.' },
+  { id: 'CVE-2024-29041', ecosystem: 'npm', package: 'express', fixed: '4.19.2', severity: 'medium', cwe: 'CWE-601', summary: 'Open redirect through malformed URLs passed to res.location and res.redirect.' },
+
+  // PyPI
+  { id: 'CVE-2023-32681', ecosystem: 'PyPI', package: 'requests', introduced: '2.3.0', fixed: '2.31.0', severity: 'medium', cwe: 'CWE-200', summary: 'Proxy-Authorization headers are leaked to destination servers on redirect.' },
+  { id: 'CVE-2020-14343', ecosystem: 'PyPI', package: 'pyyaml', fixed: '5.4', severity: 'critical', cwe: 'CWE-20', summary: 'Arbitrary code execution when loading untrusted YAML with full_load or FullLoader.' },
+  { id: 'CVE-2021-33503', ecosystem: 'PyPI', package: 'urllib3', fixed: '1.26.5', severity: 'high', cwe: 'CWE-1333', summary: 'Regular expression denial of service when parsing URLs with many @ characters.' },
+  { id: 'CVE-2023-30861', ecosystem: 'PyPI', package: 'flask', fixed: '2.2.5', severity: 'high', cwe: 'CWE-539', summary: 'Session cookies may be cached by proxies and shared between clients.' },
+
+  // Go
+  { id: 'CVE-2023-48795', ecosystem: 'Go', package: 'golang.org/x/crypto', fixed: '0.17.0', severity: 'medium', cwe: 'CWE-354', summary: 'SSH prefix truncation attack (Terrapin).' },
+  { id: 'CVE-2023-39325', ecosystem: 'Go', package: 'golang.org/x/net', fixed: '0.17.0', severity: 'high', cwe: 'CWE-400', summary: 'HTTP/2 rapid reset causes excessive server resource use.' },
+  { id: 'CVE-2020-26160', ecosystem: 'Go', package: 'github.com/dgrijalva/jwt-go', severity: 'high', cwe: 'CWE-287', summary: 'Audience checks are bypassed for tokens with an array audience; the module is unmaintained, use github.com/golang-jwt/jwt.' },
+
+  // crates.io
+  { id: 'CVE-2022-24713', ecosystem: 'crates.io', package: 'regex', fixed: '1.5.5', severity: 'high', cwe: 'CWE-1333', summary: 'Denial of service when compiling untrusted regular expressions with many empty repetitions.' },
+];
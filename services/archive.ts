@@ -0,0 +1,144 @@
+
+// Minimal readers for .zip and .tar(.gz) archives, built on the platform's DecompressionStream
+// so they work the same in the browser and in Node.
+
+export interface ArchiveEntry {
+  path: string;
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar.gz', '.tgz', '.tar'];
+
+export const isArchiveName = (name: string): boolean =>
+  ARCHIVE_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+
+const decompress = async (data: Uint8Array, format: 'gzip' | 'deflate-raw'): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// --- ZIP ---
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+const readZip = (data: Uint8Array): ArchiveEntry[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end, followed only by an optional comment of up to 64 KiB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a valid .zip archive.');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) throw new Error('ZIP64 archives are not supported.');
+
+  const entries: ArchiveEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) throw new Error('Corrupt .zip central directory.');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const path = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    entries.push({
+      path,
+      size,
+      read: async () => {
+        if (view.getUint32(localHeader, true) !== ZIP_LOCAL_FILE_HEADER) throw new Error(`Corrupt .zip entry: ${path}`);
+        const start = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+        const raw = data.subarray(start, start + compressedSize);
+        if (method === 0) return raw;
+        if (method === 8) return decompress(raw, 'deflate-raw');
+        throw new Error(`Unsupported compression method ${method} for ${path}.`);
+      },
+    });
+  }
+  return entries;
+};
+
+// --- TAR ---
+
+const TAR_BLOCK_SIZE = 512;
+
+const readTarString = (data: Uint8Array, start: number, length: number): string => {
+  const field = data.subarray(start, start + length);
+  const nul = field.indexOf(0);
+  return new TextDecoder().decode(nul >= 0 ? field.subarray(0, nul) : field);
+};
+
+const readTar = (data: Uint8Array): ArchiveEntry[] => {
+  const entries: ArchiveEntry[] = [];
+  // Long names come in a separate record before the entry they belong to
+  let pendingName: string | null = null;
+
+  for (let offset = 0; offset + TAR_BLOCK_SIZE <= data.length;) {
+    const header = data.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const prefix = readTarString(header, 345, 155);
+    const name = readTarString(header, 0, 100);
+    const contentStart = offset + TAR_BLOCK_SIZE;
+    const content = data.subarray(contentStart, contentStart + size);
+    offset = contentStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (type === 'L') {
+      pendingName = readTarString(content, 0, content.length);
+    } else if (type === 'x') {
+      const match = new TextDecoder().decode(content).match(/^\d+ path=(.*)$/m);
+      if (match) pendingName = match[1];
+    } else if (type === '0' || type === '7') {
+      const path = pendingName ?? (prefix ? `${prefix}/${name}` : name);
+      entries.push({ path, size, read: async () => content });
+      pendingName = null;
+    } else {
+      // Directories, links and global headers carry no file content
+      pendingName = null;
+    }
+  }
+  return entries;
+};
+
+// --- Public API ---
+
+// GitHub and most tools wrap everything in a single top-level folder such as "repo-main/"
+const stripCommonRoot = (entries: ArchiveEntry[]): ArchiveEntry[] => {
+  const roots = new Set(entries.map(e => e.path.split('/')[0]));
+  if (roots.size !== 1 || entries.some(e => !e.path.includes('/'))) return entries;
+  return entries.map(e => ({ ...e, path: e.path.substring(e.path.indexOf('/') + 1) }));
+};
+
+/** Lists the files of a .zip, .tar.gz/.tgz or .tar archive. File contents are decompressed on demand. */
+export const readArchive = async (fileName: string, buffer: ArrayBuffer): Promise<ArchiveEntry[]> => {
+  const name = fileName.toLowerCase();
+  let data = new Uint8Array(buffer);
+  let entries: ArchiveEntry[];
+
+  if (name.endsWith('.zip')) {
+    entries = readZip(data);
+  } else if (name.endsWith('.tar.gz') || name.endsWith('.tgz') || name.endsWith('.tar')) {
+    if (!name.endsWith('.tar')) data = await decompress(data, 'gzip');
+    entries = readTar(data);
+  } else {
+    throw new Error(`Unsupported archive type: ${fileName}. Use ${ARCHIVE_EXTENSIONS.join(', ')}.`);
+  }
+
+  return stripCommonRoot(entries.map(e => ({ ...e, path: e.path.replace(/^\.\//, '') })));
+};
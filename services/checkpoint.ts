@@ -0,0 +1,56 @@
+
+import { FileReview } from "./geminiService";
+import { RepoAnalysisData } from "./githubService";
+import { FileSelectionConfig } from "./fileSelection";
+import { deleteRecord, getRecord, putRecord } from "./storage";
+
+/**
+ * Intermediate results of a repository analysis, saved as each stage completes so an
+ * interrupted or cancelled run can pick up where it stopped. The access token is never stored.
+ */
+export interface AnalysisCheckpoint {
+  githubUrl: string;
+  ref: string;
+  selection: Partial<FileSelectionConfig>;
+  // Review profile id chosen for the run; empty for the repository's default
+  profile?: string;
+  // Also run the security scan (secrets, risky APIs, vulnerable dependencies)
+  securityScan?: boolean;
+  concurrency: number;
+  startedAt: string;
+  updatedAt: string;
+  repoData?: RepoAnalysisData;
+  architecturalSummary?: string;
+  // Only successful reviews; failed files are retried on resume
+  fileReviews: FileReview[];
+}
+
+// Only the most recent run can be resumed
+const CHECKPOINT_KEY = 'current';
+
+// Writes are chained so a slow write can never overwrite a newer checkpoint
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export const loadCheckpoint = async (): Promise<AnalysisCheckpoint | null> => {
+  try {
+    return (await getRecord<AnalysisCheckpoint>('checkpoints', CHECKPOINT_KEY)) ?? null;
+  } catch (error) {
+    console.warn('Could not read the saved analysis checkpoint:', error);
+    return null;
+  }
+};
+
+/** Saves the checkpoint in the background. Failing to save only costs the ability to resume. */
+export const saveCheckpoint = (checkpoint: AnalysisCheckpoint): Promise<void> => {
+  pendingWrite = pendingWrite
+    .then(() => putRecord('checkpoints', CHECKPOINT_KEY, checkpoint))
+    .catch(error => console.warn('Could not save the analysis checkpoint:', error));
+  return pendingWrite;
+};
+
+export const clearCheckpoint = (): Promise<void> => {
+  pendingWrite = pendingWrite
+    .then(() => deleteRecord('checkpoints', CHECKPOINT_KEY))
+    .catch(error => console.warn('Could not delete the analysis checkpoint:', error));
+  return pendingWrite;
+};
@@ -0,0 +1,73 @@
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  content: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses the `patch` field GitHub returns for a pull request file (a unified diff
+ * without the `---`/`+++` file headers) into hunks with old/new line numbers.
+ */
+export const parsePatch = (patch: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const rawLine of patch.split('\n')) {
+    const headerMatch = rawLine.match(HUNK_HEADER_REGEX);
+    if (headerMatch) {
+      current = {
+        header: rawLine,
+        oldStart: parseInt(headerMatch[1], 10),
+        oldLines: headerMatch[2] !== undefined ? parseInt(headerMatch[2], 10) : 1,
+        newStart: parseInt(headerMatch[3], 10),
+        newLines: headerMatch[4] !== undefined ? parseInt(headerMatch[4], 10) : 1,
+        lines: [],
+      };
+      oldLine = current.oldStart;
+      newLine = current.newStart;
+      hunks.push(current);
+      continue;
+    }
+    if (!current || rawLine === '' || rawLine.startsWith('\\')) {
+      // Skip anything before the first hunk, trailing blank lines and "\ No newline at end of file" markers
+      continue;
+    }
+
+    const marker = rawLine.charAt(0);
+    const content = rawLine.substring(1);
+    if (marker === '+') {
+      current.lines.push({ type: 'added', content, oldLine: null, newLine: newLine++ });
+    } else if (marker === '-') {
+      current.lines.push({ type: 'removed', content, oldLine: oldLine++, newLine: null });
+    } else {
+      current.lines.push({ type: 'context', content, oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+
+  return hunks;
+};
+
+/** Renders a hunk back to text, annotating each line with its line number in the new file. */
+export const formatHunkWithLineNumbers = (hunk: DiffHunk): string => {
+  const body = hunk.lines.map(line => {
+    const lineNumber = line.newLine !== null ? String(line.newLine).padStart(4, ' ') : '    ';
+    const marker = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+    return `${lineNumber} ${marker}${line.content}`;
+  });
+  return [hunk.header, ...body].join('\n');
+};
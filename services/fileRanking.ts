@@ -0,0 +1,203 @@
+
+import { CodeFile } from "./githubService";
+import { SelectableFile } from "./fileSelection";
+
+export interface FileScore {
+  path: string;
+  score: number;
+  // Number of analyzed files that import this file
+  fanIn: number;
+  // Number of recent commits that touched this file
+  churn: number;
+  size: number;
+  isEntryPoint: boolean;
+  selected: boolean;
+}
+
+const ENTRY_POINT_NAMES = /^(main|index|app|server|cli|__main__|manage|lib|mod)\.[a-z]+$/i;
+
+// Relative weights of the ranking signals; they sum to 1 so scores fall between 0 and 1.
+const WEIGHTS = {
+  fanIn: 0.45,
+  churn: 0.3,
+  size: 0.1,
+  entryPoint: 0.15,
+};
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+
+// --- Import Extraction ---
+
+const IMPORT_PATTERNS: { extensions: string[]; patterns: RegExp[] }[] = [
+  {
+    extensions: [...JS_EXTENSIONS, '.vue', '.svelte'],
+    patterns: [
+      /(?:import|export)\s+(?:[^'"]*?\s+from\s+)?['"]([^'"]+)['"]/g,
+      /(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+    ],
+  },
+  {
+    extensions: ['.py'],
+    patterns: [
+      /^\s*from\s+([.\w]+)\s+import/gm,
+      /^\s*import\s+([\w.]+)/gm,
+    ],
+  },
+  { extensions: ['.go'], patterns: [/^\s*(?:import\s+)?(?:\w+\s+)?"([^"]+)"\s*$/gm] },
+  { extensions: ['.rs'], patterns: [/^\s*(?:pub\s+)?mod\s+(\w+)\s*;/gm, /^\s*use\s+(crate(?:::\w+)+)/gm] },
+  { extensions: ['.java', '.kt', '.scala'], patterns: [/^\s*import\s+(?:static\s+)?([\w.]+)/gm] },
+  { extensions: ['.rb'], patterns: [/require_relative\s+['"]([^'"]+)['"]/g] },
+  { extensions: ['.php'], patterns: [/(?:require|include)(?:_once)?\s*\(?\s*['"]([^'"]+)['"]/g, /^\s*use\s+([\w\\]+)/gm] },
+  { extensions: ['.css', '.scss'], patterns: [/@import\s+(?:url\()?['"]([^'"]+)['"]/g] },
+];
+
+export const extractImports = (path: string, content: string): string[] => {
+  const language = IMPORT_PATTERNS.find(l => l.extensions.some(ext => path.endsWith(ext)));
+  if (!language) return [];
+  const specifiers: string[] = [];
+  for (const pattern of language.patterns) {
+    for (const match of content.matchAll(pattern)) {
+      specifiers.push(match[1]);
+    }
+  }
+  return specifiers;
+};
+
+
+// --- Import Resolution ---
+
+const dirname = (path: string): string => path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+
+const joinPath = (base: string, relative: string): string => {
+  const parts = base ? base.split('/') : [];
+  for (const part of relative.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  }
+  return parts.join('/');
+};
+
+const findWithExtensions = (base: string, extensions: string[], allPaths: Set<string>): string | null => {
+  const candidates = [
+    base,
+    ...extensions.map(ext => `${base}${ext}`),
+    ...extensions.map(ext => `${base}/index${ext}`),
+  ];
+  return candidates.find(c => allPaths.has(c)) ?? null;
+};
+
+// Matches a module path against the end of repository paths, for languages whose imports are rooted at a source folder.
+const findBySuffix = (suffixes: string[], allPaths: Set<string>): string | null => {
+  for (const path of allPaths) {
+    if (suffixes.some(suffix => path === suffix || path.endsWith(`/${suffix}`))) return path;
+  }
+  return null;
+};
+
+/** Resolves an import specifier to a file in the repository, or null for external packages. */
+export const resolveImport = (fromPath: string, specifier: string, allPaths: Set<string>): string | null => {
+  const fromDir = dirname(fromPath);
+
+  if (JS_EXTENSIONS.some(ext => fromPath.endsWith(ext)) || /\.(vue|svelte|css|scss)$/.test(fromPath)) {
+    if (specifier.startsWith('.')) return findWithExtensions(joinPath(fromDir, specifier), JS_EXTENSIONS, allPaths);
+    // Common root aliases such as "@/components/Foo" or "~/utils"
+    if (/^[@~]\//.test(specifier)) {
+      const bare = specifier.substring(2);
+      return findWithExtensions(bare, JS_EXTENSIONS, allPaths) ?? findWithExtensions(`src/${bare}`, JS_EXTENSIONS, allPaths);
+    }
+    return null;
+  }
+  if (fromPath.endsWith('.py')) {
+    const leadingDots = specifier.match(/^\.*/)![0].length;
+    const modulePath = specifier.substring(leadingDots).replace(/\./g, '/');
+    if (leadingDots > 0) {
+      const base = joinPath(fromDir, '../'.repeat(leadingDots - 1) + modulePath);
+      return findWithExtensions(base, ['.py', '/__init__.py'], allPaths);
+    }
+    return findBySuffix([`${modulePath}.py`, `${modulePath}/__init__.py`], allPaths);
+  }
+  if (fromPath.endsWith('.rs')) {
+    if (specifier.startsWith('crate::')) {
+      const modulePath = specifier.split('::').slice(1, 2).join('/');
+      return findBySuffix([`src/${modulePath}.rs`, `src/${modulePath}/mod.rs`], allPaths);
+    }
+    return findWithExtensions(joinPath(fromDir, specifier), ['.rs', '/mod.rs'], allPaths);
+  }
+  if (/\.(java|kt|scala)$/.test(fromPath)) {
+    const classPath = specifier.replace(/\./g, '/');
+    return findBySuffix([`${classPath}.java`, `${classPath}.kt`, `${classPath}.scala`], allPaths);
+  }
+  if (fromPath.endsWith('.rb')) return findWithExtensions(joinPath(fromDir, specifier), ['.rb'], allPaths);
+  if (fromPath.endsWith('.php')) {
+    if (specifier.includes('\\')) return findBySuffix([`${specifier.replace(/\\/g, '/')}.php`], allPaths);
+    return findWithExtensions(joinPath(fromDir, specifier), [], allPaths);
+  }
+  if (fromPath.endsWith('.go')) {
+    // Go imports name a package directory; credit the first file in it
+    const packageDir = specifier.split('/').slice(-2).join('/');
+    for (const path of allPaths) {
+      if (path.endsWith('.go') && dirname(path).endsWith(packageDir)) return path;
+    }
+  }
+  return null;
+};
+
+
+// --- Graph and Scoring ---
+
+/** Counts, for every repository file, how many of the given files import it. */
+export const computeFanIn = (files: CodeFile[], allPaths: Set<string>): Map<string, number> => {
+  const fanIn = new Map<string, number>();
+  for (const file of files) {
+    const dependencies = new Set(
+      extractImports(file.path, file.content)
+        .map(specifier => resolveImport(file.path, specifier, allPaths))
+        .filter((path): path is string => path !== null && path !== file.path)
+    );
+    dependencies.forEach(dep => fanIn.set(dep, (fanIn.get(dep) ?? 0) + 1));
+  }
+  return fanIn;
+};
+
+export const isEntryPoint = (path: string): boolean => {
+  const name = path.substring(path.lastIndexOf('/') + 1);
+  return ENTRY_POINT_NAMES.test(name) && path.split('/').length <= 3;
+};
+
+/** Scores candidates by fan-in, churn, size and entry-point status, highest first. */
+export const rankFiles = (
+  candidates: SelectableFile[],
+  fanIn: Map<string, number>,
+  churn: Map<string, number>
+): FileScore[] => {
+  // Reduced rather than spread: trees with 100k+ files exceed the argument limit of Math.max
+  const maxOf = (value: (file: SelectableFile) => number): number =>
+    candidates.reduce((max, file) => Math.max(max, value(file)), 1);
+  const maxFanIn = maxOf(f => fanIn.get(f.path) ?? 0);
+  const maxChurn = maxOf(f => churn.get(f.path) ?? 0);
+  // Log scale so a handful of huge generated-looking files do not dominate
+  const maxLogSize = maxOf(f => Math.log1p(f.size));
+
+  return candidates
+    .map(file => {
+      const fileFanIn = fanIn.get(file.path) ?? 0;
+      const fileChurn = churn.get(file.path) ?? 0;
+      const entryPoint = isEntryPoint(file.path);
+      const score =
+        WEIGHTS.fanIn * (fileFanIn / maxFanIn) +
+        WEIGHTS.churn * (fileChurn / maxChurn) +
+        WEIGHTS.size * (Math.log1p(file.size) / maxLogSize) +
+        WEIGHTS.entryPoint * (entryPoint ? 1 : 0);
+      return {
+        path: file.path,
+        score: Math.round(score * 1000) / 1000,
+        fanIn: fileFanIn,
+        churn: fileChurn,
+        size: file.size,
+        isEntryPoint: entryPoint,
+        selected: false,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+};
@@ -0,0 +1,191 @@
+
+import { CHARS_PER_TOKEN } from "./tokenBudget";
+
+export interface FileSelectionConfig {
+  // Glob patterns a code file must match. When empty, the built-in source code heuristic is used.
+  include: string[];
+  exclude: string[];
+  // Additional file extensions to treat as source code, e.g. ".kt" or ".swift"
+  extraExtensions: string[];
+  maxFiles: number;
+  maxTotalBytes: number;
+  maxTotalTokens: number;
+  // Hand-picked file paths. When set, these are reviewed instead of the automatic selection.
+  manualSelection?: string[];
+}
+
+export interface SelectableFile {
+  path: string;
+  size: number;
+}
+
+export const DEFAULT_SELECTION_CONFIG: FileSelectionConfig = {
+  include: [],
+  exclude: [],
+  extraExtensions: [],
+  maxFiles: 5,
+  maxTotalBytes: 250_000,
+  maxTotalTokens: 60_000,
+};
+
+const STRUCTURAL_FILE_PATTERNS = [
+  'package.json', 'tsconfig.json', 'vite.config.ts', 'webpack.config.js',
+  'pom.xml', 'build.gradle', 'pyproject.toml', 'requirements.txt',
+  'composer.json', 'Gemfile', 'go.mod', 'Cargo.toml', '.eslintrc.json'
+];
+
+const CODE_FILE_PRIORITY = [
+    'src/main.ts', 'src/main.js', 'src/index.ts', 'src/index.js',
+    'src/App.tsx', 'src/App.jsx', 'src/app.py', 'src/main.py',
+    'src/server.js', 'src/server.ts', 'lib/main.dart'
+];
+
+const CODE_EXTENSIONS = ['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.go', '.rs', '.rb', '.php', '.html', '.css'];
+
+const NON_CODE_DIRS = ['node_modules', 'dist', 'build', 'docs', 'test', 'tests', 'assets', 'public', '.github', '.vscode'];
+
+
+// --- Glob Matching ---
+
+/**
+ * Converts a glob to a regular expression. Supports `**`, `*`, `?` and `{a,b}`.
+ * Like .gitignore, a pattern without a slash matches the file name in any directory.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  const pattern = glob.includes('/') ? glob.replace(/^\//, '') : `**/${glob}`;
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        regex += '(?:.*/)?';
+        i += 2;
+      } else {
+        regex += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        regex += '\\{';
+        continue;
+      }
+      const options = pattern.substring(i + 1, end).split(',').map(o => o.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+      regex += `(?:${options.join('|')})`;
+      i = end;
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`);
+};
+
+export const matchesAnyGlob = (path: string, globs: string[]): boolean =>
+  globs.some(glob => globToRegExp(glob).test(path));
+
+
+// --- File Classification ---
+
+export const isCodeFile = (path: string, extraExtensions: string[] = []): boolean => {
+    // A simple heuristic to identify source code vs. config, docs, assets, etc.
+    if (NON_CODE_DIRS.some(dir => path.includes(`/${dir}/`)) || NON_CODE_DIRS.some(dir => path.startsWith(`${dir}/`))) {
+        return false;
+    }
+    const extensions = [...CODE_EXTENSIONS, ...extraExtensions.map(ext => ext.startsWith('.') ? ext : `.${ext}`)];
+    return extensions.some(ext => path.endsWith(ext));
+};
+
+const isCandidateCodeFile = (path: string, config: FileSelectionConfig): boolean => {
+    if (matchesAnyGlob(path, config.exclude)) return false;
+    // Explicit include patterns take over from the heuristic, so e.g. "tests/**" can be reviewed
+    return config.include.length > 0
+        ? matchesAnyGlob(path, config.include)
+        : isCodeFile(path, config.extraExtensions);
+};
+
+export const isStructuralFile = (path: string): boolean => STRUCTURAL_FILE_PATTERNS.includes(path);
+
+
+// --- Selection ---
+
+const comparePriority = (a: string, b: string): number => {
+    const aPrio = CODE_FILE_PRIORITY.indexOf(a);
+    const bPrio = CODE_FILE_PRIORITY.indexOf(b);
+    if (aPrio === -1 && bPrio === -1) return a.localeCompare(b); // Alphabetical for non-priority
+    if (aPrio === -1) return 1;
+    if (bPrio === -1) return -1;
+    return aPrio - bPrio;
+};
+
+/** Takes files in order until the file count, byte or token budget would be exceeded. */
+export const applyBudget = <T extends SelectableFile>(files: T[], config: FileSelectionConfig): T[] => {
+    const selected: T[] = [];
+    let totalBytes = 0;
+    for (const file of files) {
+        if (selected.length >= config.maxFiles) break;
+        const nextTotal = totalBytes + file.size;
+        if (nextTotal > config.maxTotalBytes || nextTotal / CHARS_PER_TOKEN > config.maxTotalTokens) {
+            // Skip this file but keep looking for smaller ones that still fit
+            continue;
+        }
+        selected.push(file);
+        totalBytes = nextTotal;
+    }
+    return selected;
+};
+
+export const selectFilesForAnalysis = (
+    fileList: SelectableFile[],
+    config: FileSelectionConfig = DEFAULT_SELECTION_CONFIG
+): { structural: string[], code: string[] } => {
+    const structural = fileList
+        .filter(f => isStructuralFile(f.path) && !matchesAnyGlob(f.path, config.exclude))
+        .map(f => f.path);
+
+    if (config.manualSelection && config.manualSelection.length > 0) {
+        const available = new Set(fileList.map(f => f.path));
+        return { structural, code: config.manualSelection.filter(path => available.has(path)) };
+    }
+
+    return { structural, code: applyBudget(selectCandidateFiles(fileList, config), config).map(f => f.path) };
+};
+
+/** All files eligible for review under the config, entry points first, before any budget is applied. */
+export const selectCandidateFiles = <T extends SelectableFile>(fileList: T[], config: FileSelectionConfig): T[] =>
+    fileList
+        .filter(f => isCandidateCodeFile(f.path, config))
+        .sort((a, b) => comparePriority(a.path, b.path));
+
+
+// --- Configuration ---
+
+const toStringArray = (value: unknown): string[] | undefined =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+
+// All the numeric fields are counts (files, bytes, tokens), so fractions are rejected like the CLI flags
+const toPositiveInteger = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+
+/** Validates a user-supplied selection config (e.g. from .codereview.json), dropping unknown or malformed fields. */
+export const parseSelectionConfig = (raw: unknown): Partial<FileSelectionConfig> => {
+    if (!raw || typeof raw !== 'object') return {};
+    const value = raw as Record<string, unknown>;
+    const parsed: Partial<FileSelectionConfig> = {
+        include: toStringArray(value.include),
+        exclude: toStringArray(value.exclude),
+        extraExtensions: toStringArray(value.extraExtensions),
+        maxFiles: toPositiveInteger(value.maxFiles),
+        maxTotalBytes: toPositiveInteger(value.maxTotalBytes),
+        maxTotalTokens: toPositiveInteger(value.maxTotalTokens),
+        manualSelection: toStringArray(value.manualSelection),
+    };
+    return Object.fromEntries(Object.entries(parsed).filter(([, v]) => v !== undefined));
+};
+
+/** Layers selection configs on top of the defaults; later configs win field by field. */
+export const resolveSelectionConfig = (...layers: (Partial<FileSelectionConfig> | undefined)[]): FileSelectionConfig =>
+    layers.reduce<FileSelectionConfig>((config, layer) => ({ ...config, ...layer }), DEFAULT_SELECTION_CONFIG);
@@ -0,0 +1,118 @@
+
+import { FunctionCall, GenerateContentResponse, GoogleGenAI, Part } from "@google/genai";
+import type { GroundingSource } from "./geminiService";
+import type { LlmChatReply, LlmProvider, LlmToolCall, LlmToolResult } from "./llmProvider";
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so the app (and the mock provider) work without a Gemini key
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) throw new Error("API_KEY environment variable not set.");
+    client = new GoogleGenAI({ apiKey });
+  }
+  return client;
+};
+
+const toGroundingSources = (response: GenerateContentResponse): GroundingSource[] =>
+  (response.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+    .filter(chunk => chunk.web && chunk.web.uri && chunk.web.title)
+    .map(chunk => ({
+      web: {
+        uri: chunk.web!.uri!,
+        title: chunk.web!.title!,
+      },
+    }));
+
+// Accumulates a streamed response, reporting the text so far after every chunk
+const collectStream = async (
+  stream: AsyncIterable<GenerateContentResponse>,
+  onText: (text: string) => void
+): Promise<string> => {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk.text ?? '';
+    onText(text);
+  }
+  return text;
+};
+
+// Reads the text parts directly: `response.text` warns when the response also calls functions
+const textOf = (response: GenerateContentResponse): string =>
+  (response.candidates?.[0]?.content?.parts ?? [])
+    .filter(part => part.text && !part.thought)
+    .map(part => part.text)
+    .join('');
+
+const toToolCalls = (calls: FunctionCall[]): LlmToolCall[] =>
+  calls.map(call => ({ id: call.id ?? '', name: call.name ?? '', args: call.args ?? {} }));
+
+const toFunctionResponse = (result: LlmToolResult): Part => ({
+  functionResponse: { ...(result.id ? { id: result.id } : {}), name: result.name, response: { output: result.output } },
+});
+
+// Like `collectStream`, but keeps the function calls, which arrive in their own chunks
+const collectChatStream = async (
+  stream: AsyncIterable<GenerateContentResponse>,
+  onText: (text: string) => void
+): Promise<LlmChatReply> => {
+  let text = '';
+  const calls: FunctionCall[] = [];
+  for await (const chunk of stream) {
+    text += textOf(chunk);
+    calls.push(...(chunk.functionCalls ?? []));
+    onText(text);
+  }
+  return { text, toolCalls: toToolCalls(calls) };
+};
+
+export const geminiProvider: LlmProvider = {
+  label: 'Gemini',
+
+  generateText: async ({ model, prompt, signal, onText }) => {
+    const params = { model, contents: prompt, config: { abortSignal: signal } };
+    if (onText) return collectStream(await getClient().models.generateContentStream(params), onText);
+    const response = await getClient().models.generateContent(params);
+    return response.text ?? '';
+  },
+
+  generateJson: async ({ model, prompt, schema, signal, onText }) => {
+    const params = {
+      model,
+      contents: prompt,
+      config: { responseMimeType: "application/json", responseSchema: schema, abortSignal: signal },
+    };
+    if (onText) return collectStream(await getClient().models.generateContentStream(params), onText);
+    const response = await getClient().models.generateContent(params);
+    return response.text ?? '';
+  },
+
+  startChat: ({ model, systemInstruction, history, tools }) => {
+    const chat = getClient().chats.create({
+      model,
+      config: { systemInstruction, ...(tools?.length ? { tools: [{ functionDeclarations: tools }] } : {}) },
+      history: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+    });
+    return {
+      sendMessage: async ({ message, signal, onText }) => {
+        const params = {
+          message: typeof message === 'string' ? message : message.map(toFunctionResponse),
+          config: { abortSignal: signal },
+        };
+        if (onText) return collectChatStream(await chat.sendMessageStream(params), onText);
+        const response = await chat.sendMessage(params);
+        return { text: textOf(response), toolCalls: toToolCalls(response.functionCalls ?? []) };
+      },
+    };
+  },
+
+  groundedSearch: async ({ model, prompt, signal }) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: prompt,
+      config: { tools: [{ googleSearch: {} }], abortSignal: signal },
+    });
+    return { text: response.text ?? '', sources: toGroundingSources(response) };
+  },
+};
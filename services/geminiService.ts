@@ -1,15 +1,21 @@
 
-import { GoogleGenAI, GenerateContentResponse, Type, Chat, Part, Content } from "@google/genai";
-import { CodeFile, RepoAnalysisData } from "./githubService";
-
-const API_KEY = process.env.API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-const model = "gemini-2.5-flash";
+import { Type, Part, Schema } from "@google/genai";
+import { CodeFile, RepoAnalysisData, PullRequestFile, PullRequestInfo } from "./githubService";
+import { DiffHunk, formatHunkWithLineNumbers } from "./diffParser";
+import {
+    BudgetDecision, PROMPT_BUDGETS, chunkFile, estimateTokens, fitFilesToBudget
+} from "./tokenBudget";
+import { RequestOptions, createConcurrencyLimiter, isAbortError, withRetry } from "./requestLayer";
+import {
+    LlmChatSession, LlmChatTurn, LlmProvider, LlmSettings, LlmTask, LlmToolCall, LlmToolResult, getLlmSettings, getProvider,
+    resolveModel
+} from "./llmProvider";
+import { RepoIndex, RetrievedChunk, searchRepoIndex } from "./repoIndex";
+import type { RepoTools } from "./repoTools";
+import { CachedResult, hashKey, withCache } from "./responseCache";
+import type { ReviewProfile } from "./reviewProfiles";
+import { SecurityHit, SecurityScanResult, TriageVerdict, toReviewFindings } from "./securityScan";
+import { FileMetrics, formatMetricsForPrompt } from "./staticAnalysis";
 
 // --- Interfaces ---
 export interface GroundingSource {
@@ -29,32 +35,198 @@ export interface VisualDocumentationData {
     dependencyGraph: string;
     flowchart: string;
     classDiagram: string;
+    // How each file was fitted into the prompt; not part of the model response
+    contextBudget?: BudgetDecision[];
+    // Repair requests made for diagrams that failed to parse; not part of the model response
+    diagramRepairs?: Partial<Record<DiagramKey, number>>;
+}
+
+export type DiagramKey = 'architectureDiagram' | 'dependencyGraph' | 'flowchart' | 'classDiagram';
+
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+export type FindingCategory =
+    'bug' | 'security' | 'performance' | 'style' | 'maintainability' | 'architecture' | 'documentation' | 'accessibility';
+
+export const FINDING_SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export const FINDING_CATEGORIES: FindingCategory[] = [
+    'bug', 'security', 'performance', 'style', 'maintainability', 'architecture', 'documentation', 'accessibility'
+];
+
+export interface ReviewFinding {
+    filePath: string;
+    startLine: number;
+    endLine: number;
+    severity: FindingSeverity;
+    category: FindingCategory;
+    title: string;
+    explanation: string;
+    suggestedFix: string;
+    hunkHeader?: string;
+    // Set for findings of the security scan, e.g. "CWE-79"
+    cwe?: string;
+}
+
+export interface FileReview {
+    path: string;
+    status: 'completed' | 'failed';
+    // Set when the review failed; the rest of the analysis carries on without this file
+    error?: string;
+    summary: string;
+    findings: ReviewFinding[];
+    budget: BudgetDecision;
+    // Every model response for this review came from the response cache
+    fromCache?: boolean;
+    // Static analysis of the whole file; absent in reviews saved before it existed
+    metrics?: FileMetrics;
+}
+
+export interface FinalReport {
+    generatedAt: string;
+    // The review profile the report was produced with; absent in reports saved before profiles existed
+    profile?: { id: string; name: string };
+    summary: string;
+    findings: ReviewFinding[];
+    fileReviews: FileReview[];
+    securityScan?: SecurityScanResult;
+}
+
+/** A tool the DeepWiki assistant called while answering, as shown in the transcript. */
+export interface ChatToolCall {
+    name: string;
+    args: Record<string, unknown>;
+    // Absent while the call runs
+    summary?: string;
+    failed?: boolean;
 }
 
 export interface ChatMessage {
     role: 'user' | 'model';
     parts: Part[];
+    // Tools the model called before answering; absent in analyses saved before the assistant had tools
+    toolCalls?: ChatToolCall[];
 }
 
 // --- Helper Functions ---
 
-const callGeminiWithRetry = async (prompt: string, isJson: boolean = false): Promise<any> => {
-   try {
-    const config = isJson ? { responseMimeType: "application/json" } : {};
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config
-    });
-    return isJson ? JSON.parse(response.text) : response.text;
+// Upper bound on model requests in flight across the whole app
+const MAX_CONCURRENT_REQUESTS = 8;
+
+const limitConcurrency = createConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+
+export interface StreamingRequestOptions extends RequestOptions {
+  // Streams the response; called with the text received so far. A retry starts the text over.
+  onText?: (text: string) => void;
+}
+
+/**
+ * Runs a request against the configured provider through the shared concurrency limiter, with
+ * per-attempt timeouts, retries with backoff for rate limits and server errors, and cancellation
+ * via `options.signal`. The provider and model are resolved per call, so settings changes apply
+ * to the next request.
+ */
+const runLlmRequest = async <T>(
+    task: LlmTask,
+    request: (provider: LlmProvider, model: string, signal: AbortSignal) => Promise<T>,
+    options: RequestOptions = {}
+): Promise<T> => {
+  const provider = getProvider();
+  const model = resolveModel(task);
+  try {
+    return await limitConcurrency(() => withRetry(signal => request(provider, model, signal), options));
   } catch (error) {
-    console.error("Error calling Gemini API:", error);
+    if (isAbortError(error)) throw error;
+    console.error(`Error calling ${provider.label} API:`, error);
     if (error instanceof Error) {
-        throw new Error(`Gemini API Error: ${error.message}`);
+        throw new Error(`${provider.label} API Error: ${error.message}`);
     }
-    throw new Error("An unexpected error occurred while communicating with the Gemini API.");
+    throw new Error(`An unexpected error occurred while communicating with the ${provider.label} API.`);
   }
-}
+};
+
+/**
+ * Runs a text or JSON request, answering from the response cache when the same prompt was sent
+ * to the same provider and model before. Malformed JSON is rejected before it can be cached.
+ * `cacheIdentity` replaces the prompt in the cache key, for prompts that embed context which
+ * should not invalidate the response when it changes.
+ */
+const callLlmCached = async (
+    task: LlmTask,
+    prompt: string,
+    isJson: boolean = false,
+    responseSchema?: Schema,
+    options: StreamingRequestOptions = {},
+    cacheIdentity?: string[]
+): Promise<CachedResult<any>> => {
+    const { onText } = options;
+    const settings = getLlmSettings();
+    const key = await hashKey(
+        settings.provider,
+        settings.provider === 'openai' ? settings.baseUrl : '',
+        resolveModel(task),
+        task,
+        responseSchema && isJson ? JSON.stringify(responseSchema) : '',
+        ...(cacheIdentity ?? [prompt])
+    );
+    const result = await withCache('llm', key, async () => {
+        const text = await runLlmRequest(task, (provider, model, signal) => isJson && responseSchema
+            ? provider.generateJson({ task, model, prompt, schema: responseSchema, signal, onText })
+            : provider.generateText({ task, model, prompt, signal, onText }), options);
+        if (!isJson) return text;
+        try {
+            return JSON.parse(text);
+        } catch {
+            throw new Error(`${getProvider().label} API Error: The model returned malformed JSON.`);
+        }
+    });
+    // A cached response arrives all at once
+    if (result.fromCache) onText?.(isJson ? JSON.stringify(result.value) : result.value);
+    return result;
+};
+
+const callLlmWithRetry = async (
+    task: LlmTask,
+    prompt: string,
+    isJson: boolean = false,
+    responseSchema?: Schema,
+    options: StreamingRequestOptions = {}
+): Promise<any> => (await callLlmCached(task, prompt, isJson, responseSchema, options)).value;
+
+const severityRank = (severity: FindingSeverity): number => FINDING_SEVERITIES.indexOf(severity);
+
+export const sortFindingsBySeverity = (findings: ReviewFinding[]): ReviewFinding[] =>
+    [...findings].sort((a, b) =>
+        severityRank(a.severity) - severityRank(b.severity)
+        || a.filePath.localeCompare(b.filePath)
+        || a.startLine - b.startLine
+    );
+
+// Prefix each line with its 1-based number so the model can report accurate line ranges.
+export const withLineNumbers = (content: string, firstLine: number = 1): string =>
+    content.split('\n').map((line, i) => `${String(i + firstLine).padStart(4, ' ')} | ${line}`).join('\n');
+
+// Characters `withLineNumbers` adds to each line of a file with this many lines
+const lineNumberOverhead = (lineCount: number): number => Math.max(4, String(lineCount).length) + ' | '.length;
+
+// File reviews send the code with line numbers, so the budget is checked on that text
+const estimateReviewTokens = (content: string): number => estimateTokens(withLineNumbers(content));
+
+// Profile-specific part of the review prompts: focus, categories and how to grade severity.
+const formatProfileGuidance = (profile: ReviewProfile): string => {
+    const lines = [profile.instructions];
+    if (profile.focusCategories.length < FINDING_CATEGORIES.length) {
+        lines.push(`Concentrate on findings in these categories: ${profile.focusCategories.join(', ')}. Only report other issues when they are high or critical.`);
+    }
+    lines.push('Grade severity as follows:');
+    lines.push(...FINDING_SEVERITIES.map(severity => `- ${severity}: ${profile.severityRubric[severity]}`));
+    return lines.join('\n');
+};
+
+// Measured facts about the file, so comments on complexity, length or duplication cite real numbers.
+const formatStaticAnalysis = (metrics?: FileMetrics): string => metrics
+    ? `\nStatic analysis of the whole file (computed by a parser, not estimated). Base any claim about size, complexity, nesting, markers or duplication on these numbers and quote them:\n${formatMetricsForPrompt(metrics)}\n`
+    : '';
 
 // --- Core Analysis Functions ---
 
@@ -62,61 +234,473 @@ const ARCHITECTURE_PROMPT_TEMPLATE = `
 You are a principal software architect. Based on the file contents of these configuration and package management files, provide a concise summary of the project's architecture.
 Identify the primary language, framework, key libraries, and their roles. Describe the likely purpose and structure of the application.
 The summary should be dense and technical, intended for another engineer. Do not offer suggestions, only analyze.
+It is context for a "{{PROFILE_NAME}}" review ({{PROFILE_DESCRIPTION}}), so mention anything relevant to that focus.
 Format the output as clean markdown.
 
 Files:
 {{FILES_CONTENT}}
 `;
 
-export const generateArchitecturalSummary = async (structuralFiles: CodeFile[]): Promise<string> => {
+export const generateArchitecturalSummary = async (
+    structuralFiles: CodeFile[],
+    profile: ReviewProfile,
+    options: StreamingRequestOptions = {}
+): Promise<string> => {
     if (structuralFiles.length === 0) {
         return "No structural files (like package.json) were found to determine the project's architecture.";
     }
-    const filesContent = structuralFiles.map(file => `--- File: ${file.path} ---\n${file.content}`).join('\n\n');
-    const prompt = ARCHITECTURE_PROMPT_TEMPLATE.replace('{{FILES_CONTENT}}', filesContent);
-    return callGeminiWithRetry(prompt);
+    const { files } = fitFilesToBudget(structuralFiles, PROMPT_BUDGETS.architecture);
+    const filesContent = files.map(file => `--- File: ${file.path} ---\n${file.content}`).join('\n\n');
+    let prompt = ARCHITECTURE_PROMPT_TEMPLATE.replace('{{PROFILE_NAME}}', profile.name);
+    prompt = prompt.replace('{{PROFILE_DESCRIPTION}}', profile.description);
+    prompt = prompt.replace('{{FILES_CONTENT}}', filesContent);
+    return callLlmWithRetry('summary', prompt, false, undefined, options);
 };
 
 
+const FINDING_PROPERTIES: Record<string, Schema> = {
+  startLine: { type: Type.INTEGER, description: "First line (1-based) the finding refers to." },
+  endLine: { type: Type.INTEGER, description: "Last line (1-based, inclusive) the finding refers to." },
+  severity: { type: Type.STRING, format: "enum", enum: FINDING_SEVERITIES },
+  category: { type: Type.STRING, format: "enum", enum: FINDING_CATEGORIES },
+  title: { type: Type.STRING, description: "A one-line headline for the finding." },
+  explanation: { type: Type.STRING, description: "Why this is a problem, in Markdown." },
+  suggestedFix: { type: Type.STRING, description: "A concrete fix, optionally with a code snippet. Empty string if none." },
+};
+
+const buildReviewSchema = (extraFindingProperties: Record<string, Schema> = {}): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: "A short Markdown paragraph describing the file's role and overall quality.",
+    },
+    findings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { ...FINDING_PROPERTIES, ...extraFindingProperties },
+        required: [...Object.keys(FINDING_PROPERTIES), ...Object.keys(extraFindingProperties)],
+      },
+    },
+  },
+  required: ["summary", "findings"],
+});
+
+const FILE_REVIEW_SCHEMA = buildReviewSchema();
+
 const FILE_REVIEW_PROMPT_TEMPLATE = `
-As a senior engineer, review the following code file. Your review must be informed by the project's overall architecture, provided below for context.
+As {{REVIEWER}}, review the following code file. Your review must be informed by the project's overall architecture, provided below for context.
 Focus on how this specific file adheres to or deviates from the architectural patterns, its specific role, and any potential integration issues.
-Also cover standard code quality aspects like bugs, readability, and best practices.
-Provide your feedback in well-structured Markdown format. Use headings (e.g., '### Bugs and Errors'), bullet points (using '*'), and code blocks.
+{{PROFILE_GUIDANCE}}
+Report each issue as a separate finding with the line range it applies to, a severity and a category. Line numbers are shown in the left margin of the code.
+Only report real, actionable issues; an empty findings list is acceptable for a clean file.
+The output must be a valid JSON object matching the specified schema.
 
 Architectural Context:
 ---
 {{ARCHITECTURAL_SUMMARY}}
 ---
-
+{{STATIC_ANALYSIS}}{{CHUNK_NOTE}}
 Code File to Review (Path: {{FILE_PATH}}):
 \`\`\`
 {{CODE}}
 \`\`\`
 `;
 
-export const reviewFileWithContext = async (file: CodeFile, architecturalSummary: string): Promise<string> => {
-    let prompt = FILE_REVIEW_PROMPT_TEMPLATE.replace('{{ARCHITECTURAL_SUMMARY}}', architecturalSummary);
-    prompt = prompt.replace('{{FILE_PATH}}', file.path);
-    prompt = prompt.replace('{{CODE}}', file.content);
-    return callGeminiWithRetry(prompt);
+interface RawFileReview<F = Omit<ReviewFinding, 'filePath'>> {
+    summary: string;
+    findings: F[];
+}
+
+// Matches a JSON string property; the closing quote is optional so a value can be read while it streams in
+const jsonStringProperty = (name: string) => new RegExp(`"${name}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)(")?`, 'g');
+
+const decodeJsonString = (raw: string): string => {
+    try {
+        // Drop an escape sequence cut off at the end of the stream
+        return JSON.parse(`"${raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '')}"`);
+    } catch {
+        return raw;
+    }
+};
+
+/**
+ * Turns the partial JSON of a streaming review into readable markdown: the summary so far,
+ * followed by the title of every finding received completely.
+ */
+const previewStreamedReview = (json: string): string => {
+    const summary = jsonStringProperty('summary').exec(json);
+    const titles = Array.from(json.matchAll(jsonStringProperty('title')))
+        .filter(match => match[2])
+        .map(match => `- ${decodeJsonString(match[1])}`);
+    return [summary ? decodeJsonString(summary[1]) : '', ...titles].join('\n');
+};
+
+// Prefixes the preview of the part being reviewed with the summaries of the parts already done
+const streamReviewPreview = (options: StreamingRequestOptions, done: string[]): StreamingRequestOptions => {
+    const { onText } = options;
+    return onText
+        ? { ...options, onText: json => onText([...done, previewStreamedReview(json)].join('\n\n')) }
+        : options;
+};
+
+// The architectural summary and the duplicates shared with other files are left out, so editing one
+// file (which may change the summary or another file's duplicates) only re-reviews that file
+const fileReviewIdentity = (
+    path: string,
+    content: string,
+    firstLine: number,
+    chunkNote: string,
+    profile: ReviewProfile,
+    metrics: FileMetrics | undefined
+): string[] => {
+    const ownMetrics = metrics && { ...metrics, duplicates: metrics.duplicates.filter(block => block.otherPath === path) };
+    return ['fileReview', FILE_REVIEW_PROMPT_TEMPLATE, path, String(firstLine), chunkNote, JSON.stringify(profile), JSON.stringify(ownMetrics ?? null), content];
+};
+
+const reviewChunk = async (
+    path: string,
+    content: string,
+    firstLine: number,
+    chunkNote: string,
+    architecturalSummary: string,
+    profile: ReviewProfile,
+    metrics: FileMetrics | undefined,
+    options: StreamingRequestOptions
+): Promise<CachedResult<RawFileReview>> => {
+    let prompt = FILE_REVIEW_PROMPT_TEMPLATE.replace('{{REVIEWER}}', profile.reviewer);
+    prompt = prompt.replace('{{PROFILE_GUIDANCE}}', formatProfileGuidance(profile));
+    prompt = prompt.replace('{{ARCHITECTURAL_SUMMARY}}', architecturalSummary);
+    prompt = prompt.replace('{{STATIC_ANALYSIS}}', formatStaticAnalysis(metrics));
+    prompt = prompt.replace('{{CHUNK_NOTE}}', chunkNote);
+    prompt = prompt.replace('{{FILE_PATH}}', path);
+    prompt = prompt.replace('{{CODE}}', withLineNumbers(content, firstLine));
+    return callLlmCached('fileReview', prompt, true, FILE_REVIEW_SCHEMA, options, fileReviewIdentity(path, content, firstLine, chunkNote, profile, metrics));
+};
+
+/**
+ * Reviews a file in one prompt, or, when it exceeds the file review budget, in chunks
+ * split at function/class boundaries whose findings are merged into a single review.
+ * `options.onText` receives a markdown preview of the review rather than the raw JSON.
+ */
+export const reviewFileWithContext = async (
+    file: CodeFile,
+    architecturalSummary: string,
+    profile: ReviewProfile,
+    metrics?: FileMetrics,
+    options: StreamingRequestOptions = {}
+): Promise<FileReview> => {
+    const estimatedTokens = estimateReviewTokens(file.content);
+
+    if (estimatedTokens <= PROMPT_BUDGETS.fileReview) {
+        const { value: raw, fromCache } = await reviewChunk(file.path, file.content, 1, '', architecturalSummary, profile, metrics, streamReviewPreview(options, []));
+        return {
+            path: file.path,
+            status: 'completed',
+            summary: raw.summary,
+            findings: (raw.findings || []).map(finding => ({ ...finding, filePath: file.path })),
+            budget: { path: file.path, estimatedTokens, action: 'full' },
+            fromCache,
+            metrics,
+        };
+    }
+
+    const chunks = chunkFile(file, PROMPT_BUDGETS.fileReview, lineNumberOverhead(file.content.split('\n').length));
+    const summaries: string[] = [];
+    const findings: ReviewFinding[] = [];
+    let fromCache = true;
+    for (let i = 0; i < chunks.length; i++) {
+        const chunk = chunks[i];
+        const chunkNote = `\nThis file is too large for a single review. This is part ${i + 1} of ${chunks.length} (lines ${chunk.startLine}-${chunk.endLine}); the other parts are reviewed separately. Only report issues within these lines.\n`;
+        const { value: raw, fromCache: chunkFromCache } = await reviewChunk(file.path, chunk.content, chunk.startLine, chunkNote, architecturalSummary, profile, metrics, streamReviewPreview(options, summaries));
+        fromCache &&= chunkFromCache;
+        summaries.push(`**Lines ${chunk.startLine}-${chunk.endLine}:** ${raw.summary}`);
+        findings.push(...(raw.findings || []).map(finding => ({ ...finding, filePath: file.path })));
+    }
+    return {
+        path: file.path,
+        status: 'completed',
+        summary: summaries.join('\n\n'),
+        findings,
+        budget: { path: file.path, estimatedTokens, action: 'chunked', detail: chunks.length },
+        fromCache,
+        metrics,
+    };
+};
+
+const HUNK_REVIEW_SCHEMA = buildReviewSchema({
+  hunkIndex: { type: Type.INTEGER, description: "0-based index of the hunk this comment belongs to." },
+});
+
+const HUNK_REVIEW_PROMPT_TEMPLATE = `
+As {{REVIEWER}}, review the changes a pull request makes to the file below. Your review must be informed by the project's overall architecture, provided below for context.
+Only comment on the changed lines (marked with '+' or '-') and on how they interact with the surrounding code. Do not review untouched code unless the change breaks it.
+{{PROFILE_GUIDANCE}}
+Each finding is a review comment on one hunk: give the index of the hunk, and a line range in the NEW version of the file (line numbers are shown in the left margin).
+Only report real, actionable issues; an empty findings list is acceptable for a clean change.
+The output must be a valid JSON object matching the specified schema.
+
+Architectural Context:
+---
+{{ARCHITECTURAL_SUMMARY}}
+---
+
+Pull Request: {{PR_TITLE}}
+File: {{FILE_PATH}} ({{FILE_STATUS}})
+{{STATIC_ANALYSIS}}
+{{HUNKS}}
+`;
+
+// Number of unchanged lines shown around each hunk so the model sees enough surrounding code.
+const HUNK_CONTEXT_LINES = 15;
+
+const formatHunkForReview = (fileLines: string[], hunk: DiffHunk, index: number): string => {
+    const contextStart = Math.max(1, hunk.newStart - HUNK_CONTEXT_LINES);
+    const contextEnd = Math.min(fileLines.length, hunk.newStart + hunk.newLines - 1 + HUNK_CONTEXT_LINES);
+    const context = withLineNumbers(fileLines.slice(contextStart - 1, contextEnd).join('\n'), contextStart);
+    return `### Hunk ${index}\nDiff:\n\`\`\`diff\n${formatHunkWithLineNumbers(hunk)}\n\`\`\`\nSurrounding code (new version, lines ${contextStart}-${contextEnd}):\n\`\`\`\n${context}\n\`\`\``;
+};
+
+// Groups consecutive hunks so that each group's formatted text stays within the file review budget.
+const groupHunksByBudget = (formattedHunks: string[]): number[][] => {
+    const groups: number[][] = [];
+    let current: number[] = [];
+    let currentTokens = 0;
+    formattedHunks.forEach((text, index) => {
+        const tokens = estimateTokens(text);
+        if (current.length > 0 && currentTokens + tokens > PROMPT_BUDGETS.fileReview) {
+            groups.push(current);
+            current = [];
+            currentTokens = 0;
+        }
+        current.push(index);
+        currentTokens += tokens;
+    });
+    if (current.length > 0) groups.push(current);
+    return groups;
+};
+
+export const reviewDiffHunks = async (
+    file: CodeFile,
+    changedFile: PullRequestFile,
+    pullRequest: PullRequestInfo,
+    architecturalSummary: string,
+    profile: ReviewProfile,
+    metrics?: FileMetrics,
+    options: StreamingRequestOptions = {}
+): Promise<FileReview> => {
+    const fileLines = file.content.split('\n');
+    const formattedHunks = changedFile.hunks.map((hunk, i) => formatHunkForReview(fileLines, hunk, i));
+    const groups = groupHunksByBudget(formattedHunks);
+
+    const summaries: string[] = [];
+    const findings: ReviewFinding[] = [];
+    let fromCache = true;
+    for (const group of groups) {
+        let prompt = HUNK_REVIEW_PROMPT_TEMPLATE.replace('{{REVIEWER}}', profile.reviewer);
+        prompt = prompt.replace('{{PROFILE_GUIDANCE}}', formatProfileGuidance(profile));
+        prompt = prompt.replace('{{ARCHITECTURAL_SUMMARY}}', architecturalSummary);
+        prompt = prompt.replace('{{PR_TITLE}}', `#${pullRequest.number} ${pullRequest.title}`);
+        prompt = prompt.replace('{{FILE_PATH}}', file.path);
+        prompt = prompt.replace('{{FILE_STATUS}}', changedFile.previousPath ? `${changedFile.status} from ${changedFile.previousPath}` : changedFile.status);
+        prompt = prompt.replace('{{STATIC_ANALYSIS}}', formatStaticAnalysis(metrics));
+        prompt = prompt.replace('{{HUNKS}}', group.map(i => formattedHunks[i]).join('\n\n'));
+
+        const response: CachedResult<RawFileReview<Omit<ReviewFinding, 'filePath'> & { hunkIndex: number }>> =
+            await callLlmCached('fileReview', prompt, true, HUNK_REVIEW_SCHEMA, streamReviewPreview(options, summaries));
+        const raw = response.value;
+        fromCache &&= response.fromCache;
+        summaries.push(raw.summary);
+        findings.push(...(raw.findings || []).map(({ hunkIndex, ...finding }) => ({
+            ...finding,
+            filePath: file.path,
+            hunkHeader: changedFile.hunks[hunkIndex]?.header,
+        })));
+    }
+
+    const estimatedTokens = formattedHunks.reduce((sum, text) => sum + estimateTokens(text), 0);
+    return {
+        path: file.path,
+        status: 'completed',
+        summary: summaries.join('\n\n'),
+        findings,
+        budget: groups.length > 1
+            ? { path: file.path, estimatedTokens, action: 'chunked', detail: groups.length }
+            : { path: file.path, estimatedTokens, action: 'full' },
+        fromCache,
+        metrics,
+    };
+};
+
+/** Records a file whose review failed, so the report can show it instead of aborting the whole analysis. */
+export const createFailedReview = (file: CodeFile, error: unknown, metrics?: FileMetrics): FileReview => {
+    const estimatedTokens = estimateReviewTokens(file.content);
+    return {
+        path: file.path,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'An unknown error occurred.',
+        summary: '',
+        findings: [],
+        budget: {
+            path: file.path,
+            estimatedTokens,
+            action: estimatedTokens > PROMPT_BUDGETS.fileReview ? 'chunked' : 'full',
+        },
+        metrics,
+    };
+};
+
+// --- Security Triage ---
+
+const SECURITY_TRIAGE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    results: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: "Index of the hit, as given in its heading." },
+          verdict: { type: Type.STRING, format: "enum", enum: ['confirmed', 'false-positive'] },
+          severity: { type: Type.STRING, format: "enum", enum: FINDING_SEVERITIES },
+          cwe: { type: Type.STRING, description: "The most specific CWE identifier, e.g. CWE-89." },
+          explanation: { type: Type.STRING, description: "Why this is or is not exploitable here, in Markdown." },
+          suggestedFix: { type: Type.STRING, description: "A concrete fix for confirmed issues. Empty string if none." },
+        },
+        required: ['index', 'verdict', 'severity', 'cwe', 'explanation', 'suggestedFix'],
+      },
+    },
+  },
+  required: ['results'],
+};
+
+const SECURITY_TRIAGE_PROMPT_TEMPLATE = `
+You are an application security engineer triaging the output of automated security checks: secret detection, risky API patterns and known vulnerable dependency versions.
+For every hit, decide whether it is a real issue in this code ("confirmed") or a false positive (test data, placeholders, safe usage, dead code, a properly parameterized query, ...).
+Adjust the suggested severity to the actual risk in context and give the most specific CWE identifier. Secret values have been masked; judge them by their location and format.
+For dependency hits, the version is the lowest one the manifest allows; the project may resolve a newer version through a lockfile, so recommend raising the declared minimum.
+The output must be a valid JSON object matching the specified schema, with one result per hit.
+
+{{HITS}}
+`;
+
+const formatHitForTriage = (hit: SecurityHit, index: number): string =>
+    `### Hit ${index}\nRule: ${hit.title} (${hit.ruleId}), suggested severity ${hit.severity}, ${hit.cwe}\nLocation: ${hit.filePath}:${hit.line}\n\`\`\`\n${hit.context}\n\`\`\``;
+
+interface RawTriageResult {
+    index: number;
+    verdict: TriageVerdict;
+    severity: FindingSeverity;
+    cwe: string;
+    explanation: string;
+    suggestedFix: string;
+}
+
+/**
+ * Asks the model to confirm or dismiss each hit of the security scan, in batches that fit the
+ * triage budget. If triage fails, the hits are kept untriaged so the report still shows them.
+ */
+export const triageSecurityHits = async (scan: SecurityScanResult, options: RequestOptions = {}): Promise<SecurityScanResult> => {
+    if (scan.hits.length === 0) return scan;
+    const formatted = scan.hits.map(formatHitForTriage);
+    const batches: number[][] = [[]];
+    let batchTokens = 0;
+    formatted.forEach((text, index) => {
+        const tokens = estimateTokens(text);
+        if (batches[batches.length - 1].length > 0 && batchTokens + tokens > PROMPT_BUDGETS.securityTriage) {
+            batches.push([]);
+            batchTokens = 0;
+        }
+        batches[batches.length - 1].push(index);
+        batchTokens += tokens;
+    });
+
+    try {
+        const results = new Map<number, RawTriageResult>();
+        for (const batch of batches) {
+            const prompt = SECURITY_TRIAGE_PROMPT_TEMPLATE.replace('{{HITS}}', batch.map(i => formatted[i]).join('\n\n'));
+            const raw: { results: RawTriageResult[] } = await callLlmWithRetry('securityTriage', prompt, true, SECURITY_TRIAGE_SCHEMA, options);
+            (raw.results || []).filter(r => batch.includes(r.index)).forEach(r => results.set(r.index, r));
+        }
+        return {
+            ...scan,
+            hits: scan.hits.map((hit, index) => {
+                const result = results.get(index);
+                if (!result) return hit;
+                return {
+                    ...hit,
+                    severity: result.severity,
+                    cwe: result.cwe || hit.cwe,
+                    triage: {
+                        verdict: result.verdict,
+                        explanation: result.suggestedFix ? `${result.explanation}\n\n**Fix:** ${result.suggestedFix}` : result.explanation,
+                    },
+                };
+            }),
+        };
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        return { ...scan, triageError: error instanceof Error ? error.message : 'An unknown error occurred.' };
+    }
 };
 
 const SYNTHESIS_PROMPT_TEMPLATE = `
 You are a lead software engineer synthesizing multiple code reviews from your team into a single, cohesive report for the project lead.
-The goal is to provide a high-level overview of the repository's health, identify recurring patterns (both good and bad), and create a prioritized list of actionable recommendations for the entire repository.
-Do not just list the individual reviews. Instead, group related findings, identify systemic issues, and provide a holistic assessment.
+The reviews cover {{SCOPE}}.
+They were done with the "{{PROFILE_NAME}}" review profile, so frame the report around its focus: {{PROFILE_INSTRUCTIONS}}
+The goal is to provide a high-level overview of the code's health, identify recurring patterns (both good and bad), and create a prioritized list of actionable recommendations for the entire repository.
+Do not just list the individual findings; they are shown to the reader separately in a table. Instead, group related findings, identify systemic issues, and provide a holistic assessment.
 The final output should be a well-structured, professional report in Markdown format. Start with an executive summary.
 
-Here are the individual file reviews to synthesize:
+Here are the individual file reviews to synthesize. Each finding is listed as [severity/category] path:lines - title.
 ---
 {{INDIVIDUAL_REVIEWS}}
 ---
+{{SECURITY_SCAN}}
 `;
 
-export const synthesizeFinalReport = async (individualReviews: string): Promise<string> => {
-    const prompt = SYNTHESIS_PROMPT_TEMPLATE.replace('{{INDIVIDUAL_REVIEWS}}', individualReviews);
-    return callGeminiWithRetry(prompt);
+const formatFileReviewForSynthesis = (fileReview: FileReview): string => {
+    if (fileReview.status === 'failed') {
+        return `--- Review for ${fileReview.path} ---\nThe review of this file failed and it is not covered by this report.`;
+    }
+    const findings = fileReview.findings.length > 0
+        ? fileReview.findings
+            .map(f => `* [${f.severity}/${f.category}] ${f.filePath}:${f.startLine}-${f.endLine} - ${f.title}: ${f.explanation}`)
+            .join('\n')
+        : '* No findings.';
+    return `--- Review for ${fileReview.path} ---\n${fileReview.summary}\n${findings}`;
+};
+
+export const synthesizeFinalReport = async (
+    fileReviews: FileReview[],
+    profile: ReviewProfile,
+    pullRequest?: PullRequestInfo,
+    securityScan?: SecurityScanResult,
+    options: StreamingRequestOptions = {}
+): Promise<FinalReport> => {
+    const securityFindings = securityScan ? toReviewFindings(securityScan) : [];
+    const individualReviews = fileReviews.map(formatFileReviewForSynthesis).join('\n\n');
+    const scope = pullRequest
+        ? `only the changes made by pull request #${pullRequest.number} ("${pullRequest.title}"); focus the report on whether the change is ready to merge`
+        : 'a selection of key files from the repository';
+    let prompt = SYNTHESIS_PROMPT_TEMPLATE.replace('{{SCOPE}}', scope);
+    prompt = prompt.replace('{{PROFILE_NAME}}', profile.name);
+    prompt = prompt.replace('{{PROFILE_INSTRUCTIONS}}', profile.instructions);
+    prompt = prompt.replace('{{INDIVIDUAL_REVIEWS}}', individualReviews);
+    prompt = prompt.replace('{{SECURITY_SCAN}}', securityScan
+        ? `\nA security scan (secret detection, risky API checks and known vulnerable dependencies, triaged by a security engineer) also covered ${securityScan.scannedFiles} files and ${securityScan.dependencies.length} dependencies. Include a security section. Confirmed issues:\n${
+            securityFindings.map(f => `* [${f.severity}/${f.cwe}] ${f.filePath}:${f.startLine} - ${f.title}`).join('\n') || '* None.'}\n`
+        : '');
+    const summary: string = await callLlmWithRetry('synthesis', prompt, false, undefined, options);
+    return {
+        generatedAt: new Date().toISOString(),
+        profile: { id: profile.id, name: profile.name },
+        summary,
+        findings: sortFindingsBySeverity([...fileReviews.flatMap(r => r.findings), ...securityFindings]),
+        fileReviews,
+        ...(securityScan ? { securityScan } : {}),
+    };
 };
 
 
@@ -133,36 +717,14 @@ Code Review Report:
 ---
 `;
 
-export const findRecommendedRepos = async (report: string): Promise<RecommendedRepo> => {
+export const findRecommendedRepos = async (report: string, options: RequestOptions = {}): Promise<RecommendedRepo> => {
     const prompt = RECOMMENDATION_PROMPT_TEMPLATE.replace('{{REPORT}}', report);
-    
-    try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: model,
-            contents: prompt,
-            config: {
-                tools: [{googleSearch: {}}],
-            },
-        });
-
-        const text = response.text;
-        const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-        
-        const sources: GroundingSource[] = groundingChunks
-            .filter(chunk => chunk.web && chunk.web.uri && chunk.web.title)
-            .map(chunk => ({
-                web: {
-                    uri: chunk.web!.uri!,
-                    title: chunk.web!.title!,
-                },
-            }));
-        
-        return { text, sources };
-    } catch (error) {
-        console.error("Error calling Gemini API with Google Search:", error);
-        if (error instanceof Error) throw new Error(`Gemini API Error: ${error.message}`);
-        throw new Error("An unexpected error occurred while communicating with the Gemini API.");
-    }
+
+    return runLlmRequest(
+        'recommendations',
+        (provider, model, signal) => provider.groundedSearch({ task: 'recommendations', model, prompt, signal }),
+        options
+    );
 };
 
 
@@ -210,38 +772,113 @@ Repository Files:
 ---
 `;
 
-export const generateVisualDocumentation = async (repoData: RepoAnalysisData, architecturalSummary: string): Promise<VisualDocumentationData> => {
-    const allFiles = [...repoData.structuralFiles, ...repoData.codeFiles];
-    const filesContent = allFiles.map(file => `--- File: ${file.path} ---\n${file.content}`).join('\n\n');
+const DIAGRAM_REPAIR_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    diagram: { type: Type.STRING, description: "The corrected Mermaid.js source." },
+  },
+  required: ["diagram"]
+};
+
+const DIAGRAM_REPAIR_PROMPT = `
+The following Mermaid.js diagram fails to parse. It is meant to be: {{PURPOSE}}
+
+Parser error:
+{{ERROR}}
+
+Diagram:
+\`\`\`mermaid
+{{DIAGRAM}}
+\`\`\`
+
+Correct the syntax so the diagram parses, keeping its nodes, edges and labels. Common causes are labels containing parentheses, brackets, quotes or other special characters without being quoted, reserved words such as "end" used as node ids, and a missing or misspelled diagram type on the first line.
+The output must be a valid JSON object matching the specified schema.
+`;
+
+// Repair requests per diagram. One that still fails is shown with its error, for the user to fix.
+const MAX_DIAGRAM_REPAIRS = 2;
+
+/** Resolves with the parse error of a Mermaid diagram, or null when it is valid. */
+export type DiagramValidator = (code: string) => Promise<string | null>;
+
+export interface VisualDocsOptions extends RequestOptions {
+    // Without a validator (e.g. outside the browser), diagrams are returned as the model wrote them
+    validateDiagram?: DiagramValidator;
+}
+
+const repairDiagram = async (
+    key: DiagramKey,
+    code: string,
+    validateDiagram: DiagramValidator,
+    options: RequestOptions
+): Promise<{ code: string; attempts: number }> => {
+    let error = await validateDiagram(code);
+    let attempts = 0;
+    while (error && attempts < MAX_DIAGRAM_REPAIRS) {
+        attempts++;
+        let prompt = DIAGRAM_REPAIR_PROMPT.replace('{{PURPOSE}}', VISUAL_DOCS_SCHEMA.properties[key].description);
+        prompt = prompt.replace('{{ERROR}}', error).replace('{{DIAGRAM}}', code);
+        let repaired: string;
+        try {
+            repaired = (await callLlmWithRetry('docs', prompt, true, DIAGRAM_REPAIR_SCHEMA, options)).diagram ?? '';
+        } catch (err) {
+            // The broken diagram is still worth showing, so the user can fix it by hand
+            if (isAbortError(err)) throw err;
+            console.error(`Could not repair the ${key} diagram:`, err);
+            break;
+        }
+        // The same source would get the same cached answer again
+        if (!repaired.trim() || repaired === code) break;
+        code = repaired;
+        error = await validateDiagram(code);
+    }
+    return { code, attempts };
+};
+
+/**
+ * Generates the DeepWiki diagrams. With `validateDiagram`, each non-empty diagram is parsed and
+ * any that fails is sent back to the model with the parser error, up to `MAX_DIAGRAM_REPAIRS` times.
+ */
+export const generateVisualDocumentation = async (
+    repoData: RepoAnalysisData,
+    architecturalSummary: string,
+    options: VisualDocsOptions = {}
+): Promise<VisualDocumentationData> => {
+    const { files, decisions } = fitFilesToBudget([...repoData.structuralFiles, ...repoData.codeFiles], PROMPT_BUDGETS.visualDocs);
+    const filesContent = files.map(file => `--- File: ${file.path} ---\n${file.content}`).join('\n\n');
     let prompt = VISUAL_DOCS_PROMPT.replace('{{ARCHITECTURAL_SUMMARY}}', architecturalSummary);
     prompt = prompt.replace('{{FILES_CONTENT}}', filesContent);
 
-    const response = await ai.models.generateContent({
-        model,
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: VISUAL_DOCS_SCHEMA
-        }
-    });
+    const docs: VisualDocumentationData = await callLlmWithRetry('docs', prompt, true, VISUAL_DOCS_SCHEMA, options);
+    const { validateDiagram } = options;
+    if (!validateDiagram) return { ...docs, contextBudget: decisions };
 
-    return JSON.parse(response.text);
+    const diagramRepairs: Partial<Record<DiagramKey, number>> = {};
+    const keys = Object.keys(VISUAL_DOCS_SCHEMA.properties) as DiagramKey[];
+    await Promise.all(keys.filter(key => docs[key]?.trim()).map(async key => {
+        const { code, attempts } = await repairDiagram(key, docs[key], validateDiagram, options);
+        docs[key] = code;
+        if (attempts > 0) diagramRepairs[key] = attempts;
+    }));
+    return { ...docs, contextBudget: decisions, diagramRepairs };
 };
 
 
+// --- DeepWiki Chat ---
+
 const CHAT_SYSTEM_PROMPT = `
 You are "DeepWiki", a conversational AI assistant for codebases.
-You have been provided with comprehensive context about a GitHub repository, including:
-1. An architectural summary.
-2. The contents of key files.
-3. A full code review report.
-4. Mermaid.js diagrams illustrating the architecture, dependencies, and flows.
+You have been provided with context about a repository: an architectural summary, Mermaid.js diagrams illustrating the architecture, dependencies and flows, and the list of its files.
+Each question comes with excerpts of the files that were retrieved for it, each headed by its path and line range, e.g. "### src/app.ts:12-51".
+You can also explore the repository with tools: list a directory, read a file, search the code with a regular expression and view the commit history of a path.
 
-Your primary purpose is to answer user questions about the repository based on this context. Be helpful, accurate, and concise.
+Your primary purpose is to answer user questions about the repository. Be helpful, accurate, and concise.
+When the excerpts do not answer a question, use the tools rather than guessing, e.g. read the file a question names or search for the identifier it mentions. Prefer a few targeted calls, such as reading a line range, over reading whole directories.
 When a question refers to a diagram, reference it by name (e.g., "In the Architecture Diagram...").
-Do not go outside the provided context. If a question cannot be answered with the given information, say so politely.
+Cite the code your answer relies on as [path:startLine-endLine] (e.g. [src/app.ts:20-34]), using the line numbers shown in the excerpts and tool results; cite the narrowest range that supports the claim.
+If neither the context nor the tools answer a question, say so politely.
 
-Full Repository Context:
+Repository Context:
 ---
 Architectural Summary:
 {{ARCHITECTURAL_SUMMARY}}
@@ -250,40 +887,142 @@ Visual Documentation (Mermaid Syntax):
 {{VISUAL_DOCS}}
 
 Repository Files:
-{{FILES_CONTENT}}
+{{FILE_LIST}}
 ---
 `;
 
-export const startOrContinueChat = async (
-    history: ChatMessage[],
-    repoData: RepoAnalysisData,
-    architecturalSummary: string,
-    visualDocs: VisualDocumentationData
-): Promise<string> => {
-    
-    const allFiles = [...repoData.structuralFiles, ...repoData.codeFiles];
-    const filesContent = allFiles.map(file => `--- File: ${file.path} ---\n${file.content}`).join('\n\n');
-    const visualDocsString = JSON.stringify(visualDocs, null, 2);
+const CHAT_MESSAGE_TEMPLATE = `Excerpts retrieved for this question:
+{{EXCERPTS}}
+
+Question: {{QUESTION}}`;
+
+// Keeps the file list from crowding out the rest of the system instruction in very large repositories
+const MAX_LISTED_PATHS = 1000;
 
+// Rounds of tool calls per question, so a model that keeps exploring still has to stop
+const MAX_TOOL_ROUNDS = 8;
+
+const formatExcerpt = (chunk: RetrievedChunk): string =>
+    `### ${chunk.path}:${chunk.startLine}-${chunk.endLine}\n\`\`\`\n${withLineNumbers(chunk.content, chunk.startLine)}\n\`\`\``;
+
+const formatFileList = (paths: string[]): string => paths.length > MAX_LISTED_PATHS
+    ? `${paths.slice(0, MAX_LISTED_PATHS).join('\n')}\n... and ${paths.length - MAX_LISTED_PATHS} more`
+    : paths.join('\n');
+
+export interface ChatAnswer {
+    text: string;
+    toolCalls: ChatToolCall[];
+}
+
+export interface ChatSendOptions extends StreamingRequestOptions {
+    // Called with every tool call so far, when a call starts and when it finishes
+    onToolCalls?: (calls: ChatToolCall[]) => void;
+}
+
+export interface ChatSession {
+    // Retrieves excerpts for the question and sends both, running the tools the model calls
+    send: (question: string, options?: ChatSendOptions) => Promise<ChatAnswer>;
+}
+
+/**
+ * Starts a DeepWiki conversation over a repository index. The system instruction is built
+ * once and the provider session is kept between questions; each question only carries the
+ * excerpts retrieved for it, and the model can call `tools` for anything else it needs.
+ * `history` seeds the conversation, e.g. from a saved analysis.
+ */
+export const createChatSession = (
+    index: RepoIndex,
+    architecturalSummary: string,
+    visualDocs: VisualDocumentationData,
+    history: ChatMessage[],
+    tools: RepoTools
+): ChatSession => {
+    const { contextBudget, diagramRepairs, ...diagrams } = visualDocs;
     let systemInstruction = CHAT_SYSTEM_PROMPT.replace('{{ARCHITECTURAL_SUMMARY}}', architecturalSummary);
-    systemInstruction = systemInstruction.replace('{{VISUAL_DOCS}}', visualDocsString);
-    systemInstruction = systemInstruction.replace('{{FILES_CONTENT}}', filesContent);
+    systemInstruction = systemInstruction.replace('{{VISUAL_DOCS}}', JSON.stringify(diagrams, null, 2));
+    systemInstruction = systemInstruction.replace('{{FILE_LIST}}', formatFileList(index.files.map(file => file.path)));
 
-    const chat: Chat = ai.chats.create({
-        model: model,
-        config: {
-            systemInstruction: systemInstruction,
-        },
-        // The Gemini `history` format is slightly different, so we map our state to it.
-        history: history.slice(0, -1).map(msg => ({
-            role: msg.role,
-            parts: msg.parts
-        }))
-    });
+    // Questions and answers without their excerpts or tool calls. A new provider session is started
+    // from these when the settings change or a message fails, since its history is then unknown.
+    const turns: LlmChatTurn[] = history.map(msg => ({ role: msg.role, text: msg.parts.map(part => part.text ?? '').join('') }));
+    let current: { settings: LlmSettings; model: string; session: LlmChatSession } | null = null;
+
+    const sessionFor = (provider: LlmProvider, model: string): LlmChatSession => {
+        const settings = getLlmSettings();
+        if (!current || current.settings !== settings || current.model !== model) {
+            current = {
+                settings,
+                model,
+                session: provider.startChat({ task: 'chat', model, systemInstruction, history: turns, tools: tools.declarations }),
+            };
+        }
+        return current.session;
+    };
+
+    return {
+        send: async (question, options = {}) => {
+            // The previous question helps retrieval for follow-ups such as "where is that tested?"
+            const previousQuestion = [...turns].reverse().find(turn => turn.role === 'user')?.text ?? '';
+            const excerpts = searchRepoIndex(index, `${question}\n${previousQuestion}`, PROMPT_BUDGETS.chatExcerpts);
+            let message = CHAT_MESSAGE_TEMPLATE.replace('{{EXCERPTS}}', excerpts.map(formatExcerpt).join('\n\n') || 'No excerpts matched this question.');
+            message = message.replace('{{QUESTION}}', question);
 
-    const lastMessage = history[history.length - 1];
-    
-    const result: GenerateContentResponse = await chat.sendMessage({ message: lastMessage.parts });
-    
-    return result.text;
-};
\ No newline at end of file
+            // Text the model wrote alongside its tool calls is kept, so nothing it streamed disappears
+            const texts: string[] = [];
+            const toolCalls: ChatToolCall[] = [];
+            const reportToolCall = (i: number, call: ChatToolCall) => {
+                toolCalls[i] = call;
+                options.onToolCalls?.([...toolCalls]);
+            };
+
+            const runTools = async (calls: LlmToolCall[]): Promise<LlmToolResult[]> => {
+                const results: LlmToolResult[] = [];
+                // One at a time, to stay gentle on the GitHub API
+                for (const call of calls) {
+                    const i = toolCalls.length;
+                    reportToolCall(i, { name: call.name, args: call.args });
+                    try {
+                        const { output, summary } = await tools.run(call, options.signal);
+                        reportToolCall(i, { name: call.name, args: call.args, summary });
+                        results.push({ id: call.id, name: call.name, output });
+                    } catch (error) {
+                        if (isAbortError(error)) throw error;
+                        const reason = error instanceof Error ? error.message : 'The tool failed.';
+                        reportToolCall(i, { name: call.name, args: call.args, summary: reason, failed: true });
+                        results.push({ id: call.id, name: call.name, output: `Error: ${reason}` });
+                    }
+                }
+                return results;
+            };
+
+            // The session is fixed for the whole answer: tool results only make sense to the session that asked for them
+            let session: LlmChatSession | null = null;
+            try {
+                let content: string | LlmToolResult[] = message;
+                for (let round = 0; ; round++) {
+                    const reply = await runLlmRequest('chat', (provider, model, signal) =>
+                        (session ??= sessionFor(provider, model)).sendMessage({
+                            message: content,
+                            signal,
+                            onText: options.onText && (text => options.onText!([...texts, text].join('\n\n'))),
+                        }), options);
+                    if (reply.text.trim()) texts.push(reply.text.trim());
+                    if (reply.toolCalls.length === 0) break;
+                    if (round === MAX_TOOL_ROUNDS) {
+                        texts.push(`_Stopped after ${MAX_TOOL_ROUNDS} rounds of tool calls._`);
+                        // The calls stay unanswered, so the next question needs a fresh session
+                        current = null;
+                        break;
+                    }
+                    content = await runTools(reply.toolCalls);
+                }
+                const answer = texts.join('\n\n');
+                turns.push({ role: 'user', text: question }, { role: 'model', text: answer });
+                return { text: answer, toolCalls };
+            } catch (error) {
+                current = null;
+                throw error;
+            }
+        },
+    };
+};
@@ -0,0 +1,109 @@
+
+import { FindingSeverity, ReviewFinding } from "./geminiService";
+import { IssueDraft, PullRequestFile, PullRequestReviewDraft, ReviewCommentDraft } from "./githubService";
+import { ReportExportData, exportMarkdown } from "./reportExport";
+
+export type IssueMode = 'single' | 'perFinding';
+
+// Findings severe enough to get an issue of their own in 'perFinding' mode
+const ISSUE_SEVERITIES: FindingSeverity[] = ['critical', 'high'];
+
+// GitHub rejects issue and review bodies longer than 65,536 characters
+const MAX_BODY_LENGTH = 65_000;
+
+const FOOTER = '_Generated by Gemini Code Reviewer._';
+
+const truncateBody = (body: string): string =>
+  body.length <= MAX_BODY_LENGTH
+    ? body
+    : `${body.substring(0, MAX_BODY_LENGTH)}\n\n… [truncated: the full report is too long for GitHub; export it instead]`;
+
+const formatLines = (finding: ReviewFinding): string =>
+  finding.endLine !== finding.startLine ? `${finding.startLine}-${finding.endLine}` : `${finding.startLine}`;
+
+const formatFinding = (finding: ReviewFinding): string => {
+  const parts = [
+    `**[${finding.severity.toUpperCase()}] ${finding.title}** (${finding.category})`,
+    finding.explanation.trim(),
+  ];
+  if (finding.suggestedFix.trim()) parts.push(`**Suggested fix**\n\n${finding.suggestedFix.trim()}`);
+  return parts.join('\n\n');
+};
+
+/**
+ * Finds the lines of a finding that can carry an inline comment. GitHub only accepts
+ * comments on lines of the new file that appear in the diff, and a multi-line comment
+ * must stay within one hunk, so the hunk overlapping the finding the most is used.
+ */
+const anchorFinding = (finding: ReviewFinding, file: PullRequestFile): { line: number; startLine?: number } | null => {
+  let best: number[] = [];
+  for (const hunk of file.hunks) {
+    const lines = hunk.lines
+      .map(l => l.newLine)
+      .filter((n): n is number => n !== null && n >= finding.startLine && n <= finding.endLine);
+    if (lines.length > best.length) best = lines;
+  }
+  if (best.length === 0) return null;
+  const line = Math.max(...best);
+  const startLine = Math.min(...best);
+  return startLine < line ? { line, startLine } : { line };
+};
+
+/**
+ * Turns a pull request analysis into a review: findings inside the diff become inline
+ * comments, and the rest are listed in the review body under the report summary.
+ */
+export const buildPullRequestReview = (data: ReportExportData): PullRequestReviewDraft => {
+  const { report, repoData } = data;
+  const pullRequest = repoData.pullRequest!;
+  const comments: ReviewCommentDraft[] = [];
+  const unanchored: ReviewFinding[] = [];
+
+  for (const finding of report.findings) {
+    const file = pullRequest.files.find(f => f.path === finding.filePath);
+    const anchor = file ? anchorFinding(finding, file) : null;
+    if (anchor) {
+      comments.push({ path: finding.filePath, ...anchor, body: formatFinding(finding) });
+    } else {
+      unanchored.push(finding);
+    }
+  }
+
+  const body = [report.summary.trim()];
+  if (unanchored.length > 0) {
+    body.push(
+      '### Findings outside the changed lines',
+      unanchored.map(f => `- \`${f.filePath}:${formatLines(f)}\`: ${formatFinding(f).replace(/\n\n/g, '\n  ')}`).join('\n'),
+    );
+  }
+  body.push(FOOTER);
+
+  return { commitId: pullRequest.headSha, body: truncateBody(body.join('\n\n')), comments };
+};
+
+/** Issues for a whole-repository analysis: the full report in one issue, or one issue per severe finding. */
+export const buildRepositoryIssues = (data: ReportExportData, mode: IssueMode): IssueDraft[] => {
+  const { report, repoData } = data;
+  const { owner, repo, commitSha } = repoData.source;
+
+  if (mode === 'single') {
+    return [{
+      title: `Code review of ${owner}/${repo} at ${commitSha.substring(0, 7)}`,
+      body: truncateBody(`${exportMarkdown(data)}\n${FOOTER}`),
+    }];
+  }
+
+  return report.findings
+    .filter(f => ISSUE_SEVERITIES.includes(f.severity))
+    .map(finding => {
+      const link = `https://github.com/${owner}/${repo}/blob/${commitSha}/${finding.filePath}#L${finding.startLine}-L${finding.endLine}`;
+      return {
+        title: `[${finding.severity}] ${finding.title}`,
+        body: truncateBody([
+          `[\`${finding.filePath}:${formatLines(finding)}\`](${link}) at commit ${commitSha.substring(0, 7)}`,
+          formatFinding(finding),
+          FOOTER,
+        ].join('\n\n')),
+      };
+    });
+};
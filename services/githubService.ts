@@ -1,21 +1,258 @@
 
 import { AnalysisStatus } from "../components/AnalysisProgress";
+import { DiffHunk, parsePatch } from "./diffParser";
+import {
+  FileSelectionConfig, SelectableFile, applyBudget, isCodeFile, resolveSelectionConfig, selectCandidateFiles, selectFilesForAnalysis
+} from "./fileSelection";
+import { FileScore, computeFanIn, rankFiles } from "./fileRanking";
+import { RepoConfig, REPO_CONFIG_PATHS, parseRepoConfig } from "./repoConfig";
+import { ReviewProfile, resolveReviewProfile } from "./reviewProfiles";
+import { isIndexableFile } from "./repoIndex";
+import { abortableSleep, createConcurrencyLimiter, isAbortError } from "./requestLayer";
+import { withCache } from "./responseCache";
 
 export interface CodeFile {
   path: string;
   content: string;
 }
 
+export type AnalysisMode = 'repository' | 'pullRequest';
+
+export interface PullRequestFile {
+  path: string;
+  sha: string;
+  previousPath?: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  url: string;
+  baseRef: string;
+  headRef: string;
+  headSha: string;
+  files: PullRequestFile[];
+}
+
+export interface RepoRef {
+  name: string;
+  type: 'branch' | 'tag';
+  sha: string;
+}
+
+export type SourceKind = 'github' | 'directory' | 'archive';
+
+export interface AnalysisSource {
+  // Absent in analyses saved before local sources were supported, which were all GitHub
+  kind?: SourceKind;
+  // Empty for local sources
+  owner: string;
+  // Repository name, or the directory/archive name for local sources
+  repo: string;
+  // Branch, tag or SHA as requested (or the default branch); a description of the snapshot for local sources
+  ref: string;
+  // For local sources, a fingerprint of the analyzed file contents
+  commitSha: string;
+}
+
+export interface RepoSnapshot {
+  source: AnalysisSource;
+  fileTree: RepoTreeEntry[];
+  repoConfig: RepoConfig | null;
+}
+
 export interface RepoAnalysisData {
+  mode: AnalysisMode;
+  source: AnalysisSource;
+  selectionConfig: FileSelectionConfig;
+  // Ranking of the top candidate files, explaining why the reviewed files were chosen
+  fileScores?: FileScore[];
+  // Absent in analyses saved before review profiles existed
+  reviewProfile?: ReviewProfile;
   structuralFiles: CodeFile[];
   codeFiles: CodeFile[];
+  pullRequest?: PullRequestInfo;
+}
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  // Set while requests are paused until the limit resets
+  waitingUntil?: number;
+}
+
+export interface GitHubRequestOptions {
+  // Personal access token or GitHub App installation token
+  token?: string;
+  onRateLimit?: (rateLimit: RateLimitInfo) => void;
+  // Cancels pending requests, including rate-limit waits
+  signal?: AbortSignal;
+}
+
+export interface AnalysisOptions {
+  token?: string;
+  // Overrides both the ref in the URL and the default branch
+  ref?: string;
+  // Overrides the repository's own config file field by field
+  selection?: Partial<FileSelectionConfig>;
+  // Review profile id; overrides the repository's default profile
+  profile?: string;
+  signal?: AbortSignal;
+}
+
+export interface RepoTreeEntry {
+  path: string;
+  sha: string;
+  size: number;
+}
+
+export interface FileCommit {
+  sha: string;
+  // ISO 8601
+  date: string;
+  author: string;
+  message: string;
+}
+
+/** Read access to the analyzed snapshot of a repository, for the DeepWiki tools. */
+export interface SnapshotReader {
+  listFiles: (signal?: AbortSignal) => Promise<SelectableFile[]>;
+  // Null when the snapshot has no such file
+  readFile: (path: string, signal?: AbortSignal) => Promise<string | null>;
+  // Most recent first. Null for sources without history.
+  fileHistory: ((path: string, limit: number, signal?: AbortSignal) => Promise<FileCommit[]>) | null;
 }
 
 // --- Helper Functions ---
 
 const GITHUB_API_BASE = 'https://api.github.com';
 
-const parseRepoUrl = (url: string): { owner: string; repo: string } => {
+// How many times a single request may pause for a rate-limit reset before giving up
+const MAX_RATE_LIMIT_WAITS = 3;
+
+const COMMIT_DETAIL_BATCH_SIZE = 5;
+
+// Ranking costs one request per commit and per candidate file, so stay small without a token (60 requests/hour)
+const RANKING_LIMITS = {
+    authenticated: { commits: 40, poolSize: 40 },
+    anonymous: { commits: 10, poolSize: 15 },
+};
+
+// Number of ranked files shown to the user besides the selected ones
+const RANKING_DISPLAY_COUNT = 20;
+
+// Files fetched for the DeepWiki index on top of the analyzed ones; one request each unless cached
+const INDEX_FETCH_LIMITS = { authenticated: 400, anonymous: 40 };
+const INDEX_FETCH_CONCURRENCY = 8;
+
+const readRateLimit = (response: Response): RateLimitInfo | null => {
+  const limit = response.headers.get('x-ratelimit-limit');
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  const reset = response.headers.get('x-ratelimit-reset');
+  if (limit === null || remaining === null || reset === null) return null;
+  return { limit: parseInt(limit, 10), remaining: parseInt(remaining, 10), resetAt: parseInt(reset, 10) * 1000 };
+};
+
+const describeHttpError = (response: Response, errorMessage: string, hasToken: boolean): string => {
+  if (response.status === 401) {
+    return `${errorMessage} GitHub rejected the access token (401). Check that it is valid and has not expired.`;
+  }
+  if (response.status === 404 && !hasToken) {
+    return `${errorMessage} Not found (404). If the repository is private, provide an access token.`;
+  }
+  if (response.status === 403 || response.status === 429) {
+    return `${errorMessage} GitHub API rate limit exceeded or access denied (${response.status}).${hasToken ? '' : ' Providing an access token raises the limit.'}`;
+  }
+  return `${errorMessage} Status: ${response.status}`;
+};
+
+// Validation failures (422) explain what was wrong in the response body
+const readValidationErrors = async (response: Response): Promise<string> => {
+  try {
+    const data = await response.json();
+    const details = (data.errors ?? []).map((e: any) => (typeof e === 'string' ? e : e.message ?? e.code)).filter(Boolean);
+    return [data.message, ...details].filter(Boolean).join(': ');
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Performs a GitHub API request with optional authentication. Rate-limit headers are
+ * reported through `onRateLimit`, and when the limit is exhausted the request waits for
+ * the reset time and tries again. Throws with `errorMessage` for any other failure.
+ * Requests with a `body` are sent as JSON with the given method.
+ */
+const githubFetch = async (
+  path: string,
+  request: GitHubRequestOptions,
+  errorMessage: string,
+  accept: string = 'application/vnd.github+json',
+  body?: { method: 'POST' | 'PATCH'; json: unknown }
+): Promise<Response> => {
+  const headers: Record<string, string> = {
+    Accept: accept,
+    'X-GitHub-Api-Version': '2022-11-28',
+  };
+  if (request.token) {
+    headers.Authorization = `Bearer ${request.token}`;
+  }
+  if (body) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(`${GITHUB_API_BASE}${path}`, {
+      headers,
+      signal: request.signal,
+      method: body?.method ?? 'GET',
+      body: body ? JSON.stringify(body.json) : undefined,
+    });
+    const rateLimit = readRateLimit(response);
+    if (rateLimit) request.onRateLimit?.(rateLimit);
+
+    const retryAfter = response.headers.get('retry-after');
+    const isRateLimited = (response.status === 403 || response.status === 429)
+      && (rateLimit?.remaining === 0 || retryAfter !== null);
+
+    if (isRateLimited && attempt < MAX_RATE_LIMIT_WAITS) {
+      const waitingUntil = retryAfter !== null
+        ? Date.now() + parseInt(retryAfter, 10) * 1000
+        : rateLimit!.resetAt + 1000;
+      request.onRateLimit?.({
+        limit: rateLimit?.limit ?? 0,
+        remaining: 0,
+        resetAt: rateLimit?.resetAt ?? waitingUntil,
+        waitingUntil,
+      });
+      await abortableSleep(Math.max(0, waitingUntil - Date.now()), request.signal);
+      continue;
+    }
+
+    if (response.status === 422) {
+      const details = await readValidationErrors(response);
+      throw new Error(`${errorMessage} GitHub rejected the request (422)${details ? `: ${details}` : '.'}`);
+    }
+    if (!response.ok) {
+      throw new Error(describeHttpError(response, errorMessage, !!request.token));
+    }
+    return response;
+  }
+};
+
+interface ParsedRepoUrl {
+  owner: string;
+  repo: string;
+  pullNumber?: number;
+  ref?: string;
+}
+
+export const parseRepoUrl = (url: string): ParsedRepoUrl => {
   try {
     const urlObject = new URL(url);
     if (urlObject.hostname !== 'github.com') {
@@ -25,124 +262,552 @@ const parseRepoUrl = (url: string): { owner: string; repo: string } => {
     if (pathParts.length < 2) {
       throw new Error();
     }
-    return { owner: pathParts[0], repo: pathParts[1] };
+    const [owner, repo, section, identifier] = pathParts;
+    if (section === 'pull') {
+      const pullNumber = parseInt(identifier, 10);
+      if (isNaN(pullNumber)) throw new Error();
+      return { owner, repo, pullNumber };
+    }
+    if (section === 'tree' || section === 'commit') {
+      // Branch names may contain slashes, so everything after /tree/ is treated as the ref
+      const ref = pathParts.slice(3).map(decodeURIComponent).join('/');
+      if (!ref) throw new Error();
+      return { owner, repo, ref };
+    }
+    return { owner, repo };
   } catch {
-    throw new Error("Invalid GitHub repository URL. Please provide a URL like 'https://github.com/owner/repo'.");
+    throw new Error("Invalid GitHub URL. Please provide a URL like 'https://github.com/owner/repo', 'https://github.com/owner/repo/tree/<branch>' or 'https://github.com/owner/repo/pull/123'.");
   }
 };
 
-const getRepoDefaultBranch = async (owner: string, repo: string): Promise<string> => {
-  const response = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}`);
-  if (!response.ok) {
-    throw new Error(`Could not fetch repository data. Status: ${response.status}`);
-  }
+const getRepoDefaultBranch = async (owner: string, repo: string, request: GitHubRequestOptions): Promise<string> => {
+  const response = await githubFetch(`/repos/${owner}/${repo}`, request, 'Could not fetch repository data.');
   const data = await response.json();
   return data.default_branch;
 };
 
-const getRepoFileTree = async (owner: string, repo: string, branch: string): Promise<{ path: string; type: string }[]> => {
-    const branchResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/branches/${branch}`);
-    if (!branchResponse.ok) throw new Error(`Could not fetch branch details.`);
-    const branchData = await branchResponse.json();
-    const treeSha = branchData.commit.sha;
-    
-    const treeResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${treeSha}?recursive=1`);
-    if (!treeResponse.ok) throw new Error(`Could not fetch repository file tree.`);
+const resolveCommitSha = async (owner: string, repo: string, ref: string, request: GitHubRequestOptions): Promise<string> => {
+  const response = await githubFetch(
+    `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`,
+    request,
+    `Could not find branch, tag or commit '${ref}'.`,
+    'application/vnd.github.sha'
+  );
+  return (await response.text()).trim();
+};
+
+const getRepoFileTree = async (owner: string, repo: string, commitSha: string, request: GitHubRequestOptions): Promise<RepoTreeEntry[]> => {
+    const treeResponse = await githubFetch(`/repos/${owner}/${repo}/git/trees/${commitSha}?recursive=1`, request, 'Could not fetch repository file tree.');
     const treeData = await treeResponse.json();
 
     if (treeData.truncated) {
         console.warn("Repository file tree is truncated. Analysis may be incomplete.");
     }
 
-    return treeData.tree.filter((node: any) => node.type === 'blob').map((node: any) => ({ path: node.path, type: node.type }));
+    return treeData.tree
+        .filter((node: any) => node.type === 'blob')
+        .map((node: any) => ({ path: node.path, sha: node.sha, size: node.size ?? 0 }));
 };
 
+const getPullRequest = async (owner: string, repo: string, pullNumber: number, request: GitHubRequestOptions): Promise<any> => {
+  const response = await githubFetch(`/repos/${owner}/${repo}/pulls/${pullNumber}`, request, `Could not fetch pull request #${pullNumber}.`);
+  return response.json();
+};
 
-// --- File Selection Logic ---
+const getPullRequestFiles = async (owner: string, repo: string, pullNumber: number, request: GitHubRequestOptions): Promise<PullRequestFile[]> => {
+    const files: PullRequestFile[] = [];
+    // The files endpoint is paginated (max 100 per page, 3000 files total)
+    for (let page = 1; page <= 30; page++) {
+        const response = await githubFetch(
+            `/repos/${owner}/${repo}/pulls/${pullNumber}/files?per_page=100&page=${page}`,
+            request,
+            `Could not fetch changed files for pull request #${pullNumber}.`
+        );
+        const pageData: any[] = await response.json();
+        files.push(...pageData.map(file => ({
+            path: file.filename,
+            sha: file.sha,
+            previousPath: file.previous_filename,
+            status: file.status,
+            additions: file.additions,
+            deletions: file.deletions,
+            // `patch` is omitted for binary files and very large diffs
+            hunks: file.patch ? parsePatch(file.patch) : [],
+        })));
+        if (pageData.length < 100) break;
+    }
+    return files;
+};
 
-const STRUCTURAL_FILE_PATTERNS = [
-  'package.json', 'tsconfig.json', 'vite.config.ts', 'webpack.config.js',
-  'pom.xml', 'build.gradle', 'pyproject.toml', 'requirements.txt',
-  'composer.json', 'Gemfile', 'go.mod', 'Cargo.toml', '.eslintrc.json'
-];
+/** Counts how many of the most recent commits reachable from `commitSha` touched each file. */
+const getCommitChurn = async (
+    owner: string,
+    repo: string,
+    commitSha: string,
+    maxCommits: number,
+    request: GitHubRequestOptions
+): Promise<Map<string, number>> => {
+    const listResponse = await githubFetch(
+        `/repos/${owner}/${repo}/commits?sha=${commitSha}&per_page=${maxCommits}`,
+        request,
+        'Could not fetch commit history.'
+    );
+    const commits: { sha: string }[] = await listResponse.json();
 
-const CODE_FILE_PRIORITY = [
-    'src/main.ts', 'src/main.js', 'src/index.ts', 'src/index.js',
-    'src/App.tsx', 'src/App.jsx', 'src/app.py', 'src/main.py',
-    'src/server.js', 'src/server.ts', 'lib/main.dart'
-];
+    const churn = new Map<string, number>();
+    // Commit details are fetched a few at a time to stay gentle on the API
+    for (let i = 0; i < commits.length; i += COMMIT_DETAIL_BATCH_SIZE) {
+        const batch = commits.slice(i, i + COMMIT_DETAIL_BATCH_SIZE);
+        const details = await Promise.all(batch.map(async commit => {
+            const response = await githubFetch(`/repos/${owner}/${repo}/commits/${commit.sha}`, request, `Could not fetch commit ${commit.sha}.`);
+            return response.json();
+        }));
+        for (const detail of details) {
+            for (const file of detail.files ?? []) {
+                churn.set(file.filename, (churn.get(file.filename) ?? 0) + 1);
+            }
+        }
+    }
+    return churn;
+};
 
-const isCodeFile = (path: string): boolean => {
-    // A simple heuristic to identify source code vs. config, docs, assets, etc.
-    const codeExtensions = ['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.go', '.rs', '.rb', '.php', '.html', '.css'];
-    const nonCodeDirs = ['node_modules', 'dist', 'build', 'docs', 'test', 'tests', 'assets', 'public', '.github', '.vscode'];
+// Reads file contents through the git blobs API so private repositories work with a token.
+// A blob SHA identifies the content, so the cache key needs no ref: unchanged files are fetched once across branches and runs.
+const getBlobContent = async (owner: string, repo: string, sha: string, request: GitHubRequestOptions): Promise<string> => {
+    const { value } = await withCache('github', `${owner}/${repo}/${sha}`, async () => {
+        const response = await githubFetch(`/repos/${owner}/${repo}/git/blobs/${sha}`, request, `Failed to fetch blob ${sha}.`, 'application/vnd.github.raw+json');
+        return response.text();
+    });
+    return value;
+};
 
-    if (nonCodeDirs.some(dir => path.includes(`/${dir}/`)) || nonCodeDirs.some(dir => path.startsWith(`${dir}/`))) {
-        return false;
-    }
-    return codeExtensions.some(ext => path.endsWith(ext));
+
+const fetchFiles = async (
+    owner: string,
+    repo: string,
+    entries: { path: string; sha: string }[],
+    request: GitHubRequestOptions
+): Promise<CodeFile[]> => {
+    const fetchPromises = entries.map(async ({ path, sha }) => ({
+        path,
+        content: await getBlobContent(owner, repo, sha, request),
+    }));
+    return Promise.all(fetchPromises);
 };
 
+const loadRepoConfig = async (
+    owner: string,
+    repo: string,
+    fileTree: RepoTreeEntry[],
+    request: GitHubRequestOptions
+): Promise<RepoConfig | null> => {
+    const configEntry = REPO_CONFIG_PATHS
+        .map(path => fileTree.find(entry => entry.path === path))
+        .find(entry => entry !== undefined);
+    if (!configEntry) return null;
+    const content = await getBlobContent(owner, repo, configEntry.sha, request);
+    return parseRepoConfig(configEntry.path, content);
+};
 
-const selectFilesForAnalysis = (fileList: { path: string }[]): { structural: string[], code: string[] } => {
-    const structural = fileList
-        .filter(f => STRUCTURAL_FILE_PATTERNS.includes(f.path))
-        .map(f => f.path);
-    
-    let code = fileList
-        .filter(f => isCodeFile(f.path))
-        .map(f => f.path);
+/**
+ * Builds the request options for one analysis run. Rate-limit updates from GitHub are
+ * merged into the most recent progress status so the UI can show them alongside it.
+ */
+const createRequestContext = (options: AnalysisOptions, updateProgress: (status: AnalysisStatus) => void) => {
+    let lastStatus: AnalysisStatus | null = null;
+    let rateLimit: RateLimitInfo | undefined;
 
-    // Prioritize common entry files
-    code.sort((a, b) => {
-        const aPrio = CODE_FILE_PRIORITY.indexOf(a);
-        const bPrio = CODE_FILE_PRIORITY.indexOf(b);
-        if (aPrio === -1 && bPrio === -1) return a.localeCompare(b); // Alphabetical for non-priority
-        if (aPrio === -1) return 1;
-        if (bPrio === -1) return -1;
-        return aPrio - bPrio;
-    });
+    const report = (status: AnalysisStatus) => {
+        lastStatus = status;
+        updateProgress({ ...status, rateLimit });
+    };
+    const request: GitHubRequestOptions = {
+        token: options.token?.trim() || undefined,
+        signal: options.signal,
+        onRateLimit: (info) => {
+            rateLimit = info;
+            if (lastStatus) updateProgress({ ...lastStatus, rateLimit });
+        },
+    };
+    return { request, report };
+};
 
-    // Limit to 5 code files to keep API usage reasonable
-    return { structural, code: code.slice(0, 5) };
-}
 
+// --- Ref Listing ---
 
-// --- Main Orchestrator Function ---
+const listRefs = async (owner: string, repo: string, kind: 'branches' | 'tags', request: GitHubRequestOptions): Promise<RepoRef[]> => {
+    const response = await githubFetch(`/repos/${owner}/${repo}/${kind}?per_page=100`, request, `Could not fetch ${kind}.`);
+    const data: any[] = await response.json();
+    return data.map(item => ({ name: item.name, type: kind === 'branches' ? 'branch' : 'tag', sha: item.commit.sha }));
+};
 
-export const startRepositoryAnalysis = async (
+/** Lists the first 100 branches and tags of the repository a URL points to. */
+export const fetchRepoRefs = async (repoUrl: string, options: AnalysisOptions = {}): Promise<RepoRef[]> => {
+    const { owner, repo } = parseRepoUrl(repoUrl);
+    const request: GitHubRequestOptions = { token: options.token?.trim() || undefined, signal: options.signal };
+    const [branches, tags] = await Promise.all([
+        listRefs(owner, repo, 'branches', request),
+        listRefs(owner, repo, 'tags', request),
+    ]);
+    return [...branches, ...tags];
+};
+
+
+// --- File Prioritization ---
+
+/**
+ * Picks the most important candidate files within the budget. Recent commit history is
+ * fetched first to choose a pool of likely-important files; their imports are then parsed
+ * to compute fan-in across the repository, and all candidates are ranked on the combined score.
+ */
+const prioritizeFiles = async (
+    source: AnalysisSource,
+    fileTree: RepoTreeEntry[],
+    candidates: RepoTreeEntry[],
+    config: FileSelectionConfig,
+    request: GitHubRequestOptions,
+    updateProgress: (status: AnalysisStatus) => void
+): Promise<{ code: string[]; fileScores: FileScore[]; prefetched: CodeFile[] }> => {
+    const { owner, repo, commitSha } = source;
+    const limits = request.token ? RANKING_LIMITS.authenticated : RANKING_LIMITS.anonymous;
+
+    updateProgress({ stage: 'FETCHING', message: 'Analyzing recent commit history...', progress: {current: 0, total: 0} });
+    const churn = await getCommitChurn(owner, repo, commitSha, limits.commits, request);
+
+    const preliminary = rankFiles(candidates, new Map(), churn);
+    const candidatesByPath = new Map(candidates.map(entry => [entry.path, entry]));
+    const pool = preliminary
+        .filter(f => f.size <= config.maxTotalBytes)
+        .slice(0, limits.poolSize)
+        .map(f => candidatesByPath.get(f.path)!);
+
+    updateProgress({ stage: 'FETCHING', message: `Fetching ${pool.length} candidate files to build the import graph...`, progress: {current: 0, total: 0} });
+    const prefetched = await fetchFiles(owner, repo, pool, request);
+    const fanIn = computeFanIn(prefetched, new Set(fileTree.map(entry => entry.path)));
+
+    const ranked = rankFiles(candidates, fanIn, churn);
+    const selected = new Set(applyBudget(ranked, config).map(f => f.path));
+    const fileScores = ranked
+        .map(f => ({ ...f, selected: selected.has(f.path) }))
+        .filter((f, i) => f.selected || i < RANKING_DISPLAY_COUNT);
+
+    return { code: ranked.filter(f => selected.has(f.path)).map(f => f.path), fileScores, prefetched };
+};
+
+
+// --- Repository Snapshot ---
+
+/** Resolves the ref to analyze, then loads the file tree and the repository's config file at that commit. */
+const loadRepoSnapshot = async (
+    repoUrl: string,
+    options: AnalysisOptions,
+    request: GitHubRequestOptions,
+    updateProgress: (status: AnalysisStatus) => void
+): Promise<RepoSnapshot> => {
+    const parsedUrl = parseRepoUrl(repoUrl);
+    const { owner, repo } = parsedUrl;
+
+    let ref = options.ref?.trim() || parsedUrl.ref;
+    if (!ref) {
+        updateProgress({ stage: 'FETCHING', message: 'Getting default branch...', progress: {current: 0, total: 0} });
+        ref = await getRepoDefaultBranch(owner, repo, request);
+    }
+
+    updateProgress({ stage: 'FETCHING', message: `Resolving ${ref}...`, progress: {current: 0, total: 0} });
+    const commitSha = await resolveCommitSha(owner, repo, ref, request);
+
+    updateProgress({ stage: 'FETCHING', message: 'Fetching file list...', progress: {current: 0, total: 0} });
+    const fileTree = await getRepoFileTree(owner, repo, commitSha, request);
+    const repoConfig = await loadRepoConfig(owner, repo, fileTree, request);
+
+    return { source: { kind: 'github', owner, repo, ref, commitSha }, fileTree, repoConfig };
+};
+
+/**
+ * Loads the repository tree for the file picker, together with the files the
+ * automatic selection would choose so they can be pre-checked.
+ */
+export const fetchRepoFileTree = async (
     repoUrl: string,
+    options: AnalysisOptions = {}
+): Promise<RepoSnapshot & { defaultSelection: string[] }> => {
+    const request: GitHubRequestOptions = { token: options.token?.trim() || undefined, signal: options.signal };
+    const snapshot = await loadRepoSnapshot(repoUrl, options, request, () => {});
+    const config = resolveSelectionConfig(snapshot.repoConfig?.selection, { ...options.selection, manualSelection: undefined });
+    return { ...snapshot, defaultSelection: selectFilesForAnalysis(snapshot.fileTree, config).code };
+};
+
+
+// --- Main Orchestrator Functions ---
+
+const startPullRequestAnalysis = async (
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    request: GitHubRequestOptions,
+    options: AnalysisOptions,
     updateProgress: (status: AnalysisStatus) => void
 ): Promise<RepoAnalysisData> => {
 
-    updateProgress({ stage: 'INITIALIZING', message: 'Parsing repository URL...', progress: {current: 0, total: 0} });
-    const { owner, repo } = parseRepoUrl(repoUrl);
+    updateProgress({ stage: 'FETCHING', message: `Fetching pull request #${pullNumber}...`, progress: {current: 0, total: 0} });
+    const pr = await getPullRequest(owner, repo, pullNumber, request);
+    const headSha: string = pr.head.sha;
+
+    updateProgress({ stage: 'FETCHING', message: 'Fetching changed files and diffs...', progress: {current: 0, total: 0} });
+    const changedFiles = await getPullRequestFiles(owner, repo, pullNumber, request);
 
-    updateProgress({ stage: 'FETCHING', message: 'Getting default branch...', progress: {current: 0, total: 0} });
-    const branch = await getRepoDefaultBranch(owner, repo);
-    
     updateProgress({ stage: 'FETCHING', message: 'Fetching file list...', progress: {current: 0, total: 0} });
-    const fileTree = await getRepoFileTree(owner, repo, branch);
-    
-    const { structural, code } = selectFilesForAnalysis(fileTree);
+    const fileTree = await getRepoFileTree(owner, repo, pr.base.sha, request);
+    const repoConfig = await loadRepoConfig(owner, repo, fileTree, request);
+    const selectionConfig = resolveSelectionConfig(repoConfig?.selection, options.selection);
+    const reviewProfile = resolveReviewProfile(options.profile, repoConfig);
+    const { structural } = selectFilesForAnalysis(fileTree, selectionConfig);
+
+    // Every changed code file is reviewed; the file count and size budgets only apply to whole-repository analysis
+    const reviewable = changedFiles.filter(f =>
+        f.status !== 'removed' && f.hunks.length > 0 && isCodeFile(f.path, selectionConfig.extraExtensions)
+    );
+    if (reviewable.length === 0) {
+        throw new Error(`Pull request #${pullNumber} does not change any reviewable source code files.`);
+    }
+
+    updateProgress({ stage: 'FETCHING', message: `Fetching ${structural.length + reviewable.length} files...`, progress: {current: 0, total: 0} });
+    // Blobs from the head commit (including forks) are reachable through the base repository
+    const [structuralFiles, codeFiles] = await Promise.all([
+        fetchFiles(owner, repo, fileTree.filter(f => structural.includes(f.path)), request),
+        fetchFiles(owner, repo, reviewable, request),
+    ]);
+
+    return {
+        mode: 'pullRequest',
+        source: { kind: 'github', owner, repo, ref: pr.head.ref, commitSha: headSha },
+        selectionConfig,
+        reviewProfile,
+        structuralFiles,
+        codeFiles,
+        pullRequest: {
+            number: pullNumber,
+            title: pr.title,
+            url: pr.html_url,
+            baseRef: pr.base.ref,
+            headRef: pr.head.ref,
+            headSha,
+            files: reviewable,
+        },
+    };
+};
+
+export const startRepositoryAnalysis = async (
+    repoUrl: string,
+    updateProgress: (status: AnalysisStatus) => void,
+    options: AnalysisOptions = {}
+): Promise<RepoAnalysisData> => {
+    const { request, report } = createRequestContext(options, updateProgress);
+
+    report({ stage: 'INITIALIZING', message: 'Parsing repository URL...', progress: {current: 0, total: 0} });
+    const { owner, repo, pullNumber } = parseRepoUrl(repoUrl);
+
+    if (pullNumber !== undefined) {
+        return startPullRequestAnalysis(owner, repo, pullNumber, request, options, report);
+    }
+
+    const { source, fileTree, repoConfig } = await loadRepoSnapshot(repoUrl, options, request, report);
+    if (repoConfig) {
+        report({ stage: 'FETCHING', message: `Applying file selection settings from ${repoConfig.path}...`, progress: {current: 0, total: 0} });
+    }
+    const selectionConfig = resolveSelectionConfig(repoConfig?.selection, options.selection);
+    const reviewProfile = resolveReviewProfile(options.profile, repoConfig);
+
+    const { structural, code: defaultCode } = selectFilesForAnalysis(fileTree, selectionConfig);
+    let code = defaultCode;
+    let fileScores: FileScore[] | undefined;
+    let prefetched: CodeFile[] = [];
+
+    const candidates = selectCandidateFiles(fileTree, selectionConfig);
+    // Hand-picked files are reviewed as-is; ranking is only worthwhile when there is a choice to make
+    if (!selectionConfig.manualSelection?.length && candidates.length > selectionConfig.maxFiles) {
+        ({ code, fileScores, prefetched } = await prioritizeFiles(source, fileTree, candidates, selectionConfig, request, report));
+    }
+
     const filesToFetch = [...structural, ...code];
-    
     if (filesToFetch.length === 0) {
         throw new Error("Could not find any relevant files to analyze in this repository.");
     }
-    
-    const fetchPromises = filesToFetch.map(async (path) => {
-        const rawUrl = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}/${path}`;
-        const response = await fetch(rawUrl);
-        if (!response.ok) throw new Error(`Failed to fetch ${path}`);
-        return { path, content: await response.text() };
-    });
 
-    updateProgress({ stage: 'FETCHING', message: `Fetching ${filesToFetch.length} files...`, progress: {current: 0, total: 0} });
-    const allFiles = await Promise.all(fetchPromises);
-    
+    const prefetchedByPath = new Map(prefetched.map(file => [file.path, file]));
+    const remaining = filesToFetch.filter(path => !prefetchedByPath.has(path));
+    report({ stage: 'FETCHING', message: `Fetching ${remaining.length} files...`, progress: {current: 0, total: 0} });
+    const entriesByPath = new Map(fileTree.map(entry => [entry.path, entry]));
+    const fetched = await fetchFiles(owner, repo, remaining.map(path => entriesByPath.get(path)!), request);
+    fetched.forEach(file => prefetchedByPath.set(file.path, file));
+
     return {
-        structuralFiles: allFiles.filter(f => structural.includes(f.path)),
-        codeFiles: allFiles.filter(f => code.includes(f.path))
+        mode: 'repository',
+        source,
+        selectionConfig,
+        fileScores,
+        reviewProfile,
+        structuralFiles: structural.map(path => prefetchedByPath.get(path)!),
+        codeFiles: code.map(path => prefetchedByPath.get(path)!)
     };
 };
+
+
+// --- Repository Index ---
+
+/**
+ * Loads the text files of the analyzed commit for the DeepWiki index. Files in `known` are
+ * reused; the others are fetched, shallowest first, up to a limit that fits the rate limit.
+ * Files that fail to load are skipped rather than failing the whole index.
+ */
+export const fetchIndexableFiles = async (
+    source: AnalysisSource,
+    known: CodeFile[],
+    options: AnalysisOptions = {}
+): Promise<{ files: CodeFile[]; skippedFiles: number }> => {
+    const request: GitHubRequestOptions = { token: options.token?.trim() || undefined, signal: options.signal };
+    const { owner, repo, commitSha } = source;
+    const fileTree = await getRepoFileTree(owner, repo, commitSha, request);
+    const knownPaths = new Set(known.map(file => file.path));
+    const limit = request.token ? INDEX_FETCH_LIMITS.authenticated : INDEX_FETCH_LIMITS.anonymous;
+    const missing = fileTree
+        .filter(entry => isIndexableFile(entry) && !knownPaths.has(entry.path))
+        .sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path));
+
+    const limitConcurrency = createConcurrencyLimiter(INDEX_FETCH_CONCURRENCY);
+    const fetched = await Promise.all(missing.slice(0, limit).map(entry => limitConcurrency(async () => {
+        try {
+            return { path: entry.path, content: await getBlobContent(owner, repo, entry.sha, request) };
+        } catch (error) {
+            if (isAbortError(error)) throw error;
+            return null;
+        }
+    })));
+    const files = fetched.filter((file): file is CodeFile => file !== null);
+    return { files: [...known, ...files], skippedFiles: missing.length - files.length };
+};
+
+
+// --- Snapshot Reading ---
+
+/**
+ * Reads the analyzed commit on demand. The tree is fetched once; contents go through the
+ * blob cache, so files the DeepWiki index already loaded cost no request.
+ */
+export const createGitHubReader = (source: AnalysisSource, token?: string): SnapshotReader => {
+    const { owner, repo, commitSha } = source;
+    const requestFor = (signal?: AbortSignal): GitHubRequestOptions => ({ token: token?.trim() || undefined, signal });
+    let tree: Promise<RepoTreeEntry[]> | null = null;
+
+    const loadTree = (signal?: AbortSignal): Promise<RepoTreeEntry[]> => {
+        // A failed or cancelled fetch is tried again on the next call
+        tree ??= getRepoFileTree(owner, repo, commitSha, requestFor(signal)).catch(error => {
+            tree = null;
+            throw error;
+        });
+        return tree;
+    };
+
+    return {
+        listFiles: loadTree,
+        readFile: async (path, signal) => {
+            const entry = (await loadTree(signal)).find(e => e.path === path);
+            return entry ? getBlobContent(owner, repo, entry.sha, requestFor(signal)) : null;
+        },
+        fileHistory: async (path, limit, signal) => {
+            const response = await githubFetch(
+                `/repos/${owner}/${repo}/commits?sha=${commitSha}&path=${encodeURIComponent(path)}&per_page=${limit}`,
+                requestFor(signal),
+                `Could not fetch the history of ${path}.`
+            );
+            const commits: any[] = await response.json();
+            return commits.map(commit => ({
+                sha: commit.sha,
+                date: commit.commit?.author?.date ?? '',
+                author: commit.commit?.author?.name ?? commit.author?.login ?? 'unknown',
+                message: commit.commit?.message ?? '',
+            }));
+        },
+    };
+};
+
+
+// --- Publishing ---
+
+export interface ReviewCommentDraft {
+  path: string;
+  // Line in the new version of the file; must be part of the pull request diff
+  line: number;
+  startLine?: number;
+  body: string;
+}
+
+export interface PullRequestReviewDraft {
+  commitId: string;
+  body: string;
+  comments: ReviewCommentDraft[];
+}
+
+export interface IssueDraft {
+  title: string;
+  body: string;
+}
+
+const requireToken = (options: GitHubRequestOptions): GitHubRequestOptions => {
+  const token = options.token?.trim();
+  if (!token) {
+    throw new Error('Posting to GitHub requires an access token with write access to the repository.');
+  }
+  return { ...options, token };
+};
+
+/** Submits a pull request review with inline comments. Returns the URL of the review. */
+export const postPullRequestReview = async (
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  draft: PullRequestReviewDraft,
+  options: GitHubRequestOptions
+): Promise<string> => {
+  const response = await githubFetch(
+    `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`,
+    requireToken(options),
+    'Could not post the pull request review.',
+    'application/vnd.github+json',
+    {
+      method: 'POST',
+      json: {
+        commit_id: draft.commitId,
+        body: draft.body,
+        event: 'COMMENT',
+        comments: draft.comments.map(c => ({
+          path: c.path,
+          line: c.line,
+          side: 'RIGHT',
+          ...(c.startLine !== undefined ? { start_line: c.startLine, start_side: 'RIGHT' } : {}),
+          body: c.body,
+        })),
+      },
+    }
+  );
+  const data = await response.json();
+  return data.html_url;
+};
+
+/** Opens an issue and returns its URL. */
+export const createIssue = async (
+  owner: string,
+  repo: string,
+  draft: IssueDraft,
+  options: GitHubRequestOptions
+): Promise<string> => {
+  const response = await githubFetch(
+    `/repos/${owner}/${repo}/issues`,
+    requireToken(options),
+    'Could not create the issue.',
+    'application/vnd.github+json',
+    { method: 'POST', json: { title: draft.title, body: draft.body } }
+  );
+  const data = await response.json();
+  return data.html_url;
+};
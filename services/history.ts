@@ -0,0 +1,44 @@
+
+import { ChatMessage, FinalReport, VisualDocumentationData } from "./geminiService";
+import { RepoAnalysisData } from "./githubService";
+import { deleteRecord, getAllRecords, getRecord, putRecord } from "./storage";
+import { describeSourceName, isGitHubSource } from "./sources";
+
+/** A completed analysis as saved in the local history. */
+export interface AnalysisRecord {
+  id: string;
+  savedAt: string;
+  githubUrl: string;
+  // Includes the source ref/commit and the selected files with their contents
+  repoData: RepoAnalysisData;
+  architecturalSummary: string;
+  report: FinalReport;
+  visualDocs: VisualDocumentationData | null;
+  chatHistory: ChatMessage[];
+}
+
+export const createRecordId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const saveAnalysis = (record: AnalysisRecord): Promise<void> => putRecord('history', record.id, record);
+
+/** Updates the parts of a saved analysis that change after the report, such as docs and chat. */
+export const updateAnalysis = async (id: string, update: Partial<Omit<AnalysisRecord, 'id'>>): Promise<void> => {
+  const existing = await getRecord<AnalysisRecord>('history', id);
+  if (!existing) return;
+  await putRecord('history', id, { ...existing, ...update });
+};
+
+/** All saved analyses, newest first. */
+export const listAnalyses = async (): Promise<AnalysisRecord[]> => {
+  const records = await getAllRecords<AnalysisRecord>('history');
+  return records.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const deleteAnalysis = (id: string): Promise<void> => deleteRecord('history', id);
+
+export const isSameRepository = (a: AnalysisRecord, b: AnalysisRecord): boolean =>
+  isGitHubSource(a.repoData.source) === isGitHubSource(b.repoData.source)
+  && describeSourceName(a.repoData.source).toLowerCase() === describeSourceName(b.repoData.source).toLowerCase();
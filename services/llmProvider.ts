@@ -0,0 +1,163 @@
+
+import type { Schema } from "@google/genai";
+import type { GroundingSource } from "./geminiService";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+
+// --- Interfaces ---
+
+/** The kinds of work the app asks a model to do; each can use a different model. */
+export type LlmTask = 'summary' | 'fileReview' | 'securityTriage' | 'synthesis' | 'docs' | 'chat' | 'recommendations';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+interface LlmStreamOptions {
+  signal: AbortSignal;
+  // When set, the response is streamed and this is called with the text received so far
+  onText?: (text: string) => void;
+}
+
+interface LlmRequestBase extends LlmStreamOptions {
+  task: LlmTask;
+  model: string;
+}
+
+export interface LlmTextRequest extends LlmRequestBase {
+  prompt: string;
+}
+
+export interface LlmJsonRequest extends LlmTextRequest {
+  // Gemini's schema format; other providers translate it
+  schema: Schema;
+}
+
+export interface LlmChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+/** A function the model may call during a chat; `parameters` is an object schema. */
+export interface LlmToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Schema;
+}
+
+export interface LlmToolCall {
+  // Empty when the provider does not identify calls
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+  id: string;
+  name: string;
+  output: string;
+}
+
+export interface LlmChatSessionRequest {
+  task: LlmTask;
+  model: string;
+  systemInstruction: string;
+  history: LlmChatTurn[];
+  tools?: LlmToolDeclaration[];
+}
+
+export interface LlmChatMessage extends LlmStreamOptions {
+  // A user message, or the results of every tool call in the previous reply
+  message: string | LlmToolResult[];
+}
+
+export interface LlmChatReply {
+  text: string;
+  // When not empty, the model expects the results as the next message
+  toolCalls: LlmToolCall[];
+}
+
+/** A conversation that keeps its system instruction and history between messages. */
+export interface LlmChatSession {
+  // The exchange is only added to the history when the reply completes
+  sendMessage: (request: LlmChatMessage) => Promise<LlmChatReply>;
+}
+
+export interface LlmGroundedResponse {
+  text: string;
+  sources: GroundingSource[];
+}
+
+/** A model backend. Implementations throw errors with a numeric `status` where they have one, so retries work. */
+export interface LlmProvider {
+  label: string;
+  generateText: (request: LlmTextRequest) => Promise<string>;
+  // Returns the raw JSON text; the caller parses it
+  generateJson: (request: LlmJsonRequest) => Promise<string>;
+  startChat: (request: LlmChatSessionRequest) => LlmChatSession;
+  // Providers without web search answer from the model alone, with no sources. Never streamed.
+  groundedSearch: (request: LlmTextRequest) => Promise<LlmGroundedResponse>;
+}
+
+export interface LlmSettings {
+  provider: ProviderId;
+  // Empty entries use the provider's default model
+  models: Partial<Record<LlmTask, string>>;
+  // Only used by the OpenAI-compatible provider
+  baseUrl: string;
+  apiKey: string;
+}
+
+// --- Settings ---
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai', label: 'OpenAI-compatible server', defaultModel: 'llama3.1' },
+  { id: 'mock', label: 'Offline mock (fixtures)', defaultModel: 'mock' },
+];
+
+export const LLM_TASKS: { key: LlmTask; label: string }[] = [
+  { key: 'summary', label: 'Architecture summary' },
+  { key: 'fileReview', label: 'File review' },
+  { key: 'securityTriage', label: 'Security triage' },
+  { key: 'synthesis', label: 'Report synthesis' },
+  { key: 'docs', label: 'Visual docs' },
+  { key: 'chat', label: 'Chat' },
+  { key: 'recommendations', label: 'Recommendations' },
+];
+
+// Ollama's default endpoint; LM Studio, llama.cpp and vLLM expose the same API on other ports
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  models: {},
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  apiKey: '',
+};
+
+let currentSettings: LlmSettings = DEFAULT_LLM_SETTINGS;
+
+/** Sets the provider and models used by every following request. */
+export const configureLlm = (settings: LlmSettings): void => {
+  currentSettings = settings;
+};
+
+export const getLlmSettings = (): LlmSettings => currentSettings;
+
+export const defaultModelFor = (provider: ProviderId): string =>
+  PROVIDER_OPTIONS.find(option => option.id === provider)!.defaultModel;
+
+export const resolveModel = (task: LlmTask, settings: LlmSettings = currentSettings): string =>
+  settings.models[task]?.trim() || defaultModelFor(settings.provider);
+
+/** The provider for the current settings. Clients are created on first use, not at import. */
+export const getProvider = (settings: LlmSettings = currentSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return geminiProvider;
+    case 'openai':
+      return createOpenAiProvider(settings.baseUrl, settings.apiKey);
+    case 'mock':
+      return mockProvider;
+  }
+};
@@ -0,0 +1,203 @@
+
+import { AnalysisStatus } from "../components/AnalysisProgress";
+import { readArchive } from "./archive";
+import { FileScore, computeFanIn, rankFiles } from "./fileRanking";
+import {
+  FileSelectionConfig, SelectableFile, applyBudget, resolveSelectionConfig, selectCandidateFiles, selectFilesForAnalysis
+} from "./fileSelection";
+import { AnalysisOptions, CodeFile, RepoAnalysisData, RepoTreeEntry, SnapshotReader } from "./githubService";
+import { RepoConfig, REPO_CONFIG_PATHS, parseRepoConfig } from "./repoConfig";
+import { isIndexableFile } from "./repoIndex";
+import { resolveReviewProfile } from "./reviewProfiles";
+import { createAbortError } from "./requestLayer";
+import { hashKey } from "./responseCache";
+
+export interface SourceFile extends SelectableFile {
+  read: () => Promise<string>;
+}
+
+/** Files from a local directory or an uploaded archive, read on demand. */
+export interface LocalSource {
+  kind: 'directory' | 'archive';
+  name: string;
+  files: SourceFile[];
+}
+
+// Reading local files is cheap, so the import graph can be built from a much larger pool than on GitHub
+const LOCAL_RANKING_POOL_SIZE = 200;
+
+const RANKING_DISPLAY_COUNT = 20;
+
+const MAX_INDEXED_LOCAL_FILES = 2000;
+
+// --- Creating Sources ---
+
+/**
+ * Builds a source from the files of a browser directory picker (`<input webkitdirectory>`).
+ * Paths are made relative to the chosen directory.
+ */
+export const fromBrowserDirectory = (fileList: FileList | File[]): LocalSource => {
+  const files = Array.from(fileList);
+  const name = files[0]?.webkitRelativePath.split('/')[0] || 'directory';
+  return {
+    kind: 'directory',
+    name,
+    files: files.map(file => ({
+      path: file.webkitRelativePath.substring(file.webkitRelativePath.indexOf('/') + 1) || file.name,
+      size: file.size,
+      read: () => file.text(),
+    })),
+  };
+};
+
+/** Builds a source from a .zip, .tar.gz/.tgz or .tar archive. */
+export const fromArchive = async (fileName: string, buffer: ArrayBuffer): Promise<LocalSource> => {
+  const entries = await readArchive(fileName, buffer);
+  const decoder = new TextDecoder();
+  return {
+    kind: 'archive',
+    name: fileName.replace(/\.(zip|tar\.gz|tgz|tar)$/i, ''),
+    files: entries.map(entry => ({
+      path: entry.path,
+      size: entry.size,
+      read: async () => decoder.decode(await entry.read()),
+    })),
+  };
+};
+
+// --- Helpers ---
+
+const toTreeEntries = (source: LocalSource): RepoTreeEntry[] =>
+  source.files.map(file => ({ path: file.path, sha: '', size: file.size }));
+
+const readFiles = async (source: LocalSource, paths: string[], signal?: AbortSignal): Promise<CodeFile[]> => {
+  const byPath = new Map(source.files.map(file => [file.path, file]));
+  return Promise.all(paths.map(async path => {
+    if (signal?.aborted) throw createAbortError();
+    return { path, content: await byPath.get(path)!.read() };
+  }));
+};
+
+const loadLocalRepoConfig = async (source: LocalSource): Promise<RepoConfig | null> => {
+  const configFile = REPO_CONFIG_PATHS
+    .map(path => source.files.find(file => file.path === path))
+    .find(file => file !== undefined);
+  return configFile ? parseRepoConfig(configFile.path, await configFile.read()) : null;
+};
+
+// Identifies the exact snapshot that was analyzed, in place of a commit SHA
+const fingerprint = async (files: CodeFile[]): Promise<string> => {
+  const text = [...files]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(file => `${file.path}\0${file.content}`)
+    .join('\0');
+  return (await hashKey(text)).substring(0, 40);
+};
+
+/** Same ranking as for GitHub repositories, but by import fan-in, size and entry points only: there is no history. */
+const prioritizeLocalFiles = async (
+  source: LocalSource,
+  candidates: SourceFile[],
+  config: FileSelectionConfig,
+  signal?: AbortSignal
+): Promise<{ code: string[]; fileScores: FileScore[]; prefetched: CodeFile[] }> => {
+  const noChurn = new Map<string, number>();
+  const pool = rankFiles(candidates, new Map(), noChurn)
+    .filter(f => f.size <= config.maxTotalBytes)
+    .slice(0, LOCAL_RANKING_POOL_SIZE)
+    .map(f => f.path);
+  const prefetched = await readFiles(source, pool, signal);
+  const fanIn = computeFanIn(prefetched, new Set(source.files.map(file => file.path)));
+
+  const ranked = rankFiles(candidates, fanIn, noChurn);
+  const selected = new Set(applyBudget(ranked, config).map(f => f.path));
+  const fileScores = ranked
+    .map(f => ({ ...f, selected: selected.has(f.path) }))
+    .filter((f, i) => f.selected || i < RANKING_DISPLAY_COUNT);
+
+  return { code: ranked.filter(f => selected.has(f.path)).map(f => f.path), fileScores, prefetched };
+};
+
+// --- Analysis ---
+
+/** The file tree and config of a local source, with the files the automatic selection would choose. */
+export const loadLocalFileTree = async (
+  source: LocalSource,
+  options: AnalysisOptions = {}
+): Promise<{ fileTree: RepoTreeEntry[]; repoConfig: RepoConfig | null; defaultSelection: string[] }> => {
+  const fileTree = toTreeEntries(source);
+  const repoConfig = await loadLocalRepoConfig(source);
+  const config = resolveSelectionConfig(repoConfig?.selection, { ...options.selection, manualSelection: undefined });
+  return { fileTree, repoConfig, defaultSelection: selectFilesForAnalysis(fileTree, config).code };
+};
+
+/** Counterpart of `startRepositoryAnalysis` for a local directory or archive. */
+export const startLocalAnalysis = async (
+  source: LocalSource,
+  updateProgress: (status: AnalysisStatus) => void,
+  options: AnalysisOptions = {}
+): Promise<RepoAnalysisData> => {
+  const { signal } = options;
+  updateProgress({ stage: 'FETCHING', message: `Reading ${source.files.length} files from ${source.name}...`, progress: { current: 0, total: 0 } });
+  const repoConfig = await loadLocalRepoConfig(source);
+  const selectionConfig = resolveSelectionConfig(repoConfig?.selection, options.selection);
+  const reviewProfile = resolveReviewProfile(options.profile, repoConfig);
+
+  const { structural, code: defaultCode } = selectFilesForAnalysis(source.files, selectionConfig);
+  let code = defaultCode;
+  let fileScores: FileScore[] | undefined;
+  let prefetched: CodeFile[] = [];
+
+  const candidates = selectCandidateFiles(source.files, selectionConfig);
+  if (!selectionConfig.manualSelection?.length && candidates.length > selectionConfig.maxFiles) {
+    updateProgress({ stage: 'FETCHING', message: 'Building the import graph to rank files...', progress: { current: 0, total: 0 } });
+    ({ code, fileScores, prefetched } = await prioritizeLocalFiles(source, candidates, selectionConfig, signal));
+  }
+
+  const filesToRead = [...structural, ...code];
+  if (filesToRead.length === 0) {
+    throw new Error(`Could not find any relevant files to analyze in ${source.name}.`);
+  }
+
+  const filesByPath = new Map(prefetched.map(file => [file.path, file]));
+  const remaining = filesToRead.filter(path => !filesByPath.has(path));
+  (await readFiles(source, remaining, signal)).forEach(file => filesByPath.set(file.path, file));
+  const codeFiles = code.map(path => filesByPath.get(path)!);
+
+  return {
+    mode: 'repository',
+    source: {
+      kind: source.kind,
+      owner: '',
+      repo: source.name,
+      ref: source.kind === 'directory' ? 'local directory' : 'uploaded archive',
+      commitSha: await fingerprint(codeFiles),
+    },
+    selectionConfig,
+    fileScores,
+    reviewProfile,
+    structuralFiles: structural.map(path => filesByPath.get(path)!),
+    codeFiles,
+  };
+};
+
+/** Counterpart of `fetchIndexableFiles`: reads the text files of a local source for the DeepWiki index. */
+export const readIndexableFiles = async (
+  source: LocalSource,
+  signal?: AbortSignal
+): Promise<{ files: CodeFile[]; skippedFiles: number }> => {
+  const indexable = source.files.filter(isIndexableFile);
+  const files = await readFiles(source, indexable.slice(0, MAX_INDEXED_LOCAL_FILES).map(file => file.path), signal);
+  return { files, skippedFiles: indexable.length - files.length };
+};
+
+/** Counterpart of `createGitHubReader`. Local sources have no history. */
+export const createLocalReader = (source: LocalSource): SnapshotReader => ({
+  listFiles: async () => source.files,
+  readFile: async (path, signal) => {
+    if (signal?.aborted) throw createAbortError();
+    const file = source.files.find(f => f.path === path);
+    return file ? file.read() : null;
+  },
+  fileHistory: null,
+});
@@ -0,0 +1,15 @@
+
+import mermaid from "mermaid";
+
+/**
+ * Parses a diagram the way rendering does, without touching the page. Resolves with the
+ * parser's message (which points at the failing line), or null when the diagram is valid.
+ */
+export const findMermaidError = async (code: string): Promise<string | null> => {
+  try {
+    await mermaid.parse(code);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
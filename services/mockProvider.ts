@@ -0,0 +1,171 @@
+
+import type { LlmJsonRequest, LlmProvider, LlmTask } from "./llmProvider";
+import { abortableSleep, createAbortError } from "./requestLayer";
+
+// --- Fixtures ---
+
+const TEXT_FIXTURES: Partial<Record<LlmTask, string>> = {
+  summary: [
+    '**Mock architecture summary.** This text comes from the offline mock provider, not a model.',
+    '',
+    '- Primary language and framework are not inferred in mock mode.',
+    '- Use this provider to demo the UI or to test the pipeline without network access.',
+  ].join('\n'),
+  synthesis: [
+    'This report was produced by the offline mock provider. Findings are generated deterministically',
+    'from `TODO`, `FIXME`, `HACK` and `XXX` markers in the reviewed code.',
+  ].join('\n'),
+  recommendations: 'The mock provider does not search the web. A well-known starting point for review practices is listed below.',
+};
+
+const DOCS_FIXTURE = {
+  architectureDiagram: 'graph TD\n  UI[User Interface] --> Services\n  Services --> Storage[(Storage)]\n  Services --> API[External APIs]',
+  dependencyGraph: 'graph LR\n  App --> Services\n  Services --> Utilities',
+  flowchart: 'flowchart TD\n  Start([Start]) --> Load[Load input]\n  Load --> Process[Process]\n  Process --> Done([Done])',
+  classDiagram: '',
+};
+
+const RECOMMENDATION_SOURCES = [
+  { web: { uri: 'https://github.com/google/eng-practices', title: 'google/eng-practices' } },
+];
+
+// --- Deterministic Reviews ---
+
+const MARKER_PATTERN = /\b(TODO|FIXME|HACK|XXX)\b/;
+
+interface MockFinding {
+  startLine: number;
+  endLine: number;
+  severity: 'low';
+  category: 'maintainability';
+  title: string;
+  explanation: string;
+  suggestedFix: string;
+  hunkIndex?: number;
+}
+
+const createFinding = (line: number, text: string, hunkIndex?: number): MockFinding => ({
+  startLine: line,
+  endLine: line,
+  severity: 'low',
+  category: 'maintainability',
+  title: `Unresolved ${text.match(MARKER_PATTERN)![1]} marker`,
+  explanation: `Line ${line} contains an open marker: \`${text.trim().substring(0, 120)}\``,
+  suggestedFix: '',
+  ...(hunkIndex !== undefined ? { hunkIndex } : {}),
+});
+
+// Numbered code lines look like "  12 | code"; added diff lines look like "  12 +code"
+const findMarkers = (text: string, linePattern: RegExp): { line: number; text: string }[] =>
+  text.split('\n')
+    .map(line => line.match(linePattern))
+    .filter((match): match is RegExpMatchArray => match !== null && MARKER_PATTERN.test(match[2]))
+    .map(match => ({ line: parseInt(match[1], 10), text: match[2] }));
+
+const reviewPrompt = ({ prompt, schema }: LlmJsonRequest): string => {
+  const findingProperties = schema.properties?.findings?.items?.properties ?? {};
+  let findings: MockFinding[];
+  if ('hunkIndex' in findingProperties) {
+    findings = prompt.split(/^### Hunk (\d+)$/m).slice(1).flatMap((part, i, parts) => i % 2 === 0
+      ? findMarkers(parts[i + 1], /^\s*(\d+) \+(.*)$/).map(m => createFinding(m.line, m.text, parseInt(part, 10)))
+      : []);
+  } else {
+    findings = findMarkers(prompt, /^\s*(\d+) \| (.*)$/).map(m => createFinding(m.line, m.text));
+  }
+  return JSON.stringify({
+    summary: findings.length > 0
+      ? `Mock review: ${findings.length} open marker(s) found.`
+      : 'Mock review: no open markers found.',
+    findings,
+  });
+};
+
+// Confirms every hit with the severity and CWE the scan suggested
+const triagePrompt = (prompt: string): string => JSON.stringify({
+  results: Array.from(prompt.matchAll(/^### Hit (\d+)\nRule: .*, suggested severity (\w+), (CWE-\d+)$/gm), match => ({
+    index: parseInt(match[1], 10),
+    verdict: 'confirmed',
+    severity: match[2],
+    cwe: match[3],
+    explanation: 'Mock triage: confirmed without analysis.',
+    suggestedFix: '',
+  })),
+});
+
+// The mock cannot fix syntax, so it returns the diagram unchanged and a broken one reaches the editor
+const repairPrompt = (prompt: string): string =>
+  JSON.stringify({ diagram: prompt.match(/```mermaid\n([\s\S]*?)\n```/)?.[1] ?? '' });
+
+// Echoes the question and cites the first excerpt retrieved for it
+const chatAnswer = (message: string, number: number): string => {
+  const question = message.match(/^Question: (.*)$/m)?.[1] ?? message;
+  const excerpt = message.match(/^### (\S+:\d+-\d+)$/m)?.[1];
+  return `Mock answer #${number} to: "${question}"${excerpt ? ` The closest match is [${excerpt}].` : ''}`;
+};
+
+// --- Provider ---
+
+const checkAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw createAbortError();
+};
+
+// Replays the answer a few characters at a time, so streaming can be demoed and cancelled offline
+const STREAM_DELAY_MS = 15;
+
+const respond = async (text: string, signal: AbortSignal, onText?: (text: string) => void): Promise<string> => {
+  checkAborted(signal);
+  if (!onText) return text;
+  const pieces = text.match(/\S+\s*|\s+/g) ?? [];
+  let sent = '';
+  for (const piece of pieces) {
+    await abortableSleep(STREAM_DELAY_MS, signal);
+    sent += piece;
+    onText(sent);
+  }
+  return text;
+};
+
+/** Answers from fixtures without any network access, so runs are repeatable in tests and demos. */
+export const mockProvider: LlmProvider = {
+  label: 'Mock',
+
+  generateText: ({ task, signal, onText }) =>
+    respond(TEXT_FIXTURES[task] ?? 'Mock response.', signal, onText),
+
+  generateJson: async (request) => {
+    checkAborted(request.signal);
+    const text = request.task === 'docs' && 'diagram' in (request.schema.properties ?? {}) ? repairPrompt(request.prompt)
+      : request.task === 'docs' ? JSON.stringify(DOCS_FIXTURE)
+      : request.task === 'securityTriage' ? triagePrompt(request.prompt)
+      : reviewPrompt(request);
+    return respond(text, request.signal, request.onText);
+  },
+
+  // Lists the root directory before each answer when the tool is offered, so the tool loop can be demoed offline
+  startChat: ({ history, tools }) => {
+    let answered = Math.floor(history.length / 2);
+    const canList = tools?.some(tool => tool.name === 'list_directory') ?? false;
+    let question = '';
+    return {
+      sendMessage: async ({ message, signal, onText }) => {
+        if (typeof message === 'string') {
+          question = message;
+          if (canList) {
+            checkAborted(signal);
+            return { text: '', toolCalls: [{ id: `mock-call-${answered + 1}`, name: 'list_directory', args: { path: '' } }] };
+          }
+        }
+        const listing = typeof message === 'string' ? ''
+          : ` The root directory has ${message[0].output.split('\n').length} entries.`;
+        const text = await respond(chatAnswer(question, answered + 1) + listing, signal, onText);
+        answered++;
+        return { text, toolCalls: [] };
+      },
+    };
+  },
+
+  groundedSearch: async ({ task, signal }) => {
+    checkAborted(signal);
+    return { text: TEXT_FIXTURES[task] ?? 'Mock response.', sources: RECOMMENDATION_SOURCES };
+  },
+};
@@ -0,0 +1,160 @@
+
+import type { Schema } from "@google/genai";
+import type { LlmProvider, LlmToolCall, LlmToolDeclaration } from "./llmProvider";
+
+interface CompletionToolCall {
+  id: string;
+  type: 'function';
+  // `arguments` is a JSON string
+  function: { name: string; arguments: string };
+}
+
+type ChatCompletionMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; tool_calls?: CompletionToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface Completion {
+  text: string;
+  toolCalls: CompletionToolCall[];
+}
+
+// Gemini schemas use upper-case type names and `format: "enum"`; JSON Schema uses neither
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    result.required = schema.required ?? Object.keys(schema.properties);
+  }
+  return result;
+};
+
+const toCompletionTool = (tool: LlmToolDeclaration) => ({
+  type: 'function',
+  function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) },
+});
+
+// Small local models sometimes send malformed arguments; the tool then reports what is missing
+const toToolCall = (call: CompletionToolCall): LlmToolCall => {
+  let args: Record<string, unknown> = {};
+  try {
+    args = JSON.parse(call.function.arguments || '{}');
+  } catch {
+    // Keep the empty arguments
+  }
+  return { id: call.id, name: call.function.name, args };
+};
+
+// Streamed completions arrive as server-sent events: `data: {json}` lines, ending with `data: [DONE]`.
+// Tool calls arrive in pieces too, keyed by their index: the id and name first, then the arguments.
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<Completion> => {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  const toolCalls: CompletionToolCall[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return { text, toolCalls };
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+      if (!data) continue;
+      if (data === '[DONE]') return { text, toolCalls };
+      const delta = JSON.parse(data).choices?.[0]?.delta;
+      for (const part of delta?.tool_calls ?? []) {
+        const call = toolCalls[part.index ?? 0] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.function.name += part.function.name;
+        if (part.function?.arguments) call.function.arguments += part.function.arguments;
+      }
+      if (delta?.content) {
+        text += delta.content;
+        onText(text);
+      }
+    }
+  }
+};
+
+/**
+ * A provider for any server implementing the OpenAI chat completions API, such as
+ * Ollama, LM Studio, llama.cpp or vLLM. Structured output uses `response_format: json_schema`.
+ */
+export const createOpenAiProvider = (baseUrl: string, apiKey: string): LlmProvider => {
+  const complete = async (
+    model: string,
+    messages: ChatCompletionMessage[],
+    signal: AbortSignal,
+    onText?: (text: string) => void,
+    extra: Record<string, unknown> = {}
+  ): Promise<Completion> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, messages, ...extra, ...(onText ? { stream: true } : {}) }),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      // The status lets the shared retry logic tell rate limits and server errors apart
+      throw Object.assign(
+        new Error(`${response.status} ${response.statusText}${detail ? `: ${detail.substring(0, 300)}` : ''}`),
+        { status: response.status }
+      );
+    }
+    if (onText && response.body) return readEventStream(response.body, onText);
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    return { text: message?.content ?? '', toolCalls: message?.tool_calls ?? [] };
+  };
+
+  return {
+    label: 'OpenAI-compatible server',
+
+    generateText: async ({ model, prompt, signal, onText }) =>
+      (await complete(model, [{ role: 'user', content: prompt }], signal, onText)).text,
+
+    generateJson: async ({ model, prompt, schema, signal, onText }) =>
+      (await complete(model, [{ role: 'user', content: prompt }], signal, onText, {
+        response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } },
+      })).text,
+
+    // The API is stateless, so the session keeps the messages and sends all of them each time
+    startChat: ({ model, systemInstruction, history, tools }) => {
+      const messages: ChatCompletionMessage[] = [
+        { role: 'system', content: systemInstruction },
+        ...history.map(turn => ({ role: turn.role === 'model' ? 'assistant' as const : 'user' as const, content: turn.text })),
+      ];
+      const extra = tools?.length ? { tools: tools.map(toCompletionTool) } : {};
+      return {
+        sendMessage: async ({ message, signal, onText }) => {
+          const input: ChatCompletionMessage[] = typeof message === 'string'
+            ? [{ role: 'user', content: message }]
+            : message.map(result => ({ role: 'tool', tool_call_id: result.id, content: result.output }));
+          const reply = await complete(model, [...messages, ...input], signal, onText, extra);
+          messages.push(...input, {
+            role: 'assistant',
+            content: reply.text,
+            ...(reply.toolCalls.length > 0 ? { tool_calls: reply.toolCalls } : {}),
+          });
+          return { text: reply.text, toolCalls: reply.toolCalls.map(toToolCall) };
+        },
+      };
+    },
+
+    groundedSearch: async ({ model, prompt, signal }) => ({
+      text: (await complete(model, [{ role: 'user', content: prompt }], signal)).text,
+      sources: [],
+    }),
+  };
+};
@@ -0,0 +1,31 @@
+
+import { FileSelectionConfig, parseSelectionConfig } from "./fileSelection";
+import { ReviewProfile, parseReviewProfiles } from "./reviewProfiles";
+
+/** Per-repository settings, read from a config file committed to the repository being analyzed. */
+export interface RepoConfig {
+  path: string;
+  selection: Partial<FileSelectionConfig>;
+  profiles: ReviewProfile[];
+  // Profile used when none is chosen for the run
+  defaultProfile?: string;
+}
+
+// Checked in order; the first one present in the repository tree wins.
+export const REPO_CONFIG_PATHS = ['.codereview.json', '.github/codereview.json'];
+
+export const parseRepoConfig = (path: string, content: string): RepoConfig => {
+  let raw: any;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'invalid JSON';
+    throw new Error(`Could not parse ${path}: ${reason}`);
+  }
+  return {
+    path,
+    selection: parseSelectionConfig(raw?.selection),
+    profiles: parseReviewProfiles(raw?.profiles, path),
+    defaultProfile: typeof raw?.profile === 'string' ? raw.profile : undefined,
+  };
+};
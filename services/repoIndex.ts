@@ -0,0 +1,162 @@
+
+import { SelectableFile } from "./fileSelection";
+import { CodeFile } from "./githubService";
+import { estimateTokens } from "./tokenBudget";
+
+// --- Interfaces ---
+
+export interface IndexedChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+export interface RetrievedChunk extends IndexedChunk {
+  score: number;
+}
+
+/** A BM25 index over fixed-size line windows of every text file in the repository. */
+export interface RepoIndex {
+  chunks: IndexedChunk[];
+  // Term counts per chunk, in the same order as `chunks`
+  termCounts: Map<string, number>[];
+  chunkLengths: number[];
+  averageLength: number;
+  // Number of chunks each term appears in
+  documentFrequency: Map<string, number>;
+  // The indexed files, also used to show the files that answers cite
+  files: CodeFile[];
+  // Text files that were left out, e.g. over the GitHub request limit
+  skippedFiles: number;
+}
+
+// --- Settings ---
+
+const CHUNK_LINES = 40;
+// Consecutive chunks share this many lines, so code near a boundary is found with its context
+const CHUNK_OVERLAP = 10;
+
+export const MAX_INDEXED_FILE_BYTES = 200_000;
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const SKIPPED_DIRS = ['node_modules', 'dist', 'build', 'vendor', '.git', 'coverage', '__pycache__', 'target'];
+
+const BINARY_EXTENSIONS = [
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.bmp', '.pdf', '.zip', '.gz', '.tgz', '.tar', '.jar',
+  '.woff', '.woff2', '.ttf', '.eot', '.otf', '.mp3', '.mp4', '.mov', '.wasm', '.so', '.dll', '.exe', '.bin', '.class', '.pyc',
+];
+
+// Generated files that are large and rarely what a question is about
+const SKIPPED_FILE_NAMES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'Cargo.lock', 'poetry.lock', 'composer.lock', 'go.sum'];
+
+// Question words that would otherwise match comments everywhere
+const STOP_WORDS = new Set([
+  'the', 'is', 'are', 'was', 'an', 'of', 'to', 'in', 'on', 'for', 'and', 'or', 'how', 'what', 'where', 'which', 'why',
+  'when', 'who', 'does', 'do', 'did', 'this', 'that', 'it', 'its', 'be', 'with', 'can', 'there', 'me', 'about',
+]);
+
+// --- Indexing ---
+
+/** Whether a file is worth indexing: text, not generated, not vendored and not too large. */
+export const isIndexableFile = (file: SelectableFile): boolean => {
+  const segments = file.path.split('/');
+  const name = segments[segments.length - 1];
+  const lowerName = name.toLowerCase();
+  return file.size <= MAX_INDEXED_FILE_BYTES
+    && !segments.slice(0, -1).some(segment => SKIPPED_DIRS.includes(segment))
+    && !SKIPPED_FILE_NAMES.includes(name)
+    && !lowerName.endsWith('.min.js')
+    && !BINARY_EXTENSIONS.some(ext => lowerName.endsWith(ext));
+};
+
+/**
+ * Splits text into search terms: every identifier in lower case, plus the parts of
+ * camelCase and snake_case identifiers, so "parseRepoUrl" also matches "repo url".
+ */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const [word] of text.matchAll(/[A-Za-z_$][A-Za-z0-9_$]*|\d+/g)) {
+    const lower = word.toLowerCase();
+    if (STOP_WORDS.has(lower)) continue;
+    if (lower.length > 1) terms.push(lower);
+    const parts = word.split(/_+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(part => part.length > 1);
+    if (parts.length > 1) terms.push(...parts.map(part => part.toLowerCase()));
+  }
+  return terms;
+};
+
+const chunkForIndex = (file: CodeFile): IndexedChunk[] => {
+  const lines = file.content.split('\n');
+  const chunks: IndexedChunk[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(lines.length, start + CHUNK_LINES);
+    chunks.push({ path: file.path, startLine: start + 1, endLine: end, content: lines.slice(start, end).join('\n') });
+    if (end === lines.length) break;
+  }
+  return chunks;
+};
+
+export const buildRepoIndex = (files: CodeFile[], skippedFiles: number = 0): RepoIndex => {
+  const chunks = files.flatMap(chunkForIndex);
+  const documentFrequency = new Map<string, number>();
+  // The path is indexed with every chunk, so naming a file in a question finds it
+  const termCounts = chunks.map(chunk => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(`${chunk.path}\n${chunk.content}`)) counts.set(term, (counts.get(term) ?? 0) + 1);
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+    return counts;
+  });
+  const chunkLengths = termCounts.map(counts => Array.from(counts.values()).reduce((sum, n) => sum + n, 0));
+  return {
+    chunks,
+    termCounts,
+    chunkLengths,
+    averageLength: chunkLengths.reduce((sum, n) => sum + n, 0) / Math.max(1, chunks.length),
+    documentFrequency,
+    files,
+    skippedFiles,
+  };
+};
+
+// --- Retrieval ---
+
+const overlaps = (a: IndexedChunk, b: IndexedChunk): boolean =>
+  a.path === b.path && a.startLine <= b.endLine && b.startLine <= a.endLine;
+
+/**
+ * Ranks chunks against the query with BM25 and returns the best ones that fit in
+ * `maxTokens`. Chunks overlapping a better-ranked chunk of the same file are skipped.
+ */
+export const searchRepoIndex = (index: RepoIndex, query: string, maxTokens: number): RetrievedChunk[] => {
+  const queryTerms = Array.from(new Set(tokenize(query))).filter(term => index.documentFrequency.has(term));
+  if (queryTerms.length === 0) return [];
+
+  const total = index.chunks.length;
+  const scored = index.chunks.map((chunk, i) => {
+    const counts = index.termCounts[i];
+    const lengthNorm = 1 - BM25_B + BM25_B * (index.chunkLengths[i] / index.averageLength);
+    const score = queryTerms.reduce((sum, term) => {
+      const frequency = counts.get(term);
+      if (!frequency) return sum;
+      const df = index.documentFrequency.get(term)!;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      return sum + idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+    }, 0);
+    return { ...chunk, score };
+  }).filter(chunk => chunk.score > 0).sort((a, b) => b.score - a.score);
+
+  const selected: RetrievedChunk[] = [];
+  let remaining = maxTokens;
+  for (const chunk of scored) {
+    if (selected.some(other => overlaps(chunk, other))) continue;
+    const tokens = estimateTokens(chunk.content);
+    if (tokens > remaining) continue;
+    selected.push(chunk);
+    remaining -= tokens;
+  }
+  return selected;
+};
@@ -0,0 +1,271 @@
+
+import { Type } from "@google/genai";
+import { withLineNumbers } from "./geminiService";
+import { SnapshotReader } from "./githubService";
+import type { LlmToolCall, LlmToolDeclaration } from "./llmProvider";
+import { RepoIndex } from "./repoIndex";
+import { abortableSleep, createAbortError } from "./requestLayer";
+import { MAX_SCANNED_LINE_LENGTH } from "./securityScan";
+
+// --- Interfaces ---
+
+export interface ToolOutcome {
+  // Sent back to the model
+  output: string;
+  // One line for the chat transcript, e.g. "lines 1-120 of 340"
+  summary: string;
+}
+
+/** The tools the DeepWiki assistant can call to explore the repository while it answers. */
+export interface RepoTools {
+  declarations: LlmToolDeclaration[];
+  // Throws with a message for the model when the call cannot be answered
+  run: (call: LlmToolCall, signal?: AbortSignal) => Promise<ToolOutcome>;
+  // Files read through the tools, so the source viewer can show those the index left out
+  readFiles: Map<string, string>;
+}
+
+// --- Settings ---
+
+const MAX_LISTED_ENTRIES = 200;
+const MAX_READ_LINES = 300;
+// Keeps a file of very long lines, e.g. minified code, from filling the context
+const MAX_READ_CHARS = 40_000;
+const MAX_SEARCH_MATCHES = 50;
+const MAX_MATCH_LINE_CHARS = 200;
+// The search runs on the main thread with a pattern the model wrote: it skips long lines (where
+// backtracking explodes), stops after this many characters, and yields now and then so Stop works
+const MAX_SEARCH_SCANNED_CHARS = 5_000_000;
+const SEARCH_YIELD_CHARS = 200_000;
+const DEFAULT_HISTORY_LENGTH = 10;
+const MAX_HISTORY_LENGTH = 30;
+
+const DECLARATIONS: LlmToolDeclaration[] = [
+  {
+    name: 'list_directory',
+    description: 'Lists the files and subdirectories of a directory in the repository. Subdirectories end with "/".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        path: { type: Type.STRING, description: 'Directory path relative to the repository root; empty for the root.' },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'read_file',
+    description: `Reads a file of the repository, with line numbers. At most ${MAX_READ_LINES} lines are returned per call; request further ranges for longer files.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        path: { type: Type.STRING, description: 'File path relative to the repository root.' },
+        startLine: { type: Type.INTEGER, description: 'First line to read, 1-based. Defaults to 1.' },
+        endLine: { type: Type.INTEGER, description: 'Last line to read, inclusive.' },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'search_code',
+    description: `Searches the indexed files line by line with a JavaScript regular expression. Returns up to ${MAX_SEARCH_MATCHES} matches as path:line: text.`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        pattern: { type: Type.STRING, description: 'Regular expression, e.g. "(function|const) parse[A-Z]".' },
+        path: { type: Type.STRING, description: 'Only search files under this directory or with this path.' },
+        ignoreCase: { type: Type.BOOLEAN, description: 'Match regardless of case. Defaults to false.' },
+      },
+      required: ['pattern'],
+    },
+  },
+  {
+    name: 'file_history',
+    description: 'Lists the most recent commits that changed a file or directory, up to the analyzed commit.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        path: { type: Type.STRING, description: 'File or directory path relative to the repository root.' },
+        limit: { type: Type.INTEGER, description: `Number of commits, at most ${MAX_HISTORY_LENGTH}. Defaults to ${DEFAULT_HISTORY_LENGTH}.` },
+      },
+      required: ['path'],
+    },
+  },
+];
+
+// --- Helper Functions ---
+
+// Models write paths as "./src", "/src/" or "src"; the snapshot uses "src"
+const normalizePath = (value: unknown): string =>
+  String(value ?? '').trim().replace(/^\.?\/+/, '').replace(/\/+$/, '').replace(/^\.$/, '');
+
+const readInteger = (value: unknown, fallback: number): number => {
+  const n = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isFinite(n) ? Math.floor(n) : fallback;
+};
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+const requirePath = (args: Record<string, unknown>): string => {
+  const path = normalizePath(args.path);
+  if (!path) throw new Error('A path is required.');
+  return path;
+};
+
+// --- Tools ---
+
+const listDirectory = async (reader: SnapshotReader, args: Record<string, unknown>, signal?: AbortSignal): Promise<ToolOutcome> => {
+  const dir = normalizePath(args.path);
+  const prefix = dir ? `${dir}/` : '';
+  const files = await reader.listFiles(signal);
+  const subdirectories = new Map<string, number>();
+  const entries: string[] = [];
+  for (const file of files) {
+    if (!file.path.startsWith(prefix)) continue;
+    const rest = file.path.substring(prefix.length);
+    const slash = rest.indexOf('/');
+    if (slash === -1) entries.push(`${rest} (${formatSize(file.size)})`);
+    else subdirectories.set(rest.substring(0, slash), (subdirectories.get(rest.substring(0, slash)) ?? 0) + 1);
+  }
+  if (entries.length === 0 && subdirectories.size === 0) {
+    throw new Error(files.some(file => file.path === dir)
+      ? `${dir} is a file; use read_file to read it.`
+      : `There is no directory named "${dir}".`);
+  }
+  const lines = [
+    ...Array.from(subdirectories, ([name, count]) => `${name}/ (${count} file${count === 1 ? '' : 's'})`).sort(),
+    ...entries.sort(),
+  ];
+  const shown = lines.slice(0, MAX_LISTED_ENTRIES);
+  if (lines.length > shown.length) shown.push(`... and ${lines.length - shown.length} more`);
+  return { output: shown.join('\n'), summary: `${lines.length} entries` };
+};
+
+const readFile = async (
+  reader: SnapshotReader,
+  readFiles: Map<string, string>,
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<ToolOutcome> => {
+  const path = requirePath(args);
+  const content = readFiles.get(path) ?? await reader.readFile(path, signal);
+  if (content === null) throw new Error(`There is no file named "${path}". Use list_directory or search_code to find it.`);
+  readFiles.set(path, content);
+
+  const lines = content.split('\n');
+  const start = Math.min(Math.max(1, readInteger(args.startLine, 1)), lines.length);
+  const requestedEnd = Math.max(start, readInteger(args.endLine, start + MAX_READ_LINES - 1));
+  let end = Math.min(lines.length, requestedEnd, start + MAX_READ_LINES - 1);
+  let chars = 0;
+  for (let line = start; line <= end; line++) {
+    chars += lines[line - 1].length + 1;
+    if (chars > MAX_READ_CHARS && line > start) {
+      end = line - 1;
+      break;
+    }
+  }
+  const more = end < lines.length ? `\n(The file continues to line ${lines.length}.)` : '';
+  // Same heading as the retrieved excerpts, so answers cite both the same way
+  return {
+    output: `### ${path}:${start}-${end}\n\`\`\`\n${withLineNumbers(lines.slice(start - 1, end).join('\n'), start)}\n\`\`\`${more}`,
+    summary: `lines ${start}-${end} of ${lines.length}`,
+  };
+};
+
+// Searches what is already in memory: every indexed file and every file read so far
+const searchCode = async (
+  index: RepoIndex,
+  readFiles: Map<string, string>,
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<ToolOutcome> => {
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(String(args.pattern ?? ''), args.ignoreCase === true ? 'i' : '');
+  } catch (error) {
+    // The SyntaxError already reads "Invalid regular expression: /(/: ..."
+    throw new Error(error instanceof Error ? error.message : 'Invalid regular expression.');
+  }
+  const dir = normalizePath(args.path);
+  const contents = new Map(index.files.map(file => [file.path, file.content]));
+  readFiles.forEach((content, path) => contents.set(path, content));
+  const candidates = Array.from(contents).filter(([path]) => !dir || path === dir || path.startsWith(`${dir}/`));
+
+  const matches: string[] = [];
+  const matchedFiles = new Set<string>();
+  let total = 0;
+  let scanned = 0;
+  let sinceYield = 0;
+  let searchedFiles = 0;
+  let skippedLines = 0;
+  for (const [path, content] of candidates) {
+    if (signal?.aborted) throw createAbortError();
+    if (scanned >= MAX_SEARCH_SCANNED_CHARS) break;
+    if (sinceYield >= SEARCH_YIELD_CHARS) {
+      await abortableSleep(0, signal);
+      sinceYield = 0;
+    }
+    content.split('\n').forEach((line, i) => {
+      if (line.length > MAX_SCANNED_LINE_LENGTH) {
+        skippedLines++;
+        return;
+      }
+      scanned += line.length + 1;
+      sinceYield += line.length + 1;
+      if (!pattern.test(line)) return;
+      total++;
+      matchedFiles.add(path);
+      if (matches.length < MAX_SEARCH_MATCHES) matches.push(`${path}:${i + 1}: ${line.trim().substring(0, MAX_MATCH_LINE_CHARS)}`);
+    });
+    searchedFiles++;
+  }
+  const notes = [
+    ...(total > matches.length ? [`(${total - matches.length} more matches; narrow the pattern or the path)`] : []),
+    ...(searchedFiles < candidates.length ? [`(The search stopped after ${searchedFiles} of ${candidates.length} files; narrow the path)`] : []),
+    ...(skippedLines > 0 ? [`(${skippedLines} line${skippedLines === 1 ? '' : 's'} longer than ${MAX_SCANNED_LINE_LENGTH} characters ${skippedLines === 1 ? 'was' : 'were'} not searched)`] : []),
+    ...(index.skippedFiles > 0 ? [`(${index.skippedFiles} files were not indexed and were not searched; read them directly)`] : []),
+  ];
+  return {
+    output: [...(matches.length > 0 ? matches : ['No matches.']), ...notes].join('\n'),
+    summary: `${total} match${total === 1 ? '' : 'es'} in ${matchedFiles.size} file${matchedFiles.size === 1 ? '' : 's'}`,
+  };
+};
+
+const fileHistory = async (reader: SnapshotReader, args: Record<string, unknown>, signal?: AbortSignal): Promise<ToolOutcome> => {
+  if (!reader.fileHistory) throw new Error('Commit history is not available for local sources.');
+  const path = requirePath(args);
+  const limit = Math.min(MAX_HISTORY_LENGTH, Math.max(1, readInteger(args.limit, DEFAULT_HISTORY_LENGTH)));
+  const commits = await reader.fileHistory(path, limit, signal);
+  return {
+    output: commits.length > 0
+      ? commits.map(c => `${c.sha.substring(0, 7)} ${c.date.substring(0, 10)} ${c.author}: ${c.message.split('\n')[0]}`).join('\n')
+      : `No commits changed ${path}.`,
+    summary: `${commits.length} commit${commits.length === 1 ? '' : 's'}`,
+  };
+};
+
+/**
+ * Builds the DeepWiki tools over the analyzed snapshot. Directory listings, files and history
+ * come from `reader`; code search runs over the index, which already holds the text files.
+ */
+export const createRepoTools = (reader: SnapshotReader, index: RepoIndex): RepoTools => {
+  const readFiles = new Map<string, string>();
+  return {
+    declarations: DECLARATIONS,
+    readFiles,
+    run: async ({ name, args }, signal) => {
+      switch (name) {
+        case 'list_directory':
+          return listDirectory(reader, args, signal);
+        case 'read_file':
+          return readFile(reader, readFiles, args, signal);
+        case 'search_code':
+          return searchCode(index, readFiles, args, signal);
+        case 'file_history':
+          return fileHistory(reader, args, signal);
+        default:
+          throw new Error(`Unknown tool "${name}".`);
+      }
+    },
+  };
+};
@@ -0,0 +1,72 @@
+
+import { FinalReport, ReviewFinding, sortFindingsBySeverity } from "./geminiService";
+
+export interface UnchangedFinding {
+  before: ReviewFinding;
+  after: ReviewFinding;
+}
+
+export interface ReportComparison {
+  // Only in the newer report
+  added: ReviewFinding[];
+  // Only in the older report, in a file the newer run reviewed as well
+  fixed: ReviewFinding[];
+  unchanged: UnchangedFinding[];
+  // In the older report, but the newer run did not review the file, so it is unknown whether they were fixed
+  notReviewed: ReviewFinding[];
+}
+
+// Titles from separate model runs rarely match word for word; this much word overlap counts as the same issue
+const MIN_TITLE_SIMILARITY = 0.5;
+
+const titleWords = (title: string): Set<string> =>
+  new Set(title.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2));
+
+const titleSimilarity = (a: string, b: string): number => {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+/**
+ * Matches the findings of two reports on file, category and title. Line numbers are
+ * ignored for matching because unrelated edits between the two commits shift them.
+ */
+export const compareReports = (before: FinalReport, after: FinalReport): ReportComparison => {
+  const reviewedAfter = new Set(after.fileReviews.filter(r => r.status === 'completed').map(r => r.path));
+  const unmatchedAfter = [...after.findings];
+  const unchanged: UnchangedFinding[] = [];
+  const fixed: ReviewFinding[] = [];
+  const notReviewed: ReviewFinding[] = [];
+
+  for (const finding of before.findings) {
+    let bestIndex = -1;
+    let bestScore = MIN_TITLE_SIMILARITY;
+    unmatchedAfter.forEach((candidate, index) => {
+      if (candidate.filePath !== finding.filePath || candidate.category !== finding.category) return;
+      const score = titleSimilarity(candidate.title, finding.title);
+      if (score >= bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+
+    if (bestIndex >= 0) {
+      unchanged.push({ before: finding, after: unmatchedAfter[bestIndex] });
+      unmatchedAfter.splice(bestIndex, 1);
+    } else if (reviewedAfter.has(finding.filePath)) {
+      fixed.push(finding);
+    } else {
+      notReviewed.push(finding);
+    }
+  }
+
+  return {
+    added: sortFindingsBySeverity(unmatchedAfter),
+    fixed: sortFindingsBySeverity(fixed),
+    unchanged,
+    notReviewed: sortFindingsBySeverity(notReviewed),
+  };
+};
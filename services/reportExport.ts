@@ -0,0 +1,411 @@
+
+import {
+  DiagramKey, FinalReport, FindingSeverity, RecommendedRepo, ReviewFinding, VisualDocumentationData, FINDING_CATEGORIES
+} from "./geminiService";
+import { RepoAnalysisData } from "./githubService";
+import { SecurityHit, SecurityScanResult } from "./securityScan";
+import { describeMetrics } from "./staticAnalysis";
+import { describeSourceName, isGitHubSource, sourceWebUrl } from "./sources";
+
+/** Everything that goes into an exported report. Docs and recommendations are included when generated. */
+export interface ReportExportData {
+  report: FinalReport;
+  repoData: RepoAnalysisData;
+  visualDocs: VisualDocumentationData | null;
+  recommendations: RecommendedRepo | null;
+}
+
+export const DIAGRAM_SECTIONS: { key: DiagramKey; title: string }[] = [
+  { key: 'architectureDiagram', title: 'Architecture Diagram' },
+  { key: 'dependencyGraph', title: 'Dependency Graph' },
+  { key: 'flowchart', title: 'Primary Flowchart' },
+  { key: 'classDiagram', title: 'Class Diagram' },
+];
+
+const TOOL_NAME = 'Gemini Code Reviewer';
+
+// --- Helpers ---
+
+/** True for diagrams the model actually produced, as opposed to empty or placeholder sources. */
+export const hasDiagram = (code: string | undefined): code is string =>
+  !!code && code.trim() !== '' && code.trim() !== 'graph TD';
+
+const formatLines = (finding: ReviewFinding): string =>
+  finding.endLine !== finding.startLine ? `${finding.startLine}-${finding.endLine}` : `${finding.startLine}`;
+
+/** A file name like `owner-repo-abc1234-review.md`. */
+export const exportFileName = (data: ReportExportData, extension: string): string => {
+  const { source, pullRequest } = data.repoData;
+  const suffix = pullRequest ? `pr${pullRequest.number}` : source.commitSha.substring(0, 7);
+  const name = describeSourceName(source).replace(/[^\w.-]+/g, '-');
+  return `${name}-${suffix}-review.${extension}`;
+};
+
+const describeSource = (data: ReportExportData): string[] => {
+  const { source, pullRequest } = data.repoData;
+  const { profile, generatedAt } = data.report;
+  const run = [
+    ...(profile ? [`Review profile: ${profile.name}`] : []),
+    `Generated: ${new Date(generatedAt).toLocaleString()}`,
+  ];
+  if (!isGitHubSource(source)) {
+    return [
+      `Source: ${describeSourceName(source)} (${source.ref})`,
+      `Snapshot fingerprint: ${source.commitSha}`,
+      ...run,
+    ];
+  }
+  return [
+    `Repository: ${describeSourceName(source)}`,
+    ...(pullRequest ? [`Pull request: #${pullRequest.number} ${pullRequest.title}`] : []),
+    `Ref: ${source.ref}`,
+    `Commit: ${source.commitSha}`,
+    ...run,
+  ];
+};
+
+const formatCategory = (finding: ReviewFinding): string =>
+  finding.cwe ? `${finding.category} (${finding.cwe})` : finding.category;
+
+const verdictOf = (hit: SecurityHit): string => hit.triage?.verdict ?? 'not triaged';
+
+const describeScan = (scan: SecurityScanResult): string =>
+  `Checked ${scan.scannedFiles} files and ${scan.dependencies.length} declared dependencies: `
+  + `${scan.hits.length} hits, ${scan.hits.filter(h => h.triage?.verdict === 'false-positive').length} dismissed as false positives.`
+  + (scan.triageError ? ` Triage failed (${scan.triageError}), so every hit is reported.` : '');
+
+// --- Markdown ---
+
+const escapeTableCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const findingsToMarkdown = (findings: ReviewFinding[]): string[] => {
+  if (findings.length === 0) return ['No findings.'];
+  return [
+    '| Severity | Category | File | Lines | Title |',
+    '| --- | --- | --- | --- | --- |',
+    ...findings.map(f =>
+      `| ${f.severity} | ${escapeTableCell(formatCategory(f))} | \`${f.filePath}\` | ${formatLines(f)} | ${escapeTableCell(f.title)} |`
+    ),
+  ];
+};
+
+export const exportMarkdown = (data: ReportExportData): string => {
+  const { report, visualDocs, recommendations } = data;
+  const lines: string[] = [
+    `# Code review: ${describeSourceName(data.repoData.source)}`,
+    '',
+    ...describeSource(data).map(line => `- ${line}`),
+    '',
+    '## Executive summary',
+    '',
+    report.summary.trim(),
+    '',
+    '## Findings',
+    '',
+    ...findingsToMarkdown(report.findings),
+    '',
+    '## File reviews',
+  ];
+
+  for (const review of report.fileReviews) {
+    lines.push('', `### \`${review.path}\``, '');
+    if (review.status === 'failed') {
+      lines.push(`Review failed: ${review.error}`);
+      continue;
+    }
+    if (review.fromCache) lines.push('_Reused from the response cache._', '');
+    lines.push(review.summary.trim() || 'No summary.');
+    if (review.metrics) lines.push('', `Static analysis: ${describeMetrics(review.metrics)}.`);
+    for (const finding of review.findings) {
+      lines.push(
+        '',
+        `#### [${finding.severity}] ${finding.title} (lines ${formatLines(finding)})`,
+        '',
+        `Category: ${formatCategory(finding)}`,
+        '',
+        finding.explanation.trim(),
+      );
+      if (finding.suggestedFix.trim()) {
+        lines.push('', '**Suggested fix**', '', finding.suggestedFix.trim());
+      }
+    }
+  }
+
+  if (report.securityScan) {
+    const { hits } = report.securityScan;
+    lines.push('', '## Security scan', '', describeScan(report.securityScan));
+    if (hits.length > 0) {
+      lines.push(
+        '',
+        '| Verdict | Severity | CWE | Check | Location |',
+        '| --- | --- | --- | --- | --- |',
+        ...hits.map(h => `| ${verdictOf(h)} | ${h.severity} | ${escapeTableCell(h.cwe)} | ${escapeTableCell(h.title)} | \`${h.filePath}:${h.line}\` |`),
+      );
+    }
+  }
+
+  const diagrams = DIAGRAM_SECTIONS.filter(d => hasDiagram(visualDocs?.[d.key]));
+  if (diagrams.length > 0) {
+    lines.push('', '## Diagrams');
+    diagrams.forEach(d => lines.push('', `### ${d.title}`, '', '```mermaid', visualDocs![d.key].trim(), '```'));
+  }
+
+  if (recommendations) {
+    lines.push('', '## Recommended repositories', '', recommendations.text.trim());
+    if (recommendations.sources.length > 0) {
+      lines.push('', ...recommendations.sources.map(s => `- [${s.web.title || s.web.uri}](${s.web.uri})`));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineMarkdown = (text: string): string =>
+  escapeHtml(text)
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
+
+/** Converts the small Markdown subset the model output uses (the same one `ReviewOutput` renders). */
+const markdownToHtml = (markdown: string): string => {
+  const parts = markdown.split(/(```[\s\S]*?```)/g);
+  return parts.map(part => {
+    if (part.startsWith('```')) {
+      const code = part.replace(/```[\w\s]*?\n/, '').replace(/\n?```$/, '');
+      return `<pre><code>${escapeHtml(code)}</code></pre>`;
+    }
+    const html: string[] = [];
+    let inList = false;
+    for (const line of part.split('\n')) {
+      const trimmed = line.trim();
+      const isListItem = trimmed.startsWith('* ') || trimmed.startsWith('- ');
+      if (isListItem && !inList) html.push('<ul>');
+      if (!isListItem && inList) html.push('</ul>');
+      inList = isListItem;
+
+      if (isListItem) html.push(`<li>${inlineMarkdown(trimmed.substring(2))}</li>`);
+      else if (line.startsWith('### ')) html.push(`<h4>${inlineMarkdown(line.substring(4))}</h4>`);
+      else if (line.startsWith('## ')) html.push(`<h3>${inlineMarkdown(line.substring(3))}</h3>`);
+      else if (line.startsWith('# ')) html.push(`<h3>${inlineMarkdown(line.substring(2))}</h3>`);
+      else if (trimmed === '---') html.push('<hr>');
+      else if (trimmed) html.push(`<p>${inlineMarkdown(line)}</p>`);
+    }
+    if (inList) html.push('</ul>');
+    return html.join('\n');
+  }).join('\n');
+};
+
+const HTML_STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #1f2937; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { border-bottom: 2px solid #e5e7eb; padding-bottom: .5rem; }
+  h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: .25rem; margin-top: 2.5rem; }
+  h3 { color: #3b82f6; margin-top: 2rem; }
+  pre { background: #f3f4f6; padding: 1rem; border-radius: 6px; overflow-x: auto; font-size: .85rem; white-space: pre-wrap; }
+  code { font-family: ui-monospace, monospace; font-size: .9em; }
+  table { border-collapse: collapse; width: 100%; font-size: .9rem; }
+  th, td { border: 1px solid #e5e7eb; padding: .4rem .6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .meta { list-style: none; padding: 0; color: #4b5563; }
+  .severity { display: inline-block; padding: 0 .4rem; border-radius: 4px; font-size: .75rem; font-weight: bold; text-transform: uppercase; }
+  .severity-critical { background: #dc2626; color: #fff; }
+  .severity-high { background: #f97316; color: #fff; }
+  .severity-medium { background: #facc15; color: #111827; }
+  .severity-low { background: #bfdbfe; color: #1e3a8a; }
+  .severity-info { background: #e5e7eb; color: #1f2937; }
+  .finding { border-left: 3px solid #e5e7eb; padding-left: 1rem; margin: 1rem 0; }
+  .failed { color: #dc2626; }
+  .note { color: #6b7280; font-size: .85rem; }
+  .diagram { margin: 1rem 0; overflow-x: auto; page-break-inside: avoid; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+const severityBadge = (severity: FindingSeverity): string =>
+  `<span class="severity severity-${severity}">${severity}</span>`;
+
+/**
+ * Builds a self-contained HTML page. Diagrams are embedded as pre-rendered SVG where
+ * available and fall back to their Mermaid source otherwise.
+ */
+export const exportHtml = (data: ReportExportData, diagramSvgs: Partial<Record<DiagramKey, string>> = {}): string => {
+  const { report, visualDocs, recommendations } = data;
+  const name = describeSourceName(data.repoData.source);
+  const body: string[] = [
+    `<h1>Code review: ${escapeHtml(name)}</h1>`,
+    `<ul class="meta">${describeSource(data).map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`,
+    '<h2>Executive summary</h2>',
+    markdownToHtml(report.summary),
+    '<h2>Findings</h2>',
+  ];
+
+  if (report.findings.length === 0) {
+    body.push('<p>No findings.</p>');
+  } else {
+    body.push(
+      '<table><thead><tr><th>Severity</th><th>Category</th><th>File</th><th>Lines</th><th>Title</th></tr></thead><tbody>',
+      ...report.findings.map(f =>
+        `<tr><td>${severityBadge(f.severity)}</td><td>${escapeHtml(formatCategory(f))}</td><td><code>${escapeHtml(f.filePath)}</code></td>`
+        + `<td>${formatLines(f)}</td><td>${escapeHtml(f.title)}</td></tr>`
+      ),
+      '</tbody></table>',
+    );
+  }
+
+  body.push('<h2>File reviews</h2>');
+  for (const review of report.fileReviews) {
+    body.push(`<h3><code>${escapeHtml(review.path)}</code></h3>`);
+    if (review.status === 'failed') {
+      body.push(`<p class="failed">Review failed: ${escapeHtml(review.error ?? 'unknown error')}</p>`);
+      continue;
+    }
+    if (review.fromCache) body.push('<p class="note">Reused from the response cache.</p>');
+    body.push(markdownToHtml(review.summary || 'No summary.'));
+    if (review.metrics) body.push(`<p class="note">Static analysis: ${escapeHtml(describeMetrics(review.metrics))}.</p>`);
+    for (const finding of review.findings) {
+      body.push(
+        '<div class="finding">',
+        `<p>${severityBadge(finding.severity)} <strong>${escapeHtml(finding.title)}</strong> (lines ${formatLines(finding)}, ${escapeHtml(formatCategory(finding))})</p>`,
+        markdownToHtml(finding.explanation),
+        finding.suggestedFix.trim() ? `<p><strong>Suggested fix</strong></p>${markdownToHtml(finding.suggestedFix)}` : '',
+        '</div>',
+      );
+    }
+  }
+
+  if (report.securityScan) {
+    const { hits } = report.securityScan;
+    body.push('<h2>Security scan</h2>', `<p>${escapeHtml(describeScan(report.securityScan))}</p>`);
+    if (hits.length > 0) {
+      body.push(
+        '<table><thead><tr><th>Verdict</th><th>Severity</th><th>CWE</th><th>Check</th><th>Location</th></tr></thead><tbody>',
+        ...hits.map(h =>
+          `<tr><td>${verdictOf(h)}</td><td>${severityBadge(h.severity)}</td><td>${escapeHtml(h.cwe)}</td><td>${escapeHtml(h.title)}</td>`
+          + `<td><code>${escapeHtml(`${h.filePath}:${h.line}`)}</code></td></tr>`
+        ),
+        '</tbody></table>',
+      );
+    }
+  }
+
+  const diagrams = DIAGRAM_SECTIONS.filter(d => hasDiagram(visualDocs?.[d.key]));
+  if (diagrams.length > 0) {
+    body.push('<h2>Diagrams</h2>');
+    for (const d of diagrams) {
+      const svg = diagramSvgs[d.key];
+      body.push(
+        `<h3>${d.title}</h3>`,
+        svg ? `<div class="diagram">${svg}</div>` : `<pre><code>${escapeHtml(visualDocs![d.key])}</code></pre>`,
+      );
+    }
+  }
+
+  if (recommendations) {
+    body.push('<h2>Recommended repositories</h2>', markdownToHtml(recommendations.text));
+    if (recommendations.sources.length > 0) {
+      body.push(
+        '<ul>',
+        ...recommendations.sources.map(s => `<li><a href="${escapeHtml(s.web.uri)}">${escapeHtml(s.web.title || s.web.uri)}</a></li>`),
+        '</ul>',
+      );
+    }
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="UTF-8">',
+    `<title>Code review: ${escapeHtml(name)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+  ].join('\n');
+};
+
+// --- SARIF ---
+
+const SARIF_LEVELS: Record<FindingSeverity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note',
+};
+
+const ruleId = (category: string): string => `gemini-review/${category}`;
+
+/** Findings as a SARIF 2.1.0 log, e.g. for upload to GitHub code scanning. Failed files are reported as notifications. */
+export const exportSarif = (data: ReportExportData): object => {
+  const { report, repoData } = data;
+  const { source } = repoData;
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          rules: FINDING_CATEGORIES.map(category => ({
+            id: ruleId(category),
+            name: category,
+            shortDescription: { text: `AI-reviewed ${category} issue` },
+            properties: { tags: [category] },
+          })),
+        },
+      },
+      // Local sources have no repository to point to
+      ...(isGitHubSource(source) ? {
+        versionControlProvenance: [{
+          repositoryUri: sourceWebUrl(source),
+          revisionId: source.commitSha,
+          branch: source.ref,
+        }],
+      } : {}),
+      invocations: [{
+        executionSuccessful: true,
+        endTimeUtc: report.generatedAt,
+        ...(report.profile ? { properties: { reviewProfile: report.profile.id } } : {}),
+        toolExecutionNotifications: report.fileReviews
+          .filter(r => r.status === 'failed')
+          .map(r => ({
+            level: 'warning',
+            message: { text: `File was not reviewed: ${r.error}` },
+            locations: [{ physicalLocation: { artifactLocation: { uri: r.path, uriBaseId: '%SRCROOT%' } } }],
+          })),
+      }],
+      results: report.findings.map(finding => {
+        const startLine = Math.max(1, finding.startLine);
+        const fix = finding.suggestedFix.trim();
+        return {
+          ruleId: ruleId(finding.category),
+          ruleIndex: FINDING_CATEGORIES.indexOf(finding.category),
+          level: SARIF_LEVELS[finding.severity],
+          message: {
+            text: `${finding.title}: ${finding.explanation}`,
+            markdown: `**${finding.title}**\n\n${finding.explanation}${fix ? `\n\n**Suggested fix**\n\n${fix}` : ''}`,
+          },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri: finding.filePath, uriBaseId: '%SRCROOT%' },
+              region: { startLine, endLine: Math.max(startLine, finding.endLine) },
+            },
+          }],
+          properties: {
+            severity: finding.severity,
+            category: finding.category,
+            // GitHub code scanning reads CWE identifiers from tags in this form
+            ...(finding.cwe ? { cwe: finding.cwe, tags: ['security', `external/cwe/${finding.cwe.toLowerCase()}`] } : {}),
+            ...(fix ? { suggestedFix: fix } : {}),
+          },
+        };
+      }),
+    }],
+  };
+};
@@ -0,0 +1,133 @@
+
+export interface RequestOptions {
+  // Cancels the request, including any pending retries
+  signal?: AbortSignal;
+  // Per-attempt timeout
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export const DEFAULT_REQUEST_OPTIONS = {
+  timeoutMs: 120_000,
+  maxRetries: 4,
+};
+
+const BASE_RETRY_DELAY_MS = 1_000;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)} seconds.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export const createAbortError = (): Error => {
+  const error = new Error('The operation was cancelled.');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+const getStatus = (error: unknown): number | undefined => {
+  if (error && typeof error === 'object' && 'status' in error) {
+    const status = (error as { status: unknown }).status;
+    if (typeof status === 'number') return status;
+  }
+  // Some SDK errors only carry the status in the message, e.g. "got status: 503 Service Unavailable";
+  // a bare number is not enough, since messages like "500 files" are not statuses
+  const match = error instanceof Error ? error.message.match(/\bstatus(?: code)?:? (429|5\d\d)\b/i) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+/** Rate limits, server errors, timeouts and network failures are worth retrying; anything else is not. */
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof RequestTimeoutError) return true;
+  const status = getStatus(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+  // fetch reports network failures as a TypeError
+  return error instanceof TypeError;
+};
+
+/** Resolves after `ms`, or rejects early if the signal is aborted. */
+export const abortableSleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// "Full jitter" exponential backoff: a random delay up to the exponential cap spreads out concurrent retries.
+const retryDelay = (attempt: number): number =>
+  Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+
+/**
+ * Runs `operation` with a per-attempt timeout, retrying retryable failures with exponential
+ * backoff and jitter. The signal passed to `operation` fires on timeout or cancellation.
+ */
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const { signal, timeoutMs = DEFAULT_REQUEST_OPTIONS.timeoutMs, maxRetries = DEFAULT_REQUEST_OPTIONS.maxRetries } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw createAbortError();
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return await operation(controller.signal);
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      const failure = timedOut ? new RequestTimeoutError(timeoutMs) : error;
+      if (attempt >= maxRetries || !isRetryableError(failure)) throw failure;
+      console.warn(`Request failed (attempt ${attempt + 1} of ${maxRetries + 1}), retrying:`, failure);
+      await abortableSleep(retryDelay(attempt), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
+
+/** Returns a function that runs tasks with at most `limit` of them in flight at once. */
+export const createConcurrencyLimiter = (limit: number) => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  const next = () => {
+    if (active >= limit || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            active--;
+            next();
+          });
+      });
+      next();
+    });
+};
@@ -0,0 +1,138 @@
+
+import { clearRecords, deleteRecord, getRecord, putRecord } from "./storage";
+
+// --- Interfaces ---
+
+// GitHub file contents by blob SHA, and model responses by prompt hash
+export type CacheNamespace = 'github' | 'llm';
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/** Where entries are kept: IndexedDB in the browser, a directory on disk for the CLI. */
+export interface CacheStore {
+  get: (key: string) => Promise<CacheEntry | undefined>;
+  set: (key: string, entry: CacheEntry) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export interface CacheSettings {
+  // Ignore stored entries, but still store fresh results for the next run
+  bypass: boolean;
+  // Time to live per namespace, in milliseconds
+  ttl: Record<CacheNamespace, number>;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  fromCache: boolean;
+}
+
+// --- Settings ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  bypass: false,
+  // Blobs never change for a given SHA; the limit only keeps the store from growing forever
+  ttl: { github: 30 * DAY_MS, llm: 7 * DAY_MS },
+};
+
+export const indexedDbCacheStore: CacheStore = {
+  get: key => getRecord<CacheEntry>('cache', key),
+  set: (key, entry) => putRecord('cache', key, entry),
+  delete: key => deleteRecord('cache', key),
+  clear: () => clearRecords('cache'),
+};
+
+let currentSettings: CacheSettings = DEFAULT_CACHE_SETTINGS;
+let currentStore: CacheStore = indexedDbCacheStore;
+let warnedUnavailable = false;
+
+/** Changes the cache settings, and the store when one is given, for every following request. */
+export const configureCache = (
+  settings: { bypass?: boolean; ttl?: Partial<CacheSettings['ttl']> },
+  store?: CacheStore
+): void => {
+  currentSettings = { ...currentSettings, ...settings, ttl: { ...currentSettings.ttl, ...settings.ttl } };
+  if (store) currentStore = store;
+};
+
+export const getCacheSettings = (): CacheSettings => currentSettings;
+
+export const clearCache = (): Promise<void> => currentStore.clear();
+
+// --- Lookup ---
+
+// cyrb53: a fast non-cryptographic 53-bit hash, as 14 hex digits
+const cyrb53 = (text: string, seed: number): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// Five seeds give 64 hex digits, the length of a SHA-256 key
+const fallbackHash = (text: string): string =>
+  [1, 2, 3, 4, 5].map(seed => cyrb53(text, seed)).join('').substring(0, 64);
+
+/**
+ * SHA-256 of the parts, as a hex string; used to key entries by prompt instead of storing prompts as keys.
+ * `crypto.subtle` only exists in secure contexts, so a page served over plain http (e.g. `vite --host`
+ * on a LAN address) falls back to a non-cryptographic hash rather than failing every request.
+ */
+export const hashKey = async (...parts: string[]): Promise<string> => {
+  const text = parts.join('\0');
+  if (!globalThis.crypto?.subtle) return fallbackHash(text);
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  } catch {
+    return fallbackHash(text);
+  }
+};
+
+// A store that cannot be used (private browsing, no IndexedDB) only costs the cache; warn once
+const warnUnavailable = (error: unknown) => {
+  if (warnedUnavailable) return;
+  warnedUnavailable = true;
+  console.warn('The response cache is not available; results will not be reused:', error);
+};
+
+/**
+ * Returns the stored value for the key, or computes and stores it. Only successful results are
+ * stored, and cache failures never fail the request: they count as a miss.
+ */
+export const withCache = async <T>(
+  namespace: CacheNamespace,
+  key: string,
+  compute: () => Promise<T>
+): Promise<CachedResult<T>> => {
+  const fullKey = `${namespace}:${key}`;
+  if (!currentSettings.bypass) {
+    try {
+      const entry = await currentStore.get(fullKey);
+      if (entry && entry.expiresAt > Date.now()) return { value: entry.value as T, fromCache: true };
+      if (entry) currentStore.delete(fullKey).catch(warnUnavailable);
+    } catch (error) {
+      warnUnavailable(error);
+    }
+  }
+
+  const value = await compute();
+  const now = Date.now();
+  currentStore
+    .set(fullKey, { value, storedAt: now, expiresAt: now + currentSettings.ttl[namespace] })
+    .catch(warnUnavailable);
+  return { value, fromCache: false };
+};
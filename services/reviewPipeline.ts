@@ -0,0 +1,72 @@
+
+import { FileProgress } from "../components/AnalysisProgress";
+import { RepoAnalysisData } from "./githubService";
+import { FileReview, createFailedReview, reviewDiffHunks, reviewFileWithContext } from "./geminiService";
+import { createConcurrencyLimiter, createAbortError, isAbortError } from "./requestLayer";
+import { getReviewProfile } from "./reviewProfiles";
+import { analyzeFiles } from "./staticAnalysis";
+
+export interface ReviewPipelineOptions {
+  // Number of files reviewed at the same time
+  concurrency: number;
+  signal?: AbortSignal;
+  // Reviews from an earlier, interrupted run; these files are not reviewed again
+  completedReviews?: FileReview[];
+  onProgress: (files: FileProgress[]) => void;
+  // Called with each successful review as soon as it finishes, e.g. to checkpoint it
+  onFileReviewed?: (review: FileReview) => void;
+}
+
+export const DEFAULT_REVIEW_CONCURRENCY = 3;
+export const MAX_REVIEW_CONCURRENCY = 8;
+
+/**
+ * Reviews every code file of the analysis with bounded concurrency. A failed file is
+ * recorded as a failed review rather than rejecting; only cancellation aborts the run.
+ * Reviews are returned in the same order as `repoData.codeFiles`. Every file is measured by
+ * the static analysis pass first; its metrics go into the review prompt and onto the review.
+ * Reviews stream in: each file's progress carries a preview of its review until it finishes.
+ */
+export const runReviewPipeline = async (
+  repoData: RepoAnalysisData,
+  architecturalSummary: string,
+  options: ReviewPipelineOptions
+): Promise<FileReview[]> => {
+  const { signal, onProgress, onFileReviewed } = options;
+  const { codeFiles, pullRequest } = repoData;
+  const concurrency = Math.min(MAX_REVIEW_CONCURRENCY, Math.max(1, Math.floor(options.concurrency)));
+  const limit = createConcurrencyLimiter(concurrency);
+  const profile = getReviewProfile(repoData);
+  // Local and cheap, so it is recomputed rather than checkpointed; duplicates are found across all files
+  const metrics = new Map(analyzeFiles(codeFiles).map(m => [m.path, m]));
+
+  const completed = new Map((options.completedReviews ?? []).map(review =>
+    [review.path, { ...review, metrics: review.metrics ?? metrics.get(review.path) }]));
+  const progress: FileProgress[] = codeFiles.map(file => ({ path: file.path, state: completed.has(file.path) ? 'done' : 'queued' }));
+  const updateFile = (index: number, update: Omit<FileProgress, 'path'>) => {
+    progress[index] = { path: codeFiles[index].path, ...update };
+    onProgress([...progress]);
+  };
+  onProgress([...progress]);
+
+  return Promise.all(codeFiles.map((file, index) => completed.get(file.path) ?? limit(async () => {
+    if (signal?.aborted) throw createAbortError();
+    updateFile(index, { state: 'in-progress' });
+    // In pull request mode only the changed hunks of each file are reviewed
+    const changedFile = pullRequest?.files.find(f => f.path === file.path);
+    const requestOptions = { signal, onText: (preview: string) => updateFile(index, { state: 'in-progress', preview }) };
+    try {
+      const review = pullRequest && changedFile
+        ? await reviewDiffHunks(file, changedFile, pullRequest, architecturalSummary, profile, metrics.get(file.path), requestOptions)
+        : await reviewFileWithContext(file, architecturalSummary, profile, metrics.get(file.path), requestOptions);
+      updateFile(index, { state: 'done' });
+      onFileReviewed?.(review);
+      return review;
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      const failed = createFailedReview(file, err, metrics.get(file.path));
+      updateFile(index, { state: 'failed', error: failed.error });
+      return failed;
+    }
+  })));
+};
@@ -0,0 +1,150 @@
+
+import { FINDING_CATEGORIES, FINDING_SEVERITIES, FindingCategory, FindingSeverity } from "./geminiService";
+import type { RepoAnalysisData } from "./githubService";
+import type { RepoConfig } from "./repoConfig";
+
+/** A review lens: who the model reviews as, what it looks for and how it grades severity. */
+export interface ReviewProfile {
+  id: string;
+  name: string;
+  description: string;
+  // Completes "As ..., review the following code", e.g. "a senior engineer"
+  reviewer: string;
+  instructions: string;
+  // Categories the review concentrates on; the others are only reported when severe
+  focusCategories: FindingCategory[];
+  severityRubric: Record<FindingSeverity, string>;
+  // Set for profiles defined in the repository's config file
+  configPath?: string;
+}
+
+const DEFAULT_SEVERITY_RUBRIC: Record<FindingSeverity, string> = {
+  critical: 'Exploitable security holes, data loss or corruption, or crashes on common paths.',
+  high: 'Bugs that break a feature, or serious security, performance or architectural problems.',
+  medium: 'Bugs in edge cases, risky patterns, or problems that make the code hard to change.',
+  low: 'Minor issues with a small but real cost, such as confusing names or missing error context.',
+  info: 'Observations and suggestions that need no change.',
+};
+
+export const DEFAULT_PROFILE_ID = 'general';
+
+export const BUILT_IN_PROFILES: ReviewProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    name: 'General',
+    description: 'Balanced code quality review.',
+    reviewer: 'a senior engineer',
+    instructions: 'Also cover standard code quality aspects like bugs, security, performance, readability, and best practices.',
+    focusCategories: [...FINDING_CATEGORIES],
+    severityRubric: DEFAULT_SEVERITY_RUBRIC,
+  },
+  {
+    id: 'security',
+    name: 'Security audit',
+    description: 'Vulnerabilities, unsafe input handling and secrets.',
+    reviewer: 'an application security auditor',
+    instructions: 'Look for injection (SQL, command, template, XSS), broken authentication or authorization, unvalidated input, SSRF, path traversal, unsafe deserialization, weak cryptography, hard-coded secrets and sensitive data in logs. Trace untrusted input to where it is used.',
+    focusCategories: ['security', 'bug'],
+    severityRubric: {
+      critical: 'Remotely exploitable without authentication, or exposes secrets or other users\' data.',
+      high: 'Exploitable by an authenticated user, or by an attacker under common conditions.',
+      medium: 'Exploitable only under unusual conditions, or missing defense in depth.',
+      low: 'Hardening opportunities with little direct risk.',
+      info: 'Security-relevant observations that need no change.',
+    },
+  },
+  {
+    id: 'performance',
+    name: 'Performance',
+    description: 'Hot paths, algorithmic cost, I/O and memory.',
+    reviewer: 'a performance engineer',
+    instructions: 'Look for unnecessary work on hot paths, quadratic or worse algorithms, N+1 queries, blocking or sequential I/O that could be batched or parallel, missing caching, excessive allocations, memory leaks and unnecessary re-renders.',
+    focusCategories: ['performance', 'architecture'],
+    severityRubric: {
+      critical: 'Causes outages, timeouts or unbounded resource use under normal load.',
+      high: 'Noticeably slows a common user-facing path or scales badly with input size.',
+      medium: 'Measurable waste on a less frequent path.',
+      low: 'Micro-optimizations with a small but real benefit.',
+      info: 'Performance observations that need no change.',
+    },
+  },
+  {
+    id: 'accessibility',
+    name: 'Accessibility',
+    description: 'WCAG 2.2 conformance of user interface code.',
+    reviewer: 'an accessibility specialist',
+    instructions: 'Review user interface code against WCAG 2.2: semantic elements and ARIA roles, accessible names for controls and images, keyboard operability and focus management, color contrast, motion, and announcements of dynamic content. Skip files without user interface code.',
+    focusCategories: ['accessibility'],
+    severityRubric: {
+      critical: 'Blocks a task entirely for users of assistive technology or the keyboard.',
+      high: 'Fails a WCAG level A criterion on a common path.',
+      medium: 'Fails a WCAG level AA criterion, or level A on a rare path.',
+      low: 'Best-practice deviations that make the interface harder to use.',
+      info: 'Accessibility observations that need no change.',
+    },
+  },
+];
+
+const toString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Reads the `profiles` array of a repository config. A profile may name a built-in profile
+ * in `extends`; fields it leaves out are taken from that profile (or the general one).
+ */
+export const parseReviewProfiles = (raw: unknown, path: string): ReviewProfile[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) throw new Error(`Could not parse ${path}: "profiles" must be an array.`);
+  return raw.map((entry, index) => {
+    const value = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const id = toString(value.id);
+    if (!id) throw new Error(`Could not parse ${path}: profile ${index + 1} has no "id".`);
+
+    const baseId = toString(value.extends) ?? DEFAULT_PROFILE_ID;
+    const base = BUILT_IN_PROFILES.find(profile => profile.id === baseId);
+    if (!base) throw new Error(`Could not parse ${path}: profile "${id}" extends unknown profile "${baseId}".`);
+
+    const categories = Array.isArray(value.focusCategories)
+      ? value.focusCategories.filter((c): c is FindingCategory => FINDING_CATEGORIES.includes(c))
+      : [];
+    const rubric = (value.severityRubric && typeof value.severityRubric === 'object' ? value.severityRubric : {}) as Record<string, unknown>;
+
+    return {
+      id,
+      name: toString(value.name) ?? id,
+      description: toString(value.description) ?? `Defined in ${path}.`,
+      reviewer: toString(value.reviewer) ?? base.reviewer,
+      instructions: toString(value.instructions) ?? base.instructions,
+      focusCategories: categories.length > 0 ? categories : base.focusCategories,
+      severityRubric: Object.fromEntries(
+        FINDING_SEVERITIES.map(severity => [severity, toString(rubric[severity]) ?? base.severityRubric[severity]])
+      ) as Record<FindingSeverity, string>,
+      configPath: path,
+    };
+  });
+};
+
+/** Built-in profiles followed by the repository's own; a repository profile replaces a built-in one with the same id. */
+export const listReviewProfiles = (repoConfig: RepoConfig | null): ReviewProfile[] => {
+  const repoProfiles = repoConfig?.profiles ?? [];
+  return [
+    ...BUILT_IN_PROFILES.filter(profile => !repoProfiles.some(p => p.id === profile.id)),
+    ...repoProfiles,
+  ];
+};
+
+/** The profile an analysis was run with; analyses saved before profiles existed used the general one. */
+export const getReviewProfile = (repoData: RepoAnalysisData): ReviewProfile =>
+  repoData.reviewProfile ?? BUILT_IN_PROFILES[0];
+
+/** The profile chosen for this run, else the repository's default, else the general profile. */
+export const resolveReviewProfile = (profileId: string | undefined, repoConfig: RepoConfig | null): ReviewProfile => {
+  const id = profileId || repoConfig?.defaultProfile || DEFAULT_PROFILE_ID;
+  const profiles = listReviewProfiles(repoConfig);
+  const profile = profiles.find(p => p.id === id);
+  if (!profile) {
+    const origin = profileId ? '' : ` (set as the default in ${repoConfig!.path})`;
+    throw new Error(`Unknown review profile "${id}"${origin}. Available profiles: ${profiles.map(p => p.id).join(', ')}.`);
+  }
+  return profile;
+};
@@ -0,0 +1,329 @@
+
+import { ADVISORIES, Advisory, Ecosystem } from "./advisoryDatabase";
+import type { FindingSeverity, ReviewFinding } from "./geminiService";
+import type { CodeFile } from "./githubService";
+
+// --- Interfaces ---
+
+export type SecurityHitKind = 'secret' | 'risky-api' | 'dependency';
+
+export type TriageVerdict = 'confirmed' | 'false-positive';
+
+/** A match of a deterministic check, before or after the model has triaged it. */
+export interface SecurityHit {
+  kind: SecurityHitKind;
+  ruleId: string;
+  title: string;
+  filePath: string;
+  line: number;
+  severity: FindingSeverity;
+  cwe: string;
+  // Numbered source lines around the match with secrets masked; safe to show and to send to the model
+  context: string;
+  advisory?: { id: string; package: string; version: string; fixed?: string };
+  triage?: {
+    verdict: TriageVerdict;
+    explanation: string;
+  };
+}
+
+export interface Dependency {
+  ecosystem: Ecosystem;
+  name: string;
+  // Lowest version the declared spec allows
+  version: string;
+  filePath: string;
+  line: number;
+}
+
+export interface SecurityScanResult {
+  scannedFiles: number;
+  dependencies: Dependency[];
+  hits: SecurityHit[];
+  // Set when the model could not triage the hits; they are then reported as found
+  triageError?: string;
+}
+
+interface LineRule {
+  id: string;
+  kind: 'secret' | 'risky-api';
+  title: string;
+  pattern: RegExp;
+  severity: FindingSeverity;
+  cwe: string;
+  // Only applied to files with these extensions; secrets are searched for everywhere
+  extensions?: string[];
+  // Rejects matches that are obviously not a problem, such as placeholder values
+  ignore?: (match: RegExpMatchArray) => boolean;
+}
+
+// --- Rules ---
+
+const JS_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.vue', '.svelte', '.html'];
+const PY_EXTENSIONS = ['.py'];
+
+const PLACEHOLDER_PATTERN = /example|changeme|placeholder|your[_-]|xxxx|\*\*\*|\$\{|<[^>]*>|process\.env|os\.environ/i;
+
+const SECRET_RULES: LineRule[] = [
+  { id: 'aws-access-key', kind: 'secret', title: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'github-token', kind: 'secret', title: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'google-api-key', kind: 'secret', title: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/, severity: 'high', cwe: 'CWE-798' },
+  { id: 'slack-token', kind: 'secret', title: 'Slack token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/, severity: 'high', cwe: 'CWE-798' },
+  { id: 'stripe-live-key', kind: 'secret', title: 'Stripe live secret key', pattern: /\b(?:sk|rk)_live_[A-Za-z0-9]{20,}\b/, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'private-key', kind: 'secret', title: 'Private key', pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/, severity: 'critical', cwe: 'CWE-798' },
+  {
+    id: 'hard-coded-credential',
+    kind: 'secret',
+    title: 'Hard-coded credential',
+    pattern: /\b(?:password|passwd|secret|api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret)\b["']?\s*[:=]\s*["']([^"'\s]{8,})["']/i,
+    severity: 'high',
+    cwe: 'CWE-798',
+    ignore: match => PLACEHOLDER_PATTERN.test(match[1]),
+  },
+];
+
+const RISKY_API_RULES: LineRule[] = [
+  { id: 'js-eval', kind: 'risky-api', title: 'Dynamic code evaluation', pattern: /\beval\s*\(|\bnew\s+Function\s*\(/, severity: 'high', cwe: 'CWE-95', extensions: JS_EXTENSIONS },
+  { id: 'py-eval', kind: 'risky-api', title: 'Dynamic code evaluation', pattern: /(?<![\w.])(?:eval|exec)\s*\(/, severity: 'high', cwe: 'CWE-95', extensions: PY_EXTENSIONS },
+  {
+    id: 'dom-html-injection',
+    kind: 'risky-api',
+    title: 'HTML injection sink',
+    pattern: /\.(?:innerHTML|outerHTML)\s*\+?=(?!=)|\binsertAdjacentHTML\s*\(|\bdocument\.write(?:ln)?\s*\(|\bdangerouslySetInnerHTML\b/,
+    severity: 'high',
+    cwe: 'CWE-79',
+    extensions: JS_EXTENSIONS,
+  },
+  {
+    id: 'sql-string-building',
+    kind: 'risky-api',
+    title: 'SQL built from strings',
+    // Concatenation, template literals, f-strings and %/format() interpolation into a query
+    pattern: /(?:["'`][^"'`]*\b(?:SELECT\b[^"'`]*\bFROM|INSERT\s+INTO|UPDATE\b[^"'`]*\bSET|DELETE\s+FROM)\b[^"'`]*["'`]\s*(?:\+|%\s*[\w(]|\.format\()|`[^`]*\b(?:SELECT|INSERT|UPDATE|DELETE)\b[^`]*\$\{|\bf["'][^"']*\b(?:SELECT|INSERT|UPDATE|DELETE)\b[^"']*\{)/i,
+    severity: 'high',
+    cwe: 'CWE-89',
+  },
+  { id: 'js-shell-exec', kind: 'risky-api', title: 'Shell command execution', pattern: /\bchild_process\.exec(?:Sync)?\s*\(|\bexecSync\s*\(|\bshell\s*:\s*true\b/, severity: 'high', cwe: 'CWE-78', extensions: JS_EXTENSIONS },
+  { id: 'py-shell-exec', kind: 'risky-api', title: 'Shell command execution', pattern: /\bos\.(?:system|popen)\s*\(|\bsubprocess\.\w+\(.*\bshell\s*=\s*True/, severity: 'high', cwe: 'CWE-78', extensions: PY_EXTENSIONS },
+  { id: 'go-shell-exec', kind: 'risky-api', title: 'Shell command execution', pattern: /\bexec\.Command(?:Context)?\([^)]*"(?:sh|bash|cmd(?:\.exe)?)"/, severity: 'high', cwe: 'CWE-78', extensions: ['.go'] },
+  { id: 'java-shell-exec', kind: 'risky-api', title: 'Shell command execution', pattern: /\bRuntime\.getRuntime\(\)\.exec\s*\(/, severity: 'high', cwe: 'CWE-78', extensions: ['.java', '.kt'] },
+  { id: 'php-shell-exec', kind: 'risky-api', title: 'Shell command execution', pattern: /\b(?:shell_exec|system|passthru|proc_open|popen)\s*\(/, severity: 'high', cwe: 'CWE-78', extensions: ['.php'] },
+  { id: 'py-unsafe-deserialization', kind: 'risky-api', title: 'Unsafe deserialization', pattern: /\bpickle\.loads?\s*\(|\byaml\.load\s*\((?![^)]*SafeLoader)/, severity: 'high', cwe: 'CWE-502', extensions: PY_EXTENSIONS },
+  {
+    id: 'tls-verification-disabled',
+    kind: 'risky-api',
+    title: 'TLS certificate verification disabled',
+    pattern: /\brejectUnauthorized\s*:\s*false\b|\bverify\s*=\s*False\b|\bInsecureSkipVerify\s*:\s*true\b|\bNODE_TLS_REJECT_UNAUTHORIZED\b/,
+    severity: 'high',
+    cwe: 'CWE-295',
+  },
+  {
+    id: 'weak-hash',
+    kind: 'risky-api',
+    title: 'Weak hash algorithm',
+    pattern: /\bcreateHash\(\s*["'](?:md5|sha1)["']|\bhashlib\.(?:md5|sha1)\s*\(|\bMessageDigest\.getInstance\(\s*"(?:MD5|SHA-?1)"/i,
+    severity: 'low',
+    cwe: 'CWE-327',
+  },
+];
+
+// Minified bundles and data blobs produce noise rather than findings
+export const MAX_SCANNED_LINE_LENGTH = 1_000;
+const CONTEXT_LINES = 3;
+
+// --- Line Checks ---
+
+const extensionOf = (path: string): string => path.substring(path.lastIndexOf('.')).toLowerCase();
+
+/** Replaces anything that looks like a secret with its first four characters, so it is never shown or sent anywhere. */
+export const maskSecrets = (line: string): string =>
+  SECRET_RULES.reduce((masked, rule) => masked.replace(new RegExp(rule.pattern.source, rule.pattern.flags + 'g'), (match, value?: string) => {
+    const secret = typeof value === 'string' ? value : match;
+    return match.replace(secret, `${secret.substring(0, 4)}…`);
+  }), line);
+
+const formatContext = (lines: string[], line: number): string => {
+  const start = Math.max(1, line - CONTEXT_LINES);
+  const end = Math.min(lines.length, line + CONTEXT_LINES);
+  return lines.slice(start - 1, end)
+    .map((text, i) => `${String(start + i).padStart(4, ' ')} | ${maskSecrets(text.substring(0, MAX_SCANNED_LINE_LENGTH))}`)
+    .join('\n');
+};
+
+const scanFile = (file: CodeFile): SecurityHit[] => {
+  const extension = extensionOf(file.path);
+  const rules = [...SECRET_RULES, ...RISKY_API_RULES].filter(rule => !rule.extensions || rule.extensions.includes(extension));
+  const lines = file.content.split('\n');
+  const hits: SecurityHit[] = [];
+  lines.forEach((text, index) => {
+    if (text.length > MAX_SCANNED_LINE_LENGTH) return;
+    for (const rule of rules) {
+      const match = text.match(rule.pattern);
+      if (!match || rule.ignore?.(match)) continue;
+      hits.push({
+        kind: rule.kind,
+        ruleId: rule.id,
+        title: rule.title,
+        filePath: file.path,
+        line: index + 1,
+        severity: rule.severity,
+        cwe: rule.cwe,
+        context: formatContext(lines, index + 1),
+      });
+    }
+  });
+  return hits;
+};
+
+// --- Dependency Manifests ---
+
+const fileNameOf = (path: string): string => path.substring(path.lastIndexOf('/') + 1);
+
+const lineOf = (lines: string[], pattern: RegExp): number => Math.max(0, lines.findIndex(line => pattern.test(line))) + 1;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The lowest version a declared spec allows, e.g. "4.17.15" for "^4.17.15" or ">=4.17.15,<5".
+ * Specs without a lower bound (git URLs, "*", "latest", "<2") return null.
+ */
+const minimumVersion = (spec: string): string | null => {
+  const trimmed = spec.trim();
+  if (!trimmed || /^(?:[<*]|latest|git|file:|link:|workspace:|https?:)/i.test(trimmed)) return null;
+  const match = trimmed.match(/\d+(?:\.\d+)*/);
+  return match ? match[0] : null;
+};
+
+const parsePackageJson = (file: CodeFile): Dependency[] => {
+  let manifest: any;
+  try {
+    manifest = JSON.parse(file.content);
+  } catch {
+    return [];
+  }
+  const lines = file.content.split('\n');
+  const sections = [manifest?.dependencies, manifest?.devDependencies, manifest?.optionalDependencies];
+  return sections.flatMap(section => Object.entries<unknown>(section && typeof section === 'object' ? section : {}))
+    .flatMap(([name, spec]) => {
+      const version = typeof spec === 'string' ? minimumVersion(spec) : null;
+      return version ? [{ ecosystem: 'npm' as const, name, version, filePath: file.path, line: lineOf(lines, new RegExp(`"${escapeRegExp(name)}"\\s*:`)) }] : [];
+    });
+};
+
+const parseRequirementsTxt = (file: CodeFile): Dependency[] =>
+  file.content.split('\n').flatMap((raw, index) => {
+    const line = raw.replace(/#.*/, '').split(';')[0].trim();
+    const match = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*((?:==|>=|~=|===)\s*[^,\s]+)/);
+    const version = match ? minimumVersion(match[2].replace(/^[=~>]+/, '')) : null;
+    // Package names are case-insensitive and treat "-", "_" and "." alike
+    return match && version ? [{ ecosystem: 'PyPI' as const, name: match[1].toLowerCase().replace(/[._]/g, '-'), version, filePath: file.path, line: index + 1 }] : [];
+  });
+
+const parseGoMod = (file: CodeFile): Dependency[] => {
+  let inRequireBlock = false;
+  return file.content.split('\n').flatMap((raw, index) => {
+    const line = raw.replace(/\/\/.*/, '').trim();
+    if (/^require\s*\($/.test(line)) {
+      inRequireBlock = true;
+      return [];
+    }
+    if (inRequireBlock && line === ')') {
+      inRequireBlock = false;
+      return [];
+    }
+    const match = (inRequireBlock ? line : line.replace(/^require\s+/, '')).match(/^(\S+)\s+v(\d+\.\d+\.\d+)/);
+    if (!match || (!inRequireBlock && !line.startsWith('require'))) return [];
+    return [{ ecosystem: 'Go' as const, name: match[1], version: match[2], filePath: file.path, line: index + 1 }];
+  });
+};
+
+const parseCargoToml = (file: CodeFile): Dependency[] => {
+  let inDependencies = false;
+  return file.content.split('\n').flatMap((raw, index) => {
+    const line = raw.replace(/#.*/, '').trim();
+    const section = line.match(/^\[(.+)\]$/);
+    if (section) {
+      inDependencies = /(?:^|\.)(?:dev-|build-)?dependencies$/.test(section[1]);
+      return [];
+    }
+    if (!inDependencies) return [];
+    const match = line.match(/^([A-Za-z0-9_-]+)\s*=\s*(?:"([^"]+)"|\{.*\bversion\s*=\s*"([^"]+)")/);
+    const version = match ? minimumVersion(match[2] ?? match[3]) : null;
+    return match && version ? [{ ecosystem: 'crates.io' as const, name: match[1], version, filePath: file.path, line: index + 1 }] : [];
+  });
+};
+
+const MANIFEST_PARSERS: Record<string, (file: CodeFile) => Dependency[]> = {
+  'package.json': parsePackageJson,
+  'requirements.txt': parseRequirementsTxt,
+  'go.mod': parseGoMod,
+  'Cargo.toml': parseCargoToml,
+};
+
+export const parseDependencies = (files: CodeFile[]): Dependency[] =>
+  files.flatMap(file => MANIFEST_PARSERS[fileNameOf(file.path)]?.(file) ?? []);
+
+// --- Advisory Matching ---
+
+const compareVersions = (a: string, b: string): number => {
+  const aParts = a.split('.').map(Number);
+  const bParts = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const isAffected = (version: string, advisory: Advisory): boolean =>
+  (!advisory.introduced || compareVersions(version, advisory.introduced) >= 0)
+  && (!advisory.fixed || compareVersions(version, advisory.fixed) < 0);
+
+/** Dependencies whose lowest allowed version falls in an advisory's affected range. */
+export const auditDependencies = (dependencies: Dependency[], files: CodeFile[]): SecurityHit[] => {
+  const linesByPath = new Map(files.map(file => [file.path, file.content.split('\n')]));
+  return dependencies.flatMap(dependency => ADVISORIES
+    .filter(advisory => advisory.ecosystem === dependency.ecosystem
+      && advisory.package.toLowerCase() === dependency.name.toLowerCase()
+      && isAffected(dependency.version, advisory))
+    .map(advisory => ({
+      kind: 'dependency' as const,
+      ruleId: advisory.id,
+      title: `${dependency.name} ${dependency.version} is affected by ${advisory.id}: ${advisory.summary}`,
+      filePath: dependency.filePath,
+      line: dependency.line,
+      severity: advisory.severity,
+      cwe: advisory.cwe,
+      context: formatContext(linesByPath.get(dependency.filePath) ?? [], dependency.line),
+      advisory: { id: advisory.id, package: dependency.name, version: dependency.version, fixed: advisory.fixed },
+    })));
+};
+
+// --- Scan ---
+
+/** Runs every deterministic check over the fetched files. Nothing here calls a model or the network. */
+export const runSecurityScan = (files: CodeFile[]): SecurityScanResult => {
+  const dependencies = parseDependencies(files);
+  return {
+    scannedFiles: files.length,
+    dependencies,
+    hits: [...files.flatMap(scanFile), ...auditDependencies(dependencies, files)],
+  };
+};
+
+/** Hits the triage confirmed, or every hit when triage did not run, as report findings. */
+export const toReviewFindings = (scan: SecurityScanResult): ReviewFinding[] =>
+  scan.hits
+    .filter(hit => hit.triage?.verdict !== 'false-positive')
+    .map(hit => ({
+      filePath: hit.filePath,
+      startLine: hit.line,
+      endLine: hit.line,
+      severity: hit.severity,
+      category: 'security' as const,
+      title: hit.kind === 'dependency' ? hit.title : `${hit.title} (${hit.ruleId})`,
+      explanation: hit.triage?.explanation
+        ?? `Found by the ${hit.ruleId} check${scan.triageError ? `; it was not triaged (${scan.triageError})` : ''}.`,
+      suggestedFix: hit.advisory?.fixed ? `Upgrade ${hit.advisory.package} to ${hit.advisory.fixed} or later.` : '',
+      cwe: hit.cwe,
+    }));
@@ -0,0 +1,97 @@
+
+import { AnalysisStatus } from "../components/AnalysisProgress";
+import {
+  AnalysisOptions, AnalysisSource, CodeFile, RepoAnalysisData, SnapshotReader, createGitHubReader, fetchIndexableFiles,
+  startRepositoryAnalysis
+} from "./githubService";
+import { LocalSource, createLocalReader, readIndexableFiles, startLocalAnalysis } from "./localSource";
+
+/** Where the code to analyze comes from: a GitHub URL, or a local directory or archive. */
+export type AnalysisTarget = { kind: 'github'; url: string } | LocalSource;
+
+/** Loads the files to review from any source into the same `RepoAnalysisData` shape. */
+export const startAnalysis = (
+  target: AnalysisTarget,
+  updateProgress: (status: AnalysisStatus) => void,
+  options: AnalysisOptions = {}
+): Promise<RepoAnalysisData> =>
+  target.kind === 'github'
+    ? startRepositoryAnalysis(target.url, updateProgress, options)
+    : startLocalAnalysis(target, updateProgress, options);
+
+export const isGitHubSource = (source: AnalysisSource): boolean => (source.kind ?? 'github') === 'github';
+
+/** `owner/repo` for GitHub, the directory or archive name otherwise. */
+export const describeSourceName = (source: AnalysisSource): string =>
+  isGitHubSource(source) ? `${source.owner}/${source.repo}` : source.repo;
+
+/** The ref and short commit SHA, or the kind of local source and its short fingerprint. */
+export const describeRevision = (source: AnalysisSource): string =>
+  `${source.ref} @ ${source.commitSha.substring(0, 7)}`;
+
+export const sourceWebUrl = (source: AnalysisSource): string | null =>
+  isGitHubSource(source) ? `https://github.com/${source.owner}/${source.repo}` : null;
+
+/** Link to a file at the analyzed commit, optionally to a line range; null for local sources. */
+export const sourceFileUrl = (source: AnalysisSource, path: string, startLine?: number, endLine?: number): string | null => {
+  const base = sourceWebUrl(source);
+  if (!base) return null;
+  const anchor = startLine ? `#L${startLine}${endLine && endLine !== startLine ? `-L${endLine}` : ''}` : '';
+  return `${base}/blob/${source.commitSha}/${path}${anchor}`;
+};
+
+/** A line range in a file of the analyzed snapshot, e.g. a finding or a DeepWiki citation. */
+export interface SourceLocation {
+  path: string;
+  startLine: number;
+  endLine: number;
+}
+
+// [path:line], [path:start-end] or the same in backticks. The path must contain a '.' or '/', so "[note:1]" is not a citation.
+const CITATION_PATTERN = /\[([^\s[\]:]*[./][^\s[\]:]*):(\d+)(?:-(\d+))?\](?!\()|`([^\s`:]*[./][^\s`:]*):(\d+)(?:-(\d+))?`/g;
+
+/** Finds the `path:line` citations in a text, with their position. */
+export const findCitations = (text: string): { index: number; text: string; location: SourceLocation }[] =>
+  Array.from(text.matchAll(CITATION_PATTERN), match => {
+    const startLine = parseInt(match[2] ?? match[5], 10);
+    const end = match[3] ?? match[6];
+    return {
+      index: match.index!,
+      text: match[0],
+      location: { path: match[1] ?? match[4], startLine, endLine: end ? Math.max(startLine, parseInt(end, 10)) : startLine },
+    };
+  });
+
+/**
+ * Loads every text file of the analyzed snapshot for the DeepWiki index. A local source can
+ * only be re-read while it is still open; otherwise the analyzed files are all there is.
+ */
+export const loadIndexableFiles = (
+  repoData: RepoAnalysisData,
+  localSource: LocalSource | null,
+  options: AnalysisOptions = {}
+): Promise<{ files: CodeFile[]; skippedFiles: number }> => {
+  const known = [...repoData.structuralFiles, ...repoData.codeFiles];
+  if (isGitHubSource(repoData.source)) return fetchIndexableFiles(repoData.source, known, options);
+  if (localSource && localSource.name === repoData.source.repo) return readIndexableFiles(localSource, options.signal);
+  return Promise.resolve({ files: known, skippedFiles: 0 });
+};
+
+/**
+ * Reads the analyzed snapshot on demand for the DeepWiki tools. As in `loadIndexableFiles`,
+ * a local source that is no longer open falls back to the files already loaded.
+ */
+export const createSnapshotReader = (
+  repoData: RepoAnalysisData,
+  localSource: LocalSource | null,
+  loaded: CodeFile[],
+  token?: string
+): SnapshotReader => {
+  if (isGitHubSource(repoData.source)) return createGitHubReader(repoData.source, token);
+  if (localSource && localSource.name === repoData.source.repo) return createLocalReader(localSource);
+  return {
+    listFiles: async () => loaded.map(file => ({ path: file.path, size: file.content.length })),
+    readFile: async path => loaded.find(file => file.path === path)?.content ?? null,
+    fileHistory: null,
+  };
+};
@@ -0,0 +1,717 @@
+
+import type { CodeFile } from "./githubService";
+
+// --- Interfaces ---
+
+export interface FunctionMetrics {
+  // "(anonymous)" or "<callee> callback" for unnamed functions
+  name: string;
+  startLine: number;
+  endLine: number;
+  // Cyclomatic complexity: 1 plus the number of decision points in the function's own body
+  complexity: number;
+  // Deepest nesting of control-flow blocks (if, loops, try, switch, ...) inside the function
+  maxNesting: number;
+}
+
+/** A run of lines that also appears, line for line, elsewhere in the analyzed files. */
+export interface DuplicateBlock {
+  startLine: number;
+  endLine: number;
+  otherPath: string;
+  otherStartLine: number;
+  otherEndLine: number;
+}
+
+export interface FileMetrics {
+  path: string;
+  language: string;
+  lines: number;
+  codeLines: number;
+  commentLines: number;
+  // Cyclomatic complexity of the whole file, including code outside functions
+  complexity: number;
+  maxNesting: number;
+  // Empty for languages without function detection (HTML, CSS, unknown extensions)
+  functions: FunctionMetrics[];
+  todoCount: number;
+  // FIXME, HACK and XXX markers
+  fixmeCount: number;
+  duplicates: DuplicateBlock[];
+}
+
+/** Values above which a function is reported as too complex, too long or too deeply nested. */
+export const METRIC_THRESHOLDS = {
+  complexity: 10,
+  functionLength: 60,
+  nesting: 4,
+};
+
+type BlockKind = 'function' | 'control' | 'other';
+
+interface StringDelimiter {
+  open: string;
+  close: string;
+  multiline: boolean;
+}
+
+interface LanguageSpec {
+  name: string;
+  extensions: string[];
+  lineComments: string[];
+  blockComments: [string, string][];
+  // Longer delimiters first, so '"""' wins over '"'
+  strings: StringDelimiter[];
+  blocks: 'braces' | 'indentation' | 'keywords' | 'none';
+  // JavaScript regular expression literals, whose brackets and quotes are not code
+  regexLiterals?: boolean;
+  // Global pattern; every match is one decision point
+  decisions?: RegExp;
+  // For brace languages: the function name for the statement before a '{', or null when it does not open a function
+  functionName?: (statement: string) => string | null;
+}
+
+// --- Languages ---
+
+const quote = (char: string, multiline = false): StringDelimiter => ({ open: char, close: char, multiline });
+
+const C_COMMENTS = { lineComments: ['//'], blockComments: [['/*', '*/']] as [string, string][] };
+
+// Statements that open control-flow blocks in brace languages; `else if` and `} catch` start with a keyword too
+const CONTROL_STATEMENT = /^(?:if|else|for|foreach|while|do|switch|try|catch|finally|match|loop|select|unless|synchronized)\b/;
+
+const CALLBACK_NAME = /([\w$]+)\s*\(\s*(?:[^()]*,\s*)?(?:async\s*)?(?:\([^()]*\)|[\w$]+)\s*(?::[^=]*)?(?:=>|->)\s*$/;
+
+const jsFunctionName = (statement: string): string | null => {
+  const declared = statement.match(/\bfunction\b\s*\*?\s*([\w$]+)?\s*[(<]/);
+  const assigned = statement.match(/([\w$]+)\s*(?::[^=]*)?[=:]\s*(?:async\b\s*)?(?:function\b|\(|[\w$]+\s*=>)/);
+  if (declared) return declared[1] ?? assigned?.[1] ?? '(anonymous)';
+  if (/=>\s*$/.test(statement)) {
+    // `const handler = useCallback(() => {` is named after the variable, not the call
+    const variable = statement.match(/^(?:export\s+)?(?:const|let|var)\s+([\w$]+)/);
+    if (variable) return variable[1];
+    const callback = statement.match(CALLBACK_NAME);
+    if (callback) return `${callback[1]} callback`;
+    return assigned?.[1] ?? '(anonymous)';
+  }
+  const method = statement.match(
+    /^(?:@[\w.]+(?:\([^)]*\))?\s+)*(?:(?:public|private|protected|static|async|get|set|override|readonly|abstract)\s+)*\*?\s*([\w$]+)\s*(?:<[^>]*>)?\s*\([^]*\)\s*(?::[^{}]*)?$/
+  );
+  return method ? method[1] : null;
+};
+
+const javaFunctionName = (statement: string): string | null => {
+  if (/->\s*$/.test(statement)) return statement.match(CALLBACK_NAME)?.[1].concat(' callback') ?? '(anonymous)';
+  const method = statement.match(/([\w$]+)\s*\([^]*\)\s*(?:throws\s+[\w.,\s]+)?$/);
+  if (!method || /\bnew\s+[\w.<>]+\s*\([^]*\)\s*$/.test(statement) || /^(?:class|interface|enum|record)\b/.test(statement)) return null;
+  return method[1];
+};
+
+const goFunctionName = (statement: string): string | null => {
+  const match = statement.match(/\bfunc\b\s*(?:\([^)]*\)\s*)?([\w]+)?\s*(?:\[[^\]]*\])?\s*\(/);
+  if (!match) return null;
+  return match[1] ?? statement.match(CALLBACK_NAME)?.[1].concat(' callback') ?? '(anonymous)';
+};
+
+const rustFunctionName = (statement: string): string | null => statement.match(/\bfn\s+(\w+)/)?.[1] ?? null;
+
+const phpFunctionName = (statement: string): string | null => {
+  const match = statement.match(/\bfunction\b\s*&?\s*(\w+)?\s*\(/);
+  if (!match) return null;
+  return match[1] ?? statement.match(/\$?(\w+)\s*=\s*(?:static\s+)?function\b/)?.[1] ?? '(anonymous)';
+};
+
+const LANGUAGES: LanguageSpec[] = [
+  {
+    name: 'JavaScript/TypeScript',
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
+    ...C_COMMENTS,
+    strings: [quote('`', true), quote('"'), quote("'")],
+    blocks: 'braces',
+    regexLiterals: true,
+    decisions: /\b(?:if|for|while|case|catch)\b|&&|\|\||\?\?|\?(?![.:?=])/g,
+    functionName: jsFunctionName,
+  },
+  {
+    name: 'Java',
+    extensions: ['.java'],
+    ...C_COMMENTS,
+    strings: [quote('"""', true), quote('"'), quote("'")],
+    blocks: 'braces',
+    decisions: /\b(?:if|for|while|case|catch)\b|&&|\|\||\?(?=\s)/g,
+    functionName: javaFunctionName,
+  },
+  {
+    name: 'Go',
+    extensions: ['.go'],
+    ...C_COMMENTS,
+    strings: [quote('`', true), quote('"'), quote("'")],
+    blocks: 'braces',
+    decisions: /\b(?:if|for|case)\b|&&|\|\|/g,
+    functionName: goFunctionName,
+  },
+  {
+    // No single-quote strings: they would swallow lifetimes such as 'a
+    name: 'Rust',
+    extensions: ['.rs'],
+    ...C_COMMENTS,
+    strings: [quote('"', true)],
+    blocks: 'braces',
+    decisions: /\b(?:if|for|while)\b|&&|\|\||=>/g,
+    functionName: rustFunctionName,
+  },
+  {
+    name: 'PHP',
+    extensions: ['.php'],
+    lineComments: ['//', '#'],
+    blockComments: [['/*', '*/']],
+    strings: [quote('"', true), quote("'", true)],
+    blocks: 'braces',
+    decisions: /\b(?:if|elseif|for|foreach|while|case|catch|and|or)\b|&&|\|\||\?\?|\?(?=\s)/g,
+    functionName: phpFunctionName,
+  },
+  {
+    name: 'Python',
+    extensions: ['.py'],
+    lineComments: ['#'],
+    blockComments: [],
+    strings: [quote('"""', true), quote("'''", true), quote('"'), quote("'")],
+    blocks: 'indentation',
+    decisions: /\b(?:if|elif|for|while|except|case|and|or)\b/g,
+  },
+  {
+    name: 'Ruby',
+    extensions: ['.rb'],
+    lineComments: ['#'],
+    blockComments: [['=begin', '=end']],
+    strings: [quote('"'), quote("'")],
+    blocks: 'keywords',
+    decisions: /\b(?:if|elsif|unless|while|until|for|when|rescue|and|or)\b|&&|\|\|/g,
+  },
+  {
+    name: 'CSS',
+    extensions: ['.css', '.scss'],
+    lineComments: [],
+    blockComments: [['/*', '*/']],
+    strings: [quote('"'), quote("'")],
+    blocks: 'none',
+  },
+  {
+    name: 'HTML',
+    extensions: ['.html', '.htm'],
+    lineComments: [],
+    blockComments: [['<!--', '-->']],
+    strings: [],
+    blocks: 'none',
+  },
+];
+
+const OTHER_LANGUAGE: LanguageSpec = { name: 'Other', extensions: [], lineComments: [], blockComments: [], strings: [], blocks: 'none' };
+
+const languageFor = (path: string): LanguageSpec =>
+  LANGUAGES.find(language => language.extensions.some(ext => path.endsWith(ext))) ?? OTHER_LANGUAGE;
+
+// --- Lexing ---
+
+/** A comment, string or regular expression literal within one line, by column. */
+export interface SourceSpan {
+  start: number;
+  end: number;
+  kind: 'comment' | 'string';
+}
+
+interface LexedFile {
+  // One entry per source line, with comments and string contents blanked out
+  code: string[];
+  hasCode: boolean[];
+  hasComment: boolean[];
+  spans: SourceSpan[][];
+}
+
+// A '/' starts a regular expression rather than a division after an operator, an opening bracket or a keyword
+const REGEX_PRECEDER = /(?:^|[(,=:[!&|?{};+\-*%<>~^]|\b(?:return|typeof|case|do|else|in|of|void|yield|await))\s*$/;
+
+// Index of the closing '/' of a regular expression literal starting at `start`, or -1 when there is none
+const findRegexEnd = (line: string, start: number, before: string): number => {
+  if (!REGEX_PRECEDER.test(before)) return -1;
+  let inClass = false;
+  for (let i = start + 1; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\') i++;
+    else if (char === '[') inClass = true;
+    else if (char === ']') inClass = false;
+    else if (char === '/' && !inClass) return i;
+  }
+  return -1;
+};
+
+/** Blanks out comments and string contents, so keywords and braces in them are not counted. */
+const lex = (content: string, language: LanguageSpec): LexedFile => {
+  const sourceLines = content.split('\n');
+  const code: string[] = [];
+  const hasCode: boolean[] = [];
+  const hasComment: boolean[] = [];
+  const spans: SourceSpan[][] = [];
+  let blockEnd: string | null = null;
+  let openString: StringDelimiter | null = null;
+
+  for (const line of sourceLines) {
+    let out = '';
+    let codeSeen = false;
+    let commentSeen = blockEnd !== null;
+    const lineSpans: SourceSpan[] = [];
+    // Start of the comment or string the lexer is in, which may have begun on an earlier line
+    let spanStart = blockEnd !== null || openString !== null ? 0 : -1;
+    const closeSpan = (end: number, kind: SourceSpan['kind']) => {
+      lineSpans.push({ start: spanStart, end, kind });
+      spanStart = -1;
+    };
+    let i = 0;
+    while (i < line.length) {
+      if (blockEnd !== null) {
+        const end = line.indexOf(blockEnd, i);
+        if (end === -1) {
+          out += ' '.repeat(line.length - i);
+          i = line.length;
+        } else {
+          out += ' '.repeat(end + blockEnd.length - i);
+          i = end + blockEnd.length;
+          blockEnd = null;
+          closeSpan(i, 'comment');
+        }
+        continue;
+      }
+      if (openString !== null) {
+        codeSeen = true;
+        if (line[i] === '\\' && openString.open !== '`') {
+          out += '  ';
+          i += 2;
+        } else if (line.startsWith(openString.close, i)) {
+          out += openString.close;
+          i += openString.close.length;
+          openString = null;
+          closeSpan(i, 'string');
+        } else {
+          out += ' ';
+          i++;
+        }
+        continue;
+      }
+      if (language.lineComments.some(token => line.startsWith(token, i))) {
+        commentSeen = true;
+        out += ' '.repeat(line.length - i);
+        lineSpans.push({ start: i, end: line.length, kind: 'comment' });
+        break;
+      }
+      const block = language.blockComments.find(([open]) => line.startsWith(open, i));
+      if (block) {
+        commentSeen = true;
+        blockEnd = block[1];
+        spanStart = i;
+        out += ' '.repeat(block[0].length);
+        i += block[0].length;
+        continue;
+      }
+      const delimiter = language.strings.find(s => line.startsWith(s.open, i));
+      if (delimiter) {
+        codeSeen = true;
+        openString = delimiter;
+        spanStart = i;
+        out += delimiter.open;
+        i += delimiter.open.length;
+        continue;
+      }
+      const regexEnd = language.regexLiterals && line[i] === '/' ? findRegexEnd(line, i, out) : -1;
+      if (regexEnd !== -1) {
+        codeSeen = true;
+        lineSpans.push({ start: i, end: regexEnd + 1, kind: 'string' });
+        out += `/${' '.repeat(regexEnd - i - 1)}/`;
+        i = regexEnd + 1;
+        continue;
+      }
+      if (line[i].trim() !== '') codeSeen = true;
+      out += line[i];
+      i++;
+    }
+    if (spanStart !== -1) closeSpan(line.length, blockEnd !== null ? 'comment' : 'string');
+    // Unterminated single-line strings end with their line
+    if (openString !== null && !openString.multiline) openString = null;
+    code.push(out);
+    hasCode.push(codeSeen);
+    hasComment.push(commentSeen && !codeSeen);
+    spans.push(lineSpans);
+  }
+  return { code, hasCode, hasComment, spans };
+};
+
+/** The language name and the comment and string spans of every line, for syntax highlighting. */
+export const lexForHighlighting = (path: string, content: string): { language: string; spans: SourceSpan[][] } => {
+  const language = languageFor(path);
+  return { language: language.name, spans: lex(content, language).spans };
+};
+
+// --- Block Structure ---
+
+interface OpenBlock {
+  kind: BlockKind;
+  fn?: FunctionMetrics;
+}
+
+// Collects functions, decision points and nesting while a language-specific walk opens and closes blocks
+interface Walker {
+  stack: OpenBlock[];
+  functions: FunctionMetrics[];
+  decisions: number;
+  maxNesting: number;
+}
+
+const createWalker = (): Walker => ({ stack: [], functions: [], decisions: 0, maxNesting: 0 });
+
+const innermostFunction = (walker: Walker): FunctionMetrics | undefined =>
+  [...walker.stack].reverse().find(block => block.fn)?.fn;
+
+// Control-flow blocks between the innermost function (or the file) and the top of the stack
+const controlDepth = (walker: Walker): number => {
+  let depth = 0;
+  for (let i = walker.stack.length - 1; i >= 0 && walker.stack[i].kind !== 'function'; i--) {
+    if (walker.stack[i].kind === 'control') depth++;
+  }
+  return depth;
+};
+
+const openBlock = (walker: Walker, kind: BlockKind, name: string | null, line: number): void => {
+  const block: OpenBlock = { kind };
+  if (kind === 'function') {
+    block.fn = { name: name || '(anonymous)', startLine: line, endLine: line, complexity: 1, maxNesting: 0 };
+    walker.functions.push(block.fn);
+  }
+  walker.stack.push(block);
+  if (kind === 'control') {
+    const depth = controlDepth(walker);
+    walker.maxNesting = Math.max(walker.maxNesting, depth);
+    const fn = innermostFunction(walker);
+    if (fn) fn.maxNesting = Math.max(fn.maxNesting, depth);
+  }
+};
+
+const closeBlock = (walker: Walker, line: number): void => {
+  const block = walker.stack.pop();
+  if (block?.fn) block.fn.endLine = line;
+};
+
+// Decision points count towards the file and the innermost open function
+const addDecisions = (walker: Walker, count: number): void => {
+  walker.decisions += count;
+  const fn = innermostFunction(walker);
+  if (fn) fn.complexity += count;
+};
+
+const countDecisions = (text: string, language: LanguageSpec): number =>
+  language.decisions ? (text.match(language.decisions)?.length ?? 0) : 0;
+
+/**
+ * Brace languages: a '{' opens a block whose kind is decided by the statement in front of it.
+ * Statements are tracked per block, so parameter lists with object patterns and callbacks
+ * passed as arguments keep the text needed to name the function.
+ */
+const walkBraces = (lexed: LexedFile, language: LanguageSpec, walker: Walker): void => {
+  const saved: { statement: string; startLine: number; parens: number }[] = [];
+  let statement = '';
+  // Whether `statement` holds more than whitespace, kept up to date so long statements are not re-trimmed per character
+  let hasContent = false;
+  // The statement of the previous line, for a '{' on a line of its own
+  let previous = '';
+  let startLine = 1;
+  let parens = 0;
+
+  lexed.code.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const decisionAt = new Set<number>();
+    if (language.decisions) {
+      for (const match of line.matchAll(language.decisions)) decisionAt.add(match.index!);
+    }
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (decisionAt.has(i)) addDecisions(walker, 1);
+      if (char === '{') {
+        if (!hasContent && previous !== '') statement = previous;
+        previous = '';
+        const text = statement.replace(/\s+/g, ' ').trim();
+        const name = CONTROL_STATEMENT.test(text) ? null : language.functionName?.(text) ?? null;
+        const kind: BlockKind = CONTROL_STATEMENT.test(text) ? 'control' : name !== null ? 'function' : 'other';
+        openBlock(walker, kind, name, text ? startLine : lineNumber);
+        saved.push({ statement, startLine, parens });
+        statement = '';
+        hasContent = false;
+        parens = 0;
+      } else if (char === '}') {
+        closeBlock(walker, lineNumber);
+        const outer = saved.pop();
+        if (outer) {
+          ({ startLine, parens } = outer);
+          // Keep the enclosing statement when the block was an argument or a parameter pattern
+          statement = outer.parens > 0 ? `${outer.statement}{}` : '';
+        } else {
+          statement = '';
+        }
+        hasContent = statement !== '';
+      } else if (char === ';' && parens === 0 && !CONTROL_STATEMENT.test(statement.trimStart())) {
+        // Loop and condition headers in Go keep their semicolons: `for i := 0; i < n; i++ {`
+        statement = '';
+        hasContent = false;
+        previous = '';
+      } else {
+        if (char === '(') parens++;
+        if (char === ')') parens = Math.max(0, parens - 1);
+        if (!hasContent && char.trim() !== '') {
+          startLine = lineNumber;
+          hasContent = true;
+        }
+        statement += char;
+      }
+    }
+    // A line break ends the statement unless it is clearly continued (open parentheses, a trailing operator)
+    if (parens === 0 && hasContent && !/[=,(:|&+\-*/?<>.]$/.test(statement.trimEnd().slice(-1))) {
+      previous = statement;
+      statement = '';
+      hasContent = false;
+    } else {
+      statement += ' ';
+    }
+  });
+  while (walker.stack.length > 0) closeBlock(walker, lexed.code.length);
+};
+
+const PYTHON_FUNCTION = /^(?:async\s+)?def\s+(\w+)/;
+const PYTHON_CONTROL = /^(?:if|elif|else|for|while|try|except|finally|with|match|case|async\s+(?:for|with))\b/;
+
+/** Python: blocks are lines ending in ':' and last until a line that is indented no deeper. */
+const walkIndentation = (lexed: LexedFile, language: LanguageSpec, walker: Walker): void => {
+  const indents: number[] = [];
+  let parens = 0;
+  let continued = false;
+  let header: { text: string; indent: number; line: number } | null = null;
+  let lastCodeLine = 0;
+
+  lexed.code.forEach((line, index) => {
+    const lineNumber = index + 1;
+    if (line.trim() === '') return;
+    const isContinuation = parens > 0 || continued;
+    if (!isContinuation) {
+      const indent = line.match(/^[ \t]*/)![0].replace(/\t/g, '    ').length;
+      while (indents.length > 0 && indents[indents.length - 1] >= indent) {
+        indents.pop();
+        closeBlock(walker, lastCodeLine);
+      }
+      header = { text: '', indent, line: lineNumber };
+    }
+    addDecisions(walker, countDecisions(line, language));
+    for (const char of line) {
+      if ('([{'.includes(char)) parens++;
+      if (')]}'.includes(char)) parens = Math.max(0, parens - 1);
+    }
+    continued = /\\\s*$/.test(line);
+    if (header) header.text += ` ${line.trim()}`;
+    if (header && parens === 0 && !continued) {
+      const text = header.text.trim();
+      if (text.endsWith(':')) {
+        const name = text.match(PYTHON_FUNCTION)?.[1] ?? null;
+        openBlock(walker, name ? 'function' : PYTHON_CONTROL.test(text) ? 'control' : 'other', name, header.line);
+        indents.push(header.indent);
+      }
+      header = null;
+    }
+    lastCodeLine = lineNumber;
+  });
+  while (walker.stack.length > 0) closeBlock(walker, lastCodeLine);
+};
+
+const RUBY_FUNCTION = /^(?:(?:private|protected|public)\s+)?def\s+(?:self\.)?([\w?!=]+)/;
+const RUBY_CONTROL = /^(?:if|unless|while|until|for|case|begin)\b|=\s*(?:if|unless|case|begin)\b/;
+const RUBY_OTHER = /^(?:class|module)\b|\bdo\s*(?:\|[^|]*\|)?\s*$/;
+
+/** Ruby: blocks open with a keyword at the start of a line and close with `end`. */
+const walkKeywords = (lexed: LexedFile, language: LanguageSpec, walker: Walker): void => {
+  lexed.code.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const text = line.trim();
+    if (text === '') return;
+    addDecisions(walker, countDecisions(text, language));
+    if (/^end\b/.test(text)) {
+      closeBlock(walker, lineNumber);
+      return;
+    }
+    // One-liners such as `def name; value; end` and endless methods open nothing
+    if (/\bend\s*$/.test(text) || /^def\s+[\w?!.]+(?:\([^)]*\))?\s*=/.test(text)) return;
+    const name = text.match(RUBY_FUNCTION)?.[1];
+    if (name) openBlock(walker, 'function', name, lineNumber);
+    else if (RUBY_CONTROL.test(text)) openBlock(walker, 'control', null, lineNumber);
+    else if (RUBY_OTHER.test(text)) openBlock(walker, 'other', null, lineNumber);
+  });
+  while (walker.stack.length > 0) closeBlock(walker, lexed.code.length);
+};
+
+// --- Duplicates ---
+
+// Minimum number of consecutive significant lines for a block to count as duplicated
+const MIN_DUPLICATE_LINES = 6;
+
+// Lines without any words (braces, brackets) and imports are too common to signal copied code
+const INSIGNIFICANT_LINE = /^[^\w]*$|^(?:import|from|export\s+\*|using|require|use|package|#include)\b/;
+
+interface SignificantLine {
+  text: string;
+  line: number;
+}
+
+const significantLines = (content: string, lexed: LexedFile): SignificantLine[] =>
+  content.split('\n')
+    .map((text, i) => ({ text: text.trim().replace(/\s+/g, ' '), line: i + 1 }))
+    .filter(({ text, line }) => lexed.hasCode[line - 1] && !INSIGNIFICANT_LINE.test(text));
+
+/** Finds runs of identical significant lines, within and across files, and records them on both sides. */
+const findDuplicates = (files: { path: string; lines: SignificantLine[] }[]): Map<string, DuplicateBlock[]> => {
+  const firstSeen = new Map<string, { file: number; index: number }>();
+  const result = new Map<string, DuplicateBlock[]>(files.map(f => [f.path, []]));
+
+  files.forEach((file, fileIndex) => {
+    let run: { start: number; end: number; other: number; otherStart: number; otherEnd: number } | null = null;
+    const flush = () => {
+      if (!run) return;
+      const other = files[run.other];
+      const block = (start: number, end: number, lines: SignificantLine[]) =>
+        ({ startLine: lines[start].line, endLine: lines[end + MIN_DUPLICATE_LINES - 1].line });
+      const here = block(run.start, run.end, file.lines);
+      const there = block(run.otherStart, run.otherEnd, other.lines);
+      result.get(file.path)!.push({ ...here, otherPath: other.path, otherStartLine: there.startLine, otherEndLine: there.endLine });
+      result.get(other.path)!.push({ ...there, otherPath: file.path, otherStartLine: here.startLine, otherEndLine: here.endLine });
+      run = null;
+    };
+
+    for (let i = 0; i + MIN_DUPLICATE_LINES <= file.lines.length; i++) {
+      const key = file.lines.slice(i, i + MIN_DUPLICATE_LINES).map(l => l.text).join('\n');
+      const seen = firstSeen.get(key);
+      const overlaps = seen && seen.file === fileIndex && i - seen.index < MIN_DUPLICATE_LINES;
+      if (!seen || overlaps) {
+        if (!seen) firstSeen.set(key, { file: fileIndex, index: i });
+        flush();
+        continue;
+      }
+      if (run && run.other === seen.file && run.end === i - 1 && run.otherEnd === seen.index - 1) {
+        run.end = i;
+        run.otherEnd = seen.index;
+      } else {
+        flush();
+        run = { start: i, end: i, other: seen.file, otherStart: seen.index, otherEnd: seen.index };
+      }
+    }
+    flush();
+  });
+  return result;
+};
+
+// --- Analysis ---
+
+const MARKER_PATTERN = /\b(TODO|FIXME|HACK|XXX)\b/g;
+// Bundled and generated files are not walked for blocks: they report no functions and a complexity of 1
+const MAX_WALKED_CHARS = 1_000_000;
+
+const analyzeFile = (file: CodeFile, language: LanguageSpec, lexed: LexedFile): Omit<FileMetrics, 'duplicates'> => {
+  const walker = createWalker();
+  if (file.content.length <= MAX_WALKED_CHARS) {
+    if (language.blocks === 'braces') walkBraces(lexed, language, walker);
+    else if (language.blocks === 'indentation') walkIndentation(lexed, language, walker);
+    else if (language.blocks === 'keywords') walkKeywords(lexed, language, walker);
+  }
+
+  const markers = [...file.content.matchAll(MARKER_PATTERN)].map(match => match[1]);
+  return {
+    path: file.path,
+    language: language.name,
+    // A trailing newline does not start another line
+    lines: file.content.endsWith('\n') ? lexed.code.length - 1 : lexed.code.length,
+    codeLines: lexed.hasCode.filter(Boolean).length,
+    commentLines: lexed.hasComment.filter(Boolean).length,
+    complexity: 1 + walker.decisions,
+    maxNesting: walker.maxNesting,
+    functions: walker.functions,
+    todoCount: markers.filter(marker => marker === 'TODO').length,
+    fixmeCount: markers.filter(marker => marker !== 'TODO').length,
+  };
+};
+
+/**
+ * Computes size, complexity, nesting, marker and duplication metrics for each file, without
+ * a model. The parsing is lexical (comments and strings are skipped, blocks are found from
+ * braces, indentation or keywords), so the numbers are approximate for unusual formatting.
+ */
+export const analyzeFiles = (files: CodeFile[]): FileMetrics[] => {
+  const analyzed = files.map(file => {
+    const language = languageFor(file.path);
+    const lexed = lex(file.content, language);
+    return { file, lexed, metrics: analyzeFile(file, language, lexed) };
+  });
+  const duplicates = findDuplicates(analyzed.map(({ file, lexed }) => ({ path: file.path, lines: significantLines(file.content, lexed) })));
+  return analyzed.map(({ metrics }) => ({ ...metrics, duplicates: duplicates.get(metrics.path) ?? [] }));
+};
+
+export const functionLength = (fn: FunctionMetrics): number => fn.endLine - fn.startLine + 1;
+
+export const exceedsThresholds = (fn: FunctionMetrics): boolean =>
+  fn.complexity > METRIC_THRESHOLDS.complexity
+  || functionLength(fn) > METRIC_THRESHOLDS.functionLength
+  || fn.maxNesting > METRIC_THRESHOLDS.nesting;
+
+export const duplicatedLineCount = (metrics: FileMetrics): number => {
+  const lines = new Set<number>();
+  metrics.duplicates.forEach(block => {
+    for (let line = block.startLine; line <= block.endLine; line++) lines.add(line);
+  });
+  return lines.size;
+};
+
+/** A one-line summary, e.g. for exports. */
+export const describeMetrics = (metrics: FileMetrics): string => {
+  const parts = [
+    `${metrics.lines} lines (${metrics.codeLines} code)`,
+    `complexity ${metrics.complexity}`,
+    `max nesting ${metrics.maxNesting}`,
+  ];
+  if (metrics.functions.length > 0) {
+    const flagged = metrics.functions.filter(exceedsThresholds).length;
+    parts.push(`${metrics.functions.length} function${metrics.functions.length === 1 ? '' : 's'}${flagged > 0 ? ` (${flagged} over the thresholds)` : ''}`);
+  }
+  if (metrics.todoCount + metrics.fixmeCount > 0) parts.push(`${metrics.todoCount} TODO, ${metrics.fixmeCount} FIXME`);
+  const duplicated = duplicatedLineCount(metrics);
+  if (duplicated > 0) parts.push(`${duplicated} duplicated lines`);
+  return parts.join(', ');
+};
+
+// Upper bound on the functions and duplicates listed in a review prompt
+const MAX_PROMPT_ITEMS = 10;
+
+/** The metrics as a prompt section, so the review can cite measured numbers instead of estimating them. */
+export const formatMetricsForPrompt = (metrics: FileMetrics): string => {
+  const lines = [
+    `- Size: ${metrics.lines} lines, ${metrics.codeLines} of code and ${metrics.commentLines} of comments (${metrics.language}).`,
+    `- Cyclomatic complexity of the file: ${metrics.complexity}; deepest control-flow nesting: ${metrics.maxNesting}.`,
+    `- Markers: ${metrics.todoCount} TODO, ${metrics.fixmeCount} FIXME/HACK/XXX.`,
+  ];
+  if (metrics.functions.length > 0) {
+    const flagged = metrics.functions.filter(exceedsThresholds).sort((a, b) => b.complexity - a.complexity);
+    lines.push(
+      `- Functions: ${metrics.functions.length}, of which ${flagged.length} exceed the thresholds (complexity > ${METRIC_THRESHOLDS.complexity}, `
+      + `length > ${METRIC_THRESHOLDS.functionLength} lines or nesting > ${METRIC_THRESHOLDS.nesting}).`
+    );
+    lines.push(...flagged.slice(0, MAX_PROMPT_ITEMS).map(fn =>
+      `  - \`${fn.name}\` (lines ${fn.startLine}-${fn.endLine}): ${functionLength(fn)} lines, complexity ${fn.complexity}, nesting ${fn.maxNesting}`
+    ));
+  }
+  if (metrics.duplicates.length > 0) {
+    lines.push('- Duplicated code:');
+    lines.push(...metrics.duplicates.slice(0, MAX_PROMPT_ITEMS).map(block =>
+      `  - lines ${block.startLine}-${block.endLine} repeat ${block.otherPath === metrics.path ? 'this file' : block.otherPath} lines ${block.otherStartLine}-${block.otherEndLine}`
+    ));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,75 @@
+
+// Thin promise wrapper around IndexedDB for data that must survive a page reload.
+
+const DB_NAME = 'gemini-code-reviewer';
+const DB_VERSION = 3;
+
+export type StoreName = 'checkpoints' | 'history' | 'cache';
+
+// Every object store uses out-of-line keys; new stores are added here together with a DB_VERSION bump
+const STORES: StoreName[] = ['checkpoints', 'history', 'cache'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.filter(name => !db.objectStoreNames.contains(name)).forEach(name => db.createObjectStore(name));
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to try again, e.g. after the user re-enables storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const result = requestToPromise(action(transaction.objectStore(storeName)));
+  const transactionDone = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction was aborted.'));
+  });
+  // Awaited together, so a failed request does not leave `result` rejected with no handler
+  const [value] = await Promise.all([result, transactionDone]);
+  return value;
+};
+
+export const getRecord = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const getAllRecords = async <T>(storeName: StoreName): Promise<T[]> =>
+  withStore<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const putRecord = async <T>(storeName: StoreName, key: IDBValidKey, value: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(value, key));
+};
+
+export const deleteRecord = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const clearRecords = async (storeName: StoreName): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.clear());
+};
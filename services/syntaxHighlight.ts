@@ -0,0 +1,80 @@
+
+import { lexForHighlighting } from "./staticAnalysis";
+
+export type HighlightKind = 'plain' | 'comment' | 'string' | 'keyword' | 'number';
+
+export interface HighlightToken {
+  text: string;
+  kind: HighlightKind;
+}
+
+// --- Keywords ---
+
+const words = (list: string): Set<string> => new Set(list.trim().split(/\s+/));
+
+// Keyed by the language names of the static analysis lexer, which finds the comments and strings
+const KEYWORDS: Record<string, Set<string>> = {
+  'JavaScript/TypeScript': words(`
+    abstract as async await break case catch class const continue debugger default delete do else enum export extends
+    false finally for from function get if implements import in instanceof interface let new null of private protected
+    public readonly return set static super switch this throw true try type typeof undefined var void while yield`),
+  Java: words(`
+    abstract boolean break byte case catch char class const continue default do double else enum extends false final
+    finally float for if implements import instanceof int interface long new null package private protected public
+    record return short static super switch this throw throws true try var void volatile while`),
+  Go: words(`
+    break case chan const continue default defer else fallthrough false for func go goto if import interface map nil
+    package range return select struct switch true type var`),
+  Rust: words(`
+    as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod move mut
+    pub ref return self Self static struct super trait true type unsafe use where while`),
+  PHP: words(`
+    abstract and array as break case catch class const continue default do echo else elseif extends false final finally
+    fn for foreach function if implements interface namespace new null or private protected public return static switch
+    this throw trait true try use while`),
+  Python: words(`
+    and as assert async await break class continue def del elif else except False finally for from global if import in
+    is lambda None nonlocal not or pass raise return self True try while with yield`),
+  Ruby: words(`
+    alias and begin break case class def defined do else elsif end ensure false for if in module next nil not or redo
+    rescue retry return self super then true undef unless until when while yield`),
+};
+
+const WORD_PATTERN = /[A-Za-z_$][\w$]*|\d[\w.]*/g;
+
+// --- Highlighting ---
+
+const highlightCode = (text: string, keywords: Set<string> | undefined, tokens: HighlightToken[]): void => {
+  let last = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    const kind: HighlightKind = /^\d/.test(word) ? 'number' : keywords?.has(word) ? 'keyword' : 'plain';
+    if (kind === 'plain') continue;
+    if (match.index! > last) tokens.push({ text: text.substring(last, match.index), kind: 'plain' });
+    tokens.push({ text: word, kind });
+    last = match.index! + word.length;
+  }
+  if (last < text.length) tokens.push({ text: text.substring(last), kind: 'plain' });
+};
+
+/**
+ * Splits a file into highlighted tokens, one list per line. Comments and strings come from the
+ * static analysis lexer; keywords and numbers are matched in the remaining code. Languages
+ * the lexer does not know are returned as plain text.
+ */
+export const highlightSource = (path: string, content: string): HighlightToken[][] => {
+  const { language, spans } = lexForHighlighting(path, content);
+  const keywords = KEYWORDS[language];
+  return content.split('\n').map((line, i) => {
+    const tokens: HighlightToken[] = [];
+    let last = 0;
+    for (const span of spans[i]) {
+      if (span.end <= span.start) continue;
+      highlightCode(line.substring(last, span.start), keywords, tokens);
+      tokens.push({ text: line.substring(span.start, span.end), kind: span.kind });
+      last = span.end;
+    }
+    highlightCode(line.substring(last), keywords, tokens);
+    return tokens;
+  });
+};
@@ -0,0 +1,158 @@
+
+import { CodeFile } from "./githubService";
+
+export interface FileChunk {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+export type BudgetAction = 'full' | 'chunked' | 'truncated' | 'omitted';
+
+export interface BudgetDecision {
+  path: string;
+  estimatedTokens: number;
+  action: BudgetAction;
+  // Number of chunks for 'chunked', or tokens kept for 'truncated'
+  detail?: number;
+}
+
+// Rough average for source code. Good enough for budgeting; the API does the exact count.
+export const CHARS_PER_TOKEN = 4;
+
+/** Token budgets for the file contents embedded in each kind of prompt. */
+export const PROMPT_BUDGETS = {
+  architecture: 30_000,
+  fileReview: 20_000,
+  securityTriage: 20_000,
+  visualDocs: 120_000,
+  // Retrieved excerpts sent with each chat question
+  chatExcerpts: 12_000,
+};
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Lines that start a top-level declaration, used as preferred chunk boundaries.
+const DECLARATION_PATTERNS: { extensions: string[]; pattern: RegExp }[] = [
+  {
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
+    pattern: /^(export\s+)?(default\s+)?(async\s+)?(function|class|interface|type|enum|const|let|var|abstract\s+class)\b/,
+  },
+  { extensions: ['.py'], pattern: /^(async\s+def|def|class)\s|^@/ },
+  { extensions: ['.go'], pattern: /^(func|type)\s/ },
+  { extensions: ['.rs'], pattern: /^(pub(\([^)]*\))?\s+)?(fn|struct|enum|impl|trait|mod)\b/ },
+  { extensions: ['.java', '.kt', '.scala', '.cs'], pattern: /^\s{0,4}(public|private|protected|internal|static|final|abstract|fun|class|object|interface)\b/ },
+  { extensions: ['.rb'], pattern: /^\s{0,2}(def|class|module)\s/ },
+  { extensions: ['.php'], pattern: /^\s{0,4}((public|private|protected|static|abstract|final)\s+)*(function|class|interface|trait)\s/ },
+];
+
+const findBoundaries = (path: string, lines: string[]): number[] => {
+  const language = DECLARATION_PATTERNS.find(l => l.extensions.some(ext => path.endsWith(ext)));
+  const boundaries = [0];
+  lines.forEach((line, i) => {
+    if (i === 0) return;
+    const isDeclaration = language ? language.pattern.test(line) : false;
+    // Blank-line-separated top-level blocks are a reasonable fallback for any language
+    const isBlockStart = !language && line.trim() !== '' && !/^\s/.test(line) && lines[i - 1].trim() === '';
+    if (isDeclaration || isBlockStart) boundaries.push(i);
+  });
+  return boundaries;
+};
+
+/**
+ * Splits a file into chunks of at most `maxTokens`, cutting at function/class
+ * boundaries where possible. Declarations larger than the budget are split by lines,
+ * and a single line larger than the budget, e.g. minified code, into pieces of that line.
+ * `lineOverheadChars` counts what the prompt adds to every line, such as a line number.
+ */
+export const chunkFile = (file: CodeFile, maxTokens: number, lineOverheadChars: number = 0): FileChunk[] => {
+  const lines = file.content.split('\n');
+  const boundaries = findBoundaries(file.path, lines);
+  const segments = boundaries.map((start, i) => lines.slice(start, boundaries[i + 1] ?? lines.length));
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+
+  const chunks: FileChunk[] = [];
+  let current: string[] = [];
+  let currentChars = 0;
+  let currentStart = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      path: file.path,
+      startLine: currentStart + 1,
+      endLine: currentStart + current.length,
+      content: current.join('\n'),
+    });
+    currentStart += current.length;
+    current = [];
+    currentChars = 0;
+  };
+
+  const append = (line: string) => {
+    current.push(line);
+    currentChars += line.length + 1 + lineOverheadChars;
+  };
+
+  // Every piece is its own chunk and keeps the line's number
+  const splitLine = (line: string) => {
+    flush();
+    const pieceChars = Math.max(1, maxChars - lineOverheadChars - 1);
+    for (let offset = 0; offset < line.length; offset += pieceChars) {
+      chunks.push({ path: file.path, startLine: currentStart + 1, endLine: currentStart + 1, content: line.substring(offset, offset + pieceChars) });
+    }
+    currentStart++;
+  };
+
+  for (const segment of segments) {
+    const segmentChars = segment.reduce((sum, line) => sum + line.length + 1 + lineOverheadChars, 0);
+    if (currentChars + segmentChars > maxChars) flush();
+    if (segmentChars > maxChars) {
+      // A single oversized declaration: fall back to fixed-size line windows
+      for (const line of segment) {
+        const lineChars = line.length + 1 + lineOverheadChars;
+        if (lineChars > maxChars) {
+          splitLine(line);
+          continue;
+        }
+        if (currentChars + lineChars > maxChars) flush();
+        append(line);
+      }
+    } else {
+      segment.forEach(append);
+    }
+  }
+  flush();
+  return chunks;
+};
+
+/**
+ * Fits whole files into a token budget in the given order. A file that no longer fits
+ * is truncated to the remaining budget if a useful amount is left, otherwise omitted.
+ */
+export const fitFilesToBudget = (
+  files: CodeFile[],
+  maxTokens: number
+): { files: CodeFile[]; decisions: BudgetDecision[] } => {
+  let remaining = maxTokens;
+  const fitted: CodeFile[] = [];
+  const decisions: BudgetDecision[] = [];
+
+  for (const file of files) {
+    const estimatedTokens = estimateTokens(file.content);
+    if (estimatedTokens <= remaining) {
+      fitted.push(file);
+      decisions.push({ path: file.path, estimatedTokens, action: 'full' });
+      remaining -= estimatedTokens;
+    } else if (remaining > 500) {
+      const content = file.content.substring(0, remaining * CHARS_PER_TOKEN);
+      fitted.push({ path: file.path, content: `${content}\n... [truncated: file exceeds the prompt budget]` });
+      decisions.push({ path: file.path, estimatedTokens, action: 'truncated', detail: remaining });
+      remaining = 0;
+    } else {
+      decisions.push({ path: file.path, estimatedTokens, action: 'omitted' });
+    }
+  }
+  return { files: fitted, decisions };
+};